@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI in src/cli without a build step
+import { createJiti } from 'jiti';
+
+const jiti = createJiti(import.meta.url);
+await jiti.import('../src/cli/incognito.ts');
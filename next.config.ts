@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  serverExternalPackages: ["pino", "thread-stream"],
+  serverExternalPackages: ["pino", "pino-elasticsearch", "thread-stream"],
+  // Lets the browser know it should pay with the dev wallet instead of MetaMask
+  env: {
+    NEXT_PUBLIC_PAYMENT_MODE: process.env.PAYMENT_MODE ?? "",
+  },
   typescript: {
     ignoreBuildErrors: true,
   },
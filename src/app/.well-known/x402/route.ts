@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { discoveryDocument } from '@/lib/discovery';
+import { logger } from '@/lib/logger';
+import { receiptSigner } from '@/lib/receipts';
+
+// x402 discovery document: every paid resource with its price, networks,
+// pay-to address and schemas. Public, so directories and agents can crawl it.
+export async function GET() {
+    const serverWallet = process.env.SERVER_WALLET;
+    if (!serverWallet) {
+        logger.error('SERVER_WALLET not configured');
+        return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    return NextResponse.json(discoveryDocument(serverWallet, await receiptSigner()), {
+        headers: { 'Access-Control-Allow-Origin': '*' },
+    });
+}
@@ -0,0 +1,353 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Web3 from 'web3';
+import { Wallet as WalletIcon, RefreshCw } from 'lucide-react';
+import { MONAD_TESTNET_CHAIN_ID } from '@/lib/chain';
+import { loadDevWallet, signDevMessage } from '@/lib/dev-wallet';
+import type { OperatorStats } from '@/lib/metrics';
+import type { RefundRecord } from '@/lib/refunds';
+import { formatSiweMessage } from '@/lib/siwe';
+
+// PAYMENT_MODE=simulated: the operator is the local dev wallet, no MetaMask needed
+const SIMULATED = process.env.NEXT_PUBLIC_PAYMENT_MODE === 'simulated';
+
+const RANGES = [7, 30, 90];
+
+// The injected wallet, as far as signing in needs it
+interface EthereumProvider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+}
+
+const mon = (wei: string) => `${Number(Web3.utils.fromWei(wei, 'ether')).toFixed(4)} MON`;
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+const milliseconds = (value: number | null) => (value === null ? '—' : `${(value / 1000).toFixed(2)} s`);
+const short = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+// Signs in with the operator wallet, the same Sign-In With Ethereum flow as the chat page
+async function signInAsOperator(): Promise<void> {
+  let address: string;
+  let sign: (message: string) => Promise<string>;
+  if (SIMULATED) {
+    const wallet = loadDevWallet();
+    address = wallet.address;
+    sign = async (message) => signDevMessage(wallet, message);
+  } else {
+    const { ethereum } = window as Window & { ethereum?: EthereumProvider };
+    if (!ethereum) throw new Error('Please install MetaMask');
+    const web3 = new Web3(ethereum);
+    [address] = await ethereum.request({ method: 'eth_requestAccounts' }) as string[];
+    sign = (message) => web3.eth.personal.sign(message, address, '');
+  }
+
+  const nonceResponse = await fetch('/api/auth/nonce');
+  const { nonce, error: nonceError } = await nonceResponse.json();
+  if (!nonceResponse.ok) throw new Error(nonceError || 'Could not start sign-in');
+  const message = formatSiweMessage({
+    domain: window.location.host,
+    address: Web3.utils.toChecksumAddress(address),
+    statement: 'Sign in to the Private AI operator dashboard.',
+    uri: window.location.origin,
+    version: '1',
+    chainId: MONAD_TESTNET_CHAIN_ID,
+    nonce,
+    issuedAt: new Date().toISOString(),
+  });
+  const signature = await sign(message);
+
+  const response = await fetch('/api/auth/verify', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ message, signature }),
+  });
+  if (!response.ok) {
+    const { error } = await response.json();
+    throw new Error(error || 'Sign-in failed');
+  }
+}
+
+type QueuedRefund = RefundRecord & { amountFormatted: string };
+
+// On-chain refunds waiting for the operator, who pays each one and records its transaction
+function RefundQueue({ refunds, onPaid }: { refunds: QueuedRefund[]; onPaid: () => void }) {
+  const [txHashes, setTxHashes] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const markPaid = async (refund: QueuedRefund) => {
+    const response = await fetch('/api/admin/refunds', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id: refund.id, refundTxHash: txHashes[refund.id]?.trim() }),
+    });
+    if (!response.ok) {
+      const { error } = await response.json();
+      setError(error || `Request failed: ${response.status}`);
+      return;
+    }
+    setError(null);
+    onPaid();
+  };
+
+  return (
+    <>
+      {error && <p className="text-sm text-red-300 mb-2">{error}</p>}
+      <table className="w-full text-sm">
+        <thead className="text-xs text-gray-500 text-left">
+          <tr>
+            <th className="py-1 font-normal">Queued</th>
+            <th className="py-1 font-normal">Pay to</th>
+            <th className="py-1 font-normal text-right">Amount</th>
+            <th className="py-1 font-normal">Reason</th>
+            <th className="py-1 font-normal">Refund transaction</th>
+          </tr>
+        </thead>
+        <tbody>
+          {refunds.map(refund => (
+            <tr key={refund.id} className="border-t border-[#222222]">
+              <td className="py-1.5 text-gray-400">{refund.createdAt.slice(0, 16).replace('T', ' ')}</td>
+              <td className="py-1.5 font-mono" title={`${refund.payer}, paid in ${refund.txHash} on ${refund.network}`}>{short(refund.payer)}</td>
+              <td className="py-1.5 text-right">{refund.amountFormatted}</td>
+              <td className="py-1.5 text-gray-400">{refund.reason}</td>
+              <td className="py-1.5">
+                <div className="flex gap-2">
+                  <input
+                    value={txHashes[refund.id] ?? ''}
+                    onChange={event => setTxHashes(prev => ({ ...prev, [refund.id]: event.target.value }))}
+                    placeholder="0x…"
+                    className="flex-1 min-w-0 bg-black border border-[#222222] rounded px-2 py-1 font-mono text-xs"
+                  />
+                  <button
+                    onClick={() => markPaid(refund)}
+                    disabled={!txHashes[refund.id]?.trim()}
+                    className="text-xs px-3 py-1 rounded border border-[#AD00FF] disabled:opacity-50"
+                  >
+                    Mark paid
+                  </button>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {refunds.length === 0 && <p className="text-sm text-gray-500">No refunds waiting to be paid.</p>}
+    </>
+  );
+}
+
+function Card({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="bg-[#111111] border border-[#222222] rounded-lg p-4">
+      <div className="text-xs text-gray-500 uppercase tracking-wide">{label}</div>
+      <div className="text-2xl font-semibold mt-1">{value}</div>
+      {detail && <div className="text-xs text-gray-500 mt-1">{detail}</div>}
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="bg-[#111111] border border-[#222222] rounded-lg p-4">
+      <h2 className="text-sm font-semibold text-gray-300 mb-3">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+export default function AdminPage() {
+  const [days, setDays] = useState(30);
+  const [stats, setStats] = useState<OperatorStats | null>(null);
+  // Null unless REFUND_MODE=onchain
+  const [refunds, setRefunds] = useState<QueuedRefund[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadStats = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/admin/stats?days=${days}`);
+      const body = await response.json();
+      if (!response.ok) {
+        setStats(null);
+        setNeedsSignIn(response.status === 401 || response.status === 403);
+        setError(body.error || `Request failed: ${response.status}`);
+        return;
+      }
+      setStats(body);
+      setNeedsSignIn(false);
+      setError(null);
+
+      const queue = await (await fetch('/api/admin/refunds?status=queued')).json();
+      setRefunds(queue.mode === 'onchain' ? queue.refunds : null);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  const handleSignIn = async () => {
+    try {
+      await signInAsOperator();
+      await loadStats();
+    } catch (error) {
+      setError((error as Error).message);
+    }
+  };
+
+  const busiestDay = stats ? Math.max(1, ...stats.revenueByDay.map(day => Number(BigInt(day.revenueWei) / BigInt(1e9)))) : 1;
+
+  return (
+    <div className="min-h-screen bg-[#000000] text-white font-sans">
+      <header className="border-b border-[#222222] px-6 py-4">
+        <div className="max-w-6xl mx-auto flex items-center justify-between">
+          <div className="flex flex-col">
+            <span className="text-xl font-bold tracking-tight bg-gradient-to-r from-white to-gray-400 bg-clip-text text-transparent">Private AI</span>
+            <span className="text-[10px] text-gray-500 -mt-1">Operator dashboard</span>
+          </div>
+          <div className="flex items-center gap-2">
+            {RANGES.map(range => (
+              <button
+                key={range}
+                onClick={() => setDays(range)}
+                className={`text-sm px-3 py-1.5 rounded-lg border transition-colors ${days === range ? 'border-[#AD00FF] text-white' : 'border-[#222222] text-gray-400 hover:border-[#555]'}`}
+              >
+                {range}d
+              </button>
+            ))}
+            <button
+              onClick={loadStats}
+              disabled={isLoading}
+              title="Refresh"
+              className="p-2 bg-[#111111] border border-[#222222] rounded-lg hover:border-[#555] transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 py-8 space-y-6">
+        {error && (
+          <div className="p-4 rounded-lg text-sm border bg-red-500/10 text-red-300 border-red-500/20 flex items-center justify-between gap-4">
+            <span>{error}</span>
+            {needsSignIn && (
+              <button
+                onClick={handleSignIn}
+                className="flex items-center gap-2 bg-[#AD00FF] hover:bg-[#9600FF] px-4 py-2 rounded-lg font-medium text-black"
+              >
+                <WalletIcon className="w-4 h-4" />
+                Sign in as operator
+              </button>
+            )}
+          </div>
+        )}
+
+        {stats && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Card label="Revenue" value={mon(stats.totals.revenueWei)} detail="Billed for answers" />
+              <Card label="Received" value={mon(stats.totals.receivedWei)} detail={`${mon(stats.totals.depositsWei)} in deposits`} />
+              <Card
+                label="Queries"
+                value={String(stats.totals.queries)}
+                detail={`${stats.totals.completed} answered, ${stats.totals.failed} refunded, ${stats.totals.stopped} stopped`}
+              />
+              <Card
+                label="Verification failures"
+                value={percent(stats.verification.failureRate)}
+                detail={`${stats.verification.failed} failed, ${stats.verification.settled} settled`}
+              />
+            </div>
+
+            <Section title="Revenue by day">
+              <div className="flex items-end gap-1 h-40">
+                {stats.revenueByDay.map(day => (
+                  <div
+                    key={day.day}
+                    title={`${day.day}: ${mon(day.revenueWei)} from ${day.queries} queries, ${mon(day.receivedWei)} received`}
+                    className="flex-1 bg-[#AD00FF]/70 hover:bg-[#AD00FF] rounded-t min-h-[2px]"
+                    style={{ height: `${(Number(BigInt(day.revenueWei) / BigInt(1e9)) / busiestDay) * 100}%` }}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-[10px] text-gray-500 mt-2">
+                <span>{stats.revenueByDay[0]?.day}</span>
+                <span>{stats.revenueByDay[stats.revenueByDay.length - 1]?.day}</span>
+              </div>
+            </Section>
+
+            <Section title="Models">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-gray-500 text-left">
+                  <tr>
+                    <th className="py-1 font-normal">Model</th>
+                    <th className="py-1 font-normal text-right">Queries</th>
+                    <th className="py-1 font-normal text-right">Revenue</th>
+                    <th className="py-1 font-normal text-right">Provider errors</th>
+                    <th className="py-1 font-normal text-right">Avg latency</th>
+                    <th className="py-1 font-normal text-right">p95 latency</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stats.models.map(model => (
+                    <tr key={model.model} className="border-t border-[#222222]">
+                      <td className="py-1.5">{model.model}</td>
+                      <td className="py-1.5 text-right">{model.queries}</td>
+                      <td className="py-1.5 text-right">{mon(model.revenueWei)}</td>
+                      <td className="py-1.5 text-right">{model.providerErrors} ({percent(model.providerErrorRate)})</td>
+                      <td className="py-1.5 text-right">{milliseconds(model.averageLatencyMs)}</td>
+                      <td className="py-1.5 text-right">{milliseconds(model.p95LatencyMs)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {stats.models.length === 0 && <p className="text-sm text-gray-500">No queries in this range.</p>}
+            </Section>
+
+            {refunds && (
+              <Section title="Refunds to pay on-chain">
+                <RefundQueue refunds={refunds} onPaid={loadStats} />
+              </Section>
+            )}
+
+            <div className="grid md:grid-cols-2 gap-6">
+              <Section title="Top paying wallets">
+                <table className="w-full text-sm">
+                  <tbody>
+                    {stats.topWallets.map(wallet => (
+                      <tr key={wallet.payer} className="border-t border-[#222222] first:border-t-0">
+                        <td className="py-1.5 font-mono" title={wallet.payer}>{short(wallet.payer)}</td>
+                        <td className="py-1.5 text-right text-gray-400">{wallet.queries} queries</td>
+                        <td className="py-1.5 text-right">{mon(wallet.spentWei)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {stats.topWallets.length === 0 && <p className="text-sm text-gray-500">No paying wallets in this range.</p>}
+              </Section>
+
+              <Section title="Why verification failed">
+                <table className="w-full text-sm">
+                  <tbody>
+                    {stats.verification.reasons.map(reason => (
+                      <tr key={reason.reason} className="border-t border-[#222222] first:border-t-0">
+                        <td className="py-1.5">{reason.reason}</td>
+                        <td className="py-1.5 text-right">{reason.count}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {stats.verification.reasons.length === 0 && <p className="text-sm text-gray-500">No failed payments in this range.</p>}
+              </Section>
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findPaymentOption, formatAmount } from '@/lib/payment-options';
+import { REFUND_MODE, type RefundRecord, type RefundStatus, claimRefund, getRefund, listRefunds } from '@/lib/refunds';
+import { operatorDenial } from '@/lib/session';
+
+const STATUSES: RefundStatus[] = ['queued', 'paid', 'resumed'];
+const TX_HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+function describe(refund: RefundRecord) {
+    const option = findPaymentOption(refund.network, refund.asset);
+    return { ...refund, amountFormatted: option ? formatAmount(BigInt(refund.amount), option.decimals, option.symbol) : refund.amount };
+}
+
+// On-chain refunds for the operator to pay, oldest first. ?status= filters them.
+export async function GET(request: NextRequest) {
+    const denial = await operatorDenial(request);
+    if (denial) {
+        return NextResponse.json({ error: denial.error }, { status: denial.status });
+    }
+
+    const status = request.nextUrl.searchParams.get('status') as RefundStatus | null;
+    if (status && !STATUSES.includes(status)) {
+        return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const refunds = (await listRefunds(status ?? undefined)).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return NextResponse.json({ mode: REFUND_MODE, refunds: refunds.map(describe) });
+}
+
+// Records that a queued refund was paid: { id, refundTxHash }
+export async function POST(request: NextRequest) {
+    const denial = await operatorDenial(request);
+    if (denial) {
+        return NextResponse.json({ error: denial.error }, { status: denial.status });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (typeof body?.id !== 'string' || !TX_HASH_PATTERN.test(String(body?.refundTxHash))) {
+        return NextResponse.json({ error: 'id and the refundTxHash that paid it are required' }, { status: 400 });
+    }
+
+    const paid = await claimRefund(body.id, 'paid', body.refundTxHash.toLowerCase());
+    if (!paid) {
+        const refund = await getRefund(body.id);
+        return refund
+            ? NextResponse.json({ error: `This refund is already ${refund.status}` }, { status: 409 })
+            : NextResponse.json({ error: 'No such refund' }, { status: 404 });
+    }
+    return NextResponse.json(describe(paid));
+}
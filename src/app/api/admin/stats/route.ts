@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { operatorStats } from '@/lib/metrics';
+import { operatorDenial } from '@/lib/session';
+
+const MAX_DAYS = 365;
+
+// Revenue, usage and payment health for the operator dashboard. ?days= sets the range, 30 by default.
+export async function GET(request: NextRequest) {
+    const denial = await operatorDenial(request);
+    if (denial) {
+        return NextResponse.json({ error: denial.error }, { status: denial.status });
+    }
+
+    const days = Math.min(MAX_DAYS, Math.max(1, Math.floor(Number(request.nextUrl.searchParams.get('days')) || 30)));
+    return NextResponse.json(await operatorStats(days));
+}
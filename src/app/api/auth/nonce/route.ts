@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { REQUESTS_PER_IP, clientIp, consume, tooManyRequests } from '@/lib/rate-limit';
+import { issueNonce } from '@/lib/session';
+
+export async function GET(request: NextRequest) {
+    // Every nonce is stored until it is used or expires
+    const wait = await consume(REQUESTS_PER_IP, clientIp(request));
+    if (wait !== null) {
+        return tooManyRequests('Too many requests, slow down', wait);
+    }
+
+    return NextResponse.json({ nonce: await issueNonce() }, {
+        headers: { 'Cache-Control': 'no-store' },
+    });
+}
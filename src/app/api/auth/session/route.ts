@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookie, getSession, signOut } from '@/lib/session';
+
+// Current session, if any
+export async function GET(request: NextRequest) {
+    const session = await getSession(request);
+    if (!session) {
+        return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+    return NextResponse.json({ address: session.address, expiresAt: session.expiresAt });
+}
+
+// Sign out
+export async function DELETE(request: NextRequest) {
+    await signOut(request);
+    const response = NextResponse.json({ ok: true });
+    clearSessionCookie(response);
+    return response;
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { setSessionCookie, signIn } from '@/lib/session';
+
+export async function POST(request: NextRequest) {
+    const body = await request.json().catch(() => null);
+    if (typeof body?.message !== 'string' || typeof body?.signature !== 'string') {
+        return NextResponse.json({ error: 'message and signature are required' }, { status: 400 });
+    }
+
+    const result = await signIn(body.message, body.signature, request.headers.get('host') || '');
+    if (!result.ok) {
+        return NextResponse.json({ error: result.reason }, { status: 401 });
+    }
+
+    // `token: true` also returns the session id, for clients that send it as a bearer token
+    const response = NextResponse.json({
+        address: result.session.address,
+        expiresAt: result.session.expiresAt,
+        token: body.token === true ? result.sessionId : undefined,
+    });
+    setSessionCookie(response, result.sessionId);
+    return response;
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBalance } from '@/lib/credits';
+import { formatMon } from '@/lib/payments';
+import { getSession } from '@/lib/session';
+
+// Prepaid credit of the signed-in wallet
+export async function GET(request: NextRequest) {
+    const session = await getSession(request);
+    if (!session) {
+        return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const balance = await getBalance(session.address);
+    return NextResponse.json({
+        address: session.address,
+        balanceWei: balance.toString(),
+        balanceFormatted: formatMon(balance),
+    });
+}
@@ -1,196 +1,430 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { google } from '@ai-sdk/google';
-import { streamText, convertToCoreMessages, UIMessage } from 'ai';
+import { convertToModelMessages, createUIMessageStream, createUIMessageStreamResponse, stepCountIs, streamText } from 'ai';
+import { messageFiles, unsupportedAttachment } from '@/lib/attachments';
+import { getNetwork } from '@/lib/chain';
+import { type ChatUIMessage, type PaymentReceipt, type RefundReport, type UsageReport, toUIMessages } from '@/lib/chat-stream';
+import { addCredit, debitCredit } from '@/lib/credits';
+import { CHAT_RESOURCE, paidResource } from '@/lib/discovery';
+import {
+    type GenerationRecord,
+    MIN_OUTPUT_TOKENS,
+    completeGeneration,
+    failGeneration,
+    findGeneration,
+    resumeGeneration,
+    startGeneration,
+} from '@/lib/generations';
+import { internalError, requestLogger } from '@/lib/logger';
+import { formatMon, paymentRequired, paymentRequirements, settlePayment } from '@/lib/payments';
+import { DEFAULT_MODEL, languageModel, resolveModel } from '@/lib/models';
+import { SYSTEM_PROMPT, type TokenUsage, actualCost, estimateTokens, fitsContext, messageText, quoteQuery } from '@/lib/pricing';
+import {
+    MAX_REQUEST_BYTES,
+    REQUESTS_PER_IP,
+    REQUESTS_PER_WALLET,
+    UNVERIFIED_PAYMENTS,
+    checkAttachmentSize,
+    checkConversationSize,
+    clientIp,
+    consume,
+    exhausted,
+    isCountedPerIp,
+    payloadTooLarge,
+    readBody,
+    recordUnverifiedPayment,
+    tooManyRequests,
+} from '@/lib/rate-limit';
+import type { SignedReceipt } from '@/lib/receipt-signature';
+import { issueReceipt } from '@/lib/receipts';
+import { REDACTION_INSTRUCTIONS, createRedactor, restorePlaceholders } from '@/lib/redaction';
+import { GROUNDING_INSTRUCTIONS, MAX_SEARCHES, SEARCH_PRICING, type SearchSession, resolveSearch, webSearchTool } from '@/lib/search';
+import { getSession } from '@/lib/session';
+import { encodePaymentResponse } from '@/lib/x402/encoding';
 
-// --- Monad Testnet Configuration ---
-const MONAD_TESTNET_RPC = 'https://testnet-rpc.monad.xyz';
-const MONAD_TESTNET_CHAIN_ID = 10143;
-
-// Price per query in Monad's native token (MON)
-const QUERY_PRICE_MON = '0.001';
-const QUERY_PRICE_WEI = BigInt('1000000000000000'); // 0.001 * 10^18
+export async function POST(request: NextRequest) {
+    const { log, requestId } = requestLogger(request);
+    // The query being answered, once it has been paid for
+    let generation: GenerationRecord | undefined;
 
-// Verify a transaction on Monad testnet
-async function verifyPayment(txHash: string, expectedRecipient: string): Promise<boolean> {
     try {
-        console.log('🔍 Verifying payment tx:', txHash);
-
-        // Fetch transaction receipt from Monad RPC
-        const response = await fetch(MONAD_TESTNET_RPC, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                jsonrpc: '2.0',
-                method: 'eth_getTransactionReceipt',
-                params: [txHash],
-                id: 1,
-            }),
-        });
+        const paymentData = request.headers.get('x-payment');
+        const serverWallet = process.env.SERVER_WALLET;
 
-        const data = await response.json();
-        const receipt = data.result;
+        if (!serverWallet) {
+            log.error('SERVER_WALLET not configured');
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+        }
 
-        if (!receipt) {
-            console.log('❌ Transaction receipt not found');
-            return false;
+        // Limits come before anything that costs RPC calls or provider tokens
+        const ip = clientIp(request);
+        const ipWait = isCountedPerIp(request) ? null : await consume(REQUESTS_PER_IP, ip);
+        if (ipWait !== null) {
+            return tooManyRequests('Too many requests, slow down', ipWait);
         }
 
-        // Check if transaction was successful
-        if (receipt.status !== '0x1') {
-            console.log('❌ Transaction failed');
-            return false;
+        const rawBody = await readBody(request);
+        if (rawBody === null) {
+            return payloadTooLarge(`Requests are limited to ${MAX_REQUEST_BYTES} bytes`);
         }
 
-        // Fetch the actual transaction to check value and recipient
-        const txResponse = await fetch(MONAD_TESTNET_RPC, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-                jsonrpc: '2.0',
-                method: 'eth_getTransactionByHash',
-                params: [txHash],
-                id: 2,
-            }),
-        });
+        let body;
+        try {
+            body = JSON.parse(rawBody);
+        } catch {
+            return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+        }
+        const { messages: rawMessages = [], model = DEFAULT_MODEL, redact = false, search = false } = body ?? {};
 
-        const txData = await txResponse.json();
-        const tx = txData.result;
+        // Never log message content; it may be exactly what the user wants kept private
+        log.info({ model, messageCount: Array.isArray(rawMessages) ? rawMessages.length : 0, redact, search }, '📥 Chat request');
 
-        if (!tx) {
-            console.log('❌ Transaction not found');
-            return false;
+        // Ensure messages is an array
+        if (!Array.isArray(rawMessages)) {
+            return NextResponse.json({ error: 'Messages must be an array' }, { status: 400 });
         }
+        const messages = toUIMessages(rawMessages);
 
-        // Verify recipient (case-insensitive comparison)
-        const txTo = tx.to?.toLowerCase();
-        const expected = expectedRecipient.toLowerCase();
-
-        if (txTo !== expected) {
-            console.log(`❌ Wrong recipient. Expected: ${expected}, Got: ${txTo}`);
-            return false;
+        const files = messages.flatMap(messageFiles);
+        const sizeError = checkConversationSize(messages.map(messageText)) ?? checkAttachmentSize(files);
+        if (sizeError) {
+            return payloadTooLarge(sizeError);
         }
 
-        // Verify payment amount (at least the required amount)
-        const txValue = BigInt(tx.value || '0');
-        if (txValue < QUERY_PRICE_WEI) {
-            console.log(`❌ Insufficient payment. Required: ${QUERY_PRICE_WEI}, Got: ${txValue}`);
-            return false;
+        const resolved = resolveModel(model);
+        if ('error' in resolved) {
+            return NextResponse.json({ error: resolved.error }, { status: 400 });
+        }
+        const unsupported = unsupportedAttachment(files, resolved.entry);
+        if (unsupported) {
+            return NextResponse.json({ error: unsupported }, { status: 400 });
         }
 
-        console.log('✅ Payment verified successfully!');
-        return true;
+        // Grounded queries may search the web before answering
+        const grounding = search ? resolveSearch(resolved.entry) : null;
+        if (grounding && 'error' in grounding) {
+            return NextResponse.json({ error: grounding.error }, { status: 400 });
+        }
 
-    } catch (error) {
-        console.error('Payment verification error:', error);
-        return false;
-    }
-}
+        // Price this exact request: model, estimated input, the output cap and any searches
+        const quote = quoteQuery(resolved.entry, messages, grounding ? SEARCH_PRICING : undefined);
+        if (!fitsContext(resolved.entry, quote)) {
+            return NextResponse.json({ error: `Conversation is too long for ${resolved.entry.name}` }, { status: 400 });
+        }
 
-export async function POST(request: NextRequest) {
-    try {
-        const paymentData = request.headers.get('x-payment');
-        const serverWallet = process.env.SERVER_WALLET;
+        // Also answers /v1/chat/completions, whose clients pay for that resource
+        const accepts = paymentRequirements(serverWallet, {
+            resource: paidResource(request.nextUrl.pathname) ?? CHAT_RESOURCE,
+            description: grounding ? 'Grounded AI Query Payment' : undefined,
+            amountWei: quote.amountWei,
+            extra: grounding ? { searches: quote.searches, searchFeeWei: quote.searchFeeWei.toString() } : undefined,
+        });
 
-        if (!serverWallet) {
-            console.error('SERVER_WALLET not configured');
-            return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+        const session = await getSession(request);
+        if (session) {
+            const walletWait = await consume(REQUESTS_PER_WALLET, session.address.toLowerCase());
+            if (walletWait !== null) {
+                return tooManyRequests('Too many requests from this wallet, slow down', walletWait);
+            }
         }
 
-        // If no payment provided, return 402 with payment requirements
-        if (!paymentData) {
-            return new NextResponse(
-                JSON.stringify({
-                    x402Version: 1,
-                    error: 'X-PAYMENT header is required',
-                    accepts: [{
-                        scheme: 'exact',
-                        network: `eip155:${MONAD_TESTNET_CHAIN_ID}`,
-                        maxAmountRequired: QUERY_PRICE_WEI.toString(),
-                        resource: `${process.env.NEXT_PUBLIC_APP_URL}/api/chat`,
-                        description: 'AI Query Payment',
-                        mimeType: 'application/json',
-                        payTo: serverWallet,
-                        maxTimeoutSeconds: 86400,
-                        asset: 'native', // Native MON token
-                        outputSchema: { input: { type: 'http', method: 'POST', discoverable: true } },
-                        extra: {
-                            recipientAddress: serverWallet,
-                            name: 'MON',
-                            symbol: 'MON',
-                            decimals: 18,
-                            priceFormatted: QUERY_PRICE_MON + ' MON',
-                        },
-                    }],
-                }),
-                {
-                    status: 402,
-                    headers: { 'Content-Type': 'application/json' },
-                }
-            );
+        // Lets a client retry the same query without paying for it twice
+        const idempotencyKey = request.headers.get('idempotency-key')?.slice(0, 200) || undefined;
+        const previous = session && idempotencyKey ? await findGeneration(session.address, idempotencyKey) : undefined;
+        if (previous?.status === 'pending') {
+            return NextResponse.json({ error: 'This query is still being answered' }, { status: 409, headers: { 'Retry-After': '5' } });
         }
+        if (previous?.status === 'completed') {
+            return NextResponse.json({ error: 'This query has already been answered' }, { status: 409 });
+        }
+
+        let paymentResponse: string | null = null;
+        let creditBalance: bigint | null = null;
+        let chargedWei: bigint;
+        let receipt: PaymentReceipt;
+        // Whose query this is: the signed-in wallet, or whoever paid a sessionless /v1 call
+        let payer: string;
 
-        // Verify the payment on-chain
-        const isValid = await verifyPayment(paymentData, serverWallet);
+        if (previous || !paymentData) {
+            // Prepaid credit covers the query without a wallet prompt. A failed query
+            // retried with its idempotency key is charged from the credit it was refunded.
+            creditBalance = previous
+                ? await resumeGeneration(previous, quote.amountWei)
+                : session ? await debitCredit(session.address, quote.amountWei) : null;
+            chargedWei = quote.amountWei;
 
-        if (!isValid) {
-            return new NextResponse(
-                JSON.stringify({
-                    x402Version: 1,
-                    error: 'Payment verification failed. Please ensure the transaction is confirmed on Monad testnet.',
-                }),
-                {
-                    status: 402,
-                    headers: { 'Content-Type': 'application/json' },
+            // If no payment provided and no credit left, return 402 with payment requirements
+            if (creditBalance === null) {
+                return paymentRequired(
+                    previous ? 'This query can no longer be resumed from its refund. Pay for it again.'
+                        : session ? 'Insufficient credit balance. Pay for this query or deposit more MON.' : 'X-PAYMENT header is required',
+                    accepts
+                );
+            }
+            payer = session!.address;
+            generation = previous ?? await startGeneration({
+                payer,
+                idempotencyKey,
+                method: 'credit',
+                model: resolved.entry.id,
+                chargedWei: chargedWei.toString(),
+            });
+            receipt = {
+                method: 'credit',
+                payer,
+                chargedWei: chargedWei.toString(),
+                chargedFormatted: formatMon(chargedWei),
+                balanceWei: creditBalance.toString(),
+            };
+        } else {
+            // Payments to /api/chat are bound to the signed-in wallet. OpenAI clients
+            // may pay without signing in, and the payer's wallet gets any credit back.
+            if (!session && !request.nextUrl.pathname.startsWith('/v1/')) {
+                return NextResponse.json({ error: 'Sign in with Ethereum before paying for a query' }, { status: 401 });
+            }
+
+            // Every payment checked costs RPC calls, so clients sending bad ones are cut off
+            const clients = session ? [ip, session.address.toLowerCase()] : [ip];
+            for (const client of clients) {
+                const wait = await exhausted(UNVERIFIED_PAYMENTS, client);
+                if (wait !== null) {
+                    return tooManyRequests('Too many payments failed verification', wait);
                 }
-            );
+            }
+
+            const payment = await settlePayment(paymentData, accepts, session, {
+                purpose: 'query',
+                model: resolved.entry.id,
+            });
+            if (!payment.ok) {
+                for (const client of clients) await recordUnverifiedPayment(client, paymentData);
+                return payment.response;
+            }
+            paymentResponse = encodePaymentResponse(payment.settlement);
+            chargedWei = payment.amountWei;
+            payer = payment.payer;
+
+            generation = await startGeneration({
+                payer,
+                idempotencyKey,
+                method: 'x402',
+                txHash: payment.settlement.transaction,
+                model: resolved.entry.id,
+                chargedWei: chargedWei.toString(),
+            });
+
+            const explorerUrl = getNetwork(payment.settlement.network)?.explorerUrl;
+            receipt = {
+                method: 'x402',
+                payer,
+                chargedWei: chargedWei.toString(),
+                chargedFormatted: formatMon(chargedWei),
+                transaction: payment.settlement.transaction,
+                network: payment.settlement.network,
+                explorerUrl: explorerUrl ? `${explorerUrl}/tx/${payment.settlement.transaction}` : undefined,
+            };
         }
 
         // Payment successful - process the LLM request
-        const body = await request.json();
-        console.log('📥 Chat Request Body:', JSON.stringify(body, null, 2));
+        // Select model based on user choice
+        const selectedModel = languageModel(resolved.entry);
+        // Everything logged about this answer carries what was paid for it, never what was asked
+        const answerLog = log.child({
+            generationId: generation.id,
+            payer,
+            paymentMethod: receipt.method,
+            txHash: receipt.transaction,
+            network: receipt.network,
+            chargedWei: chargedWei.toString(),
+            model: resolved.entry.id,
+        });
+        answerLog.info('💳 Query paid');
 
-        const { messages = [], model } = body;
+        // In incognito mode, personal details are masked before they reach the provider.
+        // That covers what was typed; attachments are passed on as they are.
+        const redactor = redact ? createRedactor() : null;
 
-        // Select model based on user choice
-        const selectedModel = getGoogleModel(model);
+        const modelMessages = convertToModelMessages(messages.map((message): ChatUIMessage => ({
+            ...message,
+            parts: message.parts.map(part => (redactor && part.type === 'text' ? { ...part, text: redactor.redact(part.text) } : part)),
+        })));
 
-        // Ensure messages is an array
-        if (!Array.isArray(messages)) {
-            throw new Error('Messages must be an array');
-        }
+        // Settled once the answer is over: what it was billed, or the refund if it failed, and its signed receipt
+        type Outcome = { usage?: UsageReport; refund?: RefundReport; signedReceipt?: SignedReceipt };
+        const generationId = generation.id;
+        let settle: (outcome: Outcome) => void = () => {};
+        const outcome = new Promise<Outcome>(resolve => { settle = resolve; });
+        const receiptFields = {
+            payer,
+            method: receipt.method,
+            txHash: receipt.transaction,
+            network: receipt.network,
+            model: resolved.entry.id,
+            chargedWei: chargedWei.toString(),
+        };
+        // The model call starts right after; its latency is recorded with the outcome
+        const startedAt = Date.now();
+        const refund = async (reason: string, providerError?: boolean) => {
+            const given = await failGeneration(generationId, reason, { latencyMs: Date.now() - startedAt, providerError });
+            if (!given) {
+                settle({});
+                return;
+            }
+            const signedReceipt = await issueReceipt({
+                ...receiptFields,
+                status: 'refunded',
+                inputTokens: 0,
+                outputTokens: 0,
+                costWei: '0',
+                returnedWei: given.amountWei,
+            });
+            settle({ refund: { ...given, amountFormatted: formatMon(BigInt(given.amountWei)) }, signedReceipt });
+        };
+
+        // Bills actual usage and credits back whatever was paid above it
+        const bill = async (usage: TokenUsage, stopped?: boolean) => {
+            const cost = actualCost(quote, usage);
+            const latencyMs = Date.now() - startedAt;
+            // Lost to a failure already refunded in full
+            if (!await completeGeneration(generationId, { outputTokens: usage.outputTokens, costWei: cost, stopped, latencyMs })) {
+                return;
+            }
+            answerLog.info({ ...usage, costWei: cost.toString(), stopped, latencyMs }, '✅ Answer billed');
+
+            const overpaid = chargedWei - cost;
+            const credited = overpaid > BigInt(0) ? overpaid : BigInt(0);
+            if (credited > BigInt(0)) {
+                await addCredit(payer, credited);
+                answerLog.info({ creditedWei: credited.toString() }, '💸 Credited unused payment');
+            }
+            const signedReceipt = await issueReceipt({
+                ...receiptFields,
+                status: 'billed',
+                inputTokens: usage.inputTokens,
+                outputTokens: usage.outputTokens,
+                costWei: cost.toString(),
+                returnedWei: credited.toString(),
+            });
+            settle({
+                signedReceipt,
+                usage: {
+                    ...usage,
+                    costWei: cost.toString(),
+                    costFormatted: formatMon(cost),
+                    creditedWei: credited.toString(),
+                    creditedFormatted: formatMon(credited),
+                    stopped,
+                },
+            });
+        };
+
+        // Everything the model has streamed, to bill an answer the client stopped
+        let produced = '';
 
-        const coreMessages = messages.map((msg: any) => ({
-            role: msg.role as 'user' | 'assistant' | 'system',
-            content: msg.content
-        }));
+        // Searches run for this answer and the sources they found
+        const searchSession: SearchSession = { searches: 0, sources: [] };
 
         const result = streamText({
             model: selectedModel,
-            messages: coreMessages,
-            system: 'You are a helpful AI assistant. Provide clear, accurate, and concise responses.',
+            messages: modelMessages,
+            system: [SYSTEM_PROMPT, grounding && GROUNDING_INSTRUCTIONS, redactor && REDACTION_INSTRUCTIONS].filter(Boolean).join(' '),
+            experimental_transform: redactor ? restorePlaceholders(redactor) : undefined,
+            maxOutputTokens: quote.maxOutputTokens,
+            // One step per search, then the last step has to answer
+            ...(grounding && {
+                tools: { web_search: webSearchTool(grounding.provider, searchSession, request.signal) },
+                stopWhen: stepCountIs(MAX_SEARCHES + 1),
+                prepareStep: ({ stepNumber }: { stepNumber: number }) => (stepNumber >= MAX_SEARCHES ? { toolChoice: 'none' as const } : undefined),
+            }),
+            // A closed tab or the Stop button cancels the provider call too
+            abortSignal: request.signal,
+            onChunk: ({ chunk }) => {
+                if (chunk.type === 'text-delta' || chunk.type === 'reasoning-delta') produced += chunk.text;
+            },
+            onFinish: async ({ totalUsage }) => {
+                try {
+                    const usage = {
+                        inputTokens: totalUsage.inputTokens ?? quote.inputTokens,
+                        outputTokens: totalUsage.outputTokens ?? quote.maxOutputTokens,
+                        searches: searchSession.searches,
+                    };
+                    if (usage.outputTokens < MIN_OUTPUT_TOKENS) {
+                        await refund('The model returned no answer');
+                        return;
+                    }
+                    await bill(usage);
+                } catch (error) {
+                    answerLog.error({ err: error }, 'Usage reconciliation error');
+                    settle({});
+                }
+            },
+            // An abort surfacing as a provider error is billed as a stop below, not refunded
+            onError: () => (request.signal.aborted ? undefined : refund('The model provider failed', true)),
+        });
+
+        // Provider errors can carry request details, so the client gets a fixed message
+        const streamError = (error: unknown) => {
+            answerLog.error({ err: error }, 'Chat stream error');
+            return 'The model failed to answer this query.';
+        };
+
+        // Receipt first, then the model's text and reasoning, then what it cost
+        const stream = createUIMessageStream<ChatUIMessage>({
+            execute: async ({ writer }) => {
+                writer.write({ type: 'data-receipt', data: receipt });
+                // Searches reach the client as the sources they found, not as tool calls
+                let sent = 0;
+                const sendSources = () => {
+                    for (; sent < searchSession.sources.length; sent++) {
+                        const { url, title } = searchSession.sources[sent];
+                        writer.write({ type: 'source-url', sourceId: String(sent + 1), url, title });
+                    }
+                };
+                for await (const chunk of result.toUIMessageStream<ChatUIMessage>({ sendReasoning: true, sendFinish: false, onError: streamError })) {
+                    if (chunk.type.startsWith('tool-')) {
+                        sendSources();
+                        continue;
+                    }
+                    writer.write(chunk);
+                }
+                sendSources();
+                if (request.signal.aborted) {
+                    // Stopped: the provider has no usage for the unfinished step, so count what was streamed
+                    await bill({ inputTokens: quote.inputTokens, outputTokens: estimateTokens(produced), searches: searchSession.searches }, true);
+                    answerLog.info({ outputTokens: estimateTokens(produced) }, '⏹️ Answer stopped');
+                } else {
+                    // The stream can also end without onFinish or onError, e.g. with no output at all
+                    await refund('The answer stream ended early');
+                }
+                const { usage, refund: given, signedReceipt } = await outcome;
+                if (usage) writer.write({ type: 'data-usage', data: usage });
+                if (given) writer.write({ type: 'data-refund', data: given });
+                if (signedReceipt) writer.write({ type: 'data-signed-receipt', data: signedReceipt });
+                writer.write({ type: 'finish' });
+            },
+            onError: streamError,
         });
 
-        // Return streaming response with payment receipt
-        const response = result.toTextStreamResponse();
-        response.headers.set('X-Payment-Receipt', JSON.stringify({ txHash: paymentData, verified: true }));
+        // x402 settlement receipt or remaining credit, as headers for clients that don't read the stream
+        const headers = new Headers();
+        if (paymentResponse) {
+            headers.set('X-PAYMENT-RESPONSE', paymentResponse);
+        }
+        if (creditBalance !== null) {
+            headers.set('X-Credit-Balance', creditBalance.toString());
+        }
+        if (redactor) {
+            // Placeholders and their types only, never the masked values
+            headers.set('X-Redactions', JSON.stringify(redactor.masked()));
+        }
+        headers.set('X-Request-Id', requestId);
+        headers.set('Access-Control-Expose-Headers', 'X-PAYMENT-RESPONSE, X-Credit-Balance, X-Redactions, X-Request-Id');
 
+        const response = createUIMessageStreamResponse({ stream, headers });
         return response;
 
-    } catch (error: any) {
-        console.error('Chat API error:', error);
-        return NextResponse.json(
-            { error: error?.message || 'Internal server error', details: JSON.stringify(error, Object.getOwnPropertyNames(error)) },
-            { status: 500 }
-        );
+    } catch (error) {
+        // No answer was produced, so whatever was paid for it goes back
+        const refund = generation ? await failGeneration(generation.id, 'The chat request failed') : null;
+        return internalError(log, requestId, error, { refund });
     }
 }
-
-function getGoogleModel(modelId: string) {
-    const models: Record<string, ReturnType<typeof google>> = {
-        'gemini-2.5-flash': google('gemini-2.5-flash'),
-        'gemini-2.0-flash': google('gemini-2.0-flash'),
-        'gemini-1.5-pro': google('gemini-1.5-pro'),
-    };
-    return models[modelId] || google('gemini-2.5-flash');
-}
-
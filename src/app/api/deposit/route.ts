@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addCredit } from '@/lib/credits';
+import { DEPOSIT_RESOURCE, MIN_DEPOSIT_WEI } from '@/lib/discovery';
+import { internalError, logger, requestLogger } from '@/lib/logger';
+import { formatMon, paymentRequired, paymentRequirements, settlePayment } from '@/lib/payments';
+import { getSession } from '@/lib/session';
+import { encodePaymentResponse } from '@/lib/x402/encoding';
+
+function depositRequirements(serverWallet: string) {
+    return paymentRequirements(serverWallet, {
+        resource: DEPOSIT_RESOURCE,
+        amountWei: MIN_DEPOSIT_WEI,
+    });
+}
+
+// Where and how much to deposit
+export async function GET() {
+    const serverWallet = process.env.SERVER_WALLET;
+    if (!serverWallet) {
+        logger.error('SERVER_WALLET not configured');
+        return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+    }
+
+    const accepts = depositRequirements(serverWallet);
+    return NextResponse.json({
+        payTo: serverWallet,
+        network: accepts[0].network,
+        minimumWei: MIN_DEPOSIT_WEI.toString(),
+        minimumFormatted: formatMon(MIN_DEPOSIT_WEI),
+        // Deposits can be made in any payment option; the MON value is credited
+        accepts,
+    });
+}
+
+// Credits the full value of the transfer in X-PAYMENT to the signed-in wallet
+export async function POST(request: NextRequest) {
+    const { log, requestId } = requestLogger(request);
+    try {
+        const serverWallet = process.env.SERVER_WALLET;
+        if (!serverWallet) {
+            log.error('SERVER_WALLET not configured');
+            return NextResponse.json({ error: 'Server configuration error' }, { status: 500 });
+        }
+
+        const session = await getSession(request);
+        if (!session) {
+            return NextResponse.json({ error: 'Sign in with Ethereum before depositing' }, { status: 401 });
+        }
+
+        const accepts = depositRequirements(serverWallet);
+        const paymentData = request.headers.get('x-payment');
+        if (!paymentData) {
+            return paymentRequired('X-PAYMENT header is required', accepts);
+        }
+
+        const payment = await settlePayment(paymentData, accepts, session, { purpose: 'deposit' });
+        if (!payment.ok) {
+            return payment.response;
+        }
+
+        const balance = await addCredit(session.address, payment.amountWei);
+        log.info({
+            payer: session.address,
+            txHash: payment.settlement.transaction,
+            network: payment.settlement.network,
+            amountWei: payment.amountWei.toString(),
+        }, '💰 Deposit credited');
+
+        const response = NextResponse.json({
+            creditedWei: payment.amountWei.toString(),
+            balanceWei: balance.toString(),
+            balanceFormatted: formatMon(balance),
+        });
+        response.headers.set('X-PAYMENT-RESPONSE', encodePaymentResponse(payment.settlement));
+        response.headers.set('X-Request-Id', requestId);
+        response.headers.set('Access-Control-Expose-Headers', 'X-PAYMENT-RESPONSE, X-Request-Id');
+        return response;
+    } catch (error) {
+        return internalError(log, requestId, error);
+    }
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseFacilitatorRequest, settle } from '@/lib/x402/facilitator';
+
+export async function POST(request: NextRequest) {
+    const parsed = parseFacilitatorRequest(await request.json().catch(() => null));
+    if (!parsed) {
+        return NextResponse.json({ error: 'A well-formed paymentPayload and paymentRequirements are required' }, { status: 400 });
+    }
+
+    return NextResponse.json(await settle(parsed.payment, parsed.requirements));
+}
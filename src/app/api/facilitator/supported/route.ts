@@ -0,0 +1,6 @@
+import { NextResponse } from 'next/server';
+import { supported } from '@/lib/x402/facilitator';
+
+export async function GET() {
+    return NextResponse.json(supported());
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseFacilitatorRequest, verify } from '@/lib/x402/facilitator';
+
+export async function POST(request: NextRequest) {
+    const parsed = parseFacilitatorRequest(await request.json().catch(() => null));
+    if (!parsed) {
+        return NextResponse.json({ error: 'A well-formed paymentPayload and paymentRequirements are required' }, { status: 400 });
+    }
+
+    return NextResponse.json(await verify(parsed.payment, parsed.requirements));
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { ATTACHMENT_TYPES } from '@/lib/attachments';
+import { isAvailable, listModels } from '@/lib/models';
+import { MAX_ATTACHMENTS, MAX_ATTACHMENT_BYTES } from '@/lib/rate-limit';
+import { MAX_SEARCHES, SEARCH_FEE_WEI, searchProvider } from '@/lib/search';
+
+// Model catalog for the UI, with what can be attached to a question and whether
+// web search is on offer. Models whose provider isn't configured are listed as unavailable.
+export async function GET() {
+    return NextResponse.json({
+        attachments: {
+            types: Object.keys(ATTACHMENT_TYPES),
+            maxBytes: MAX_ATTACHMENT_BYTES,
+            maxCount: MAX_ATTACHMENTS,
+        },
+        search: {
+            available: !!searchProvider(),
+            maxSearches: MAX_SEARCHES,
+            searchFeeWei: SEARCH_FEE_WEI.toString(),
+        },
+        models: listModels().map((model) => ({
+            id: model.id,
+            name: model.name,
+            description: model.description,
+            provider: model.provider,
+            contextLength: model.contextLength,
+            capabilities: model.capabilities,
+            available: isAvailable(model),
+            pricing: {
+                baseFeeWei: model.pricing.baseFeeWei.toString(),
+                inputWeiPer1k: model.pricing.inputWeiPer1k.toString(),
+                outputWeiPer1k: model.pricing.outputWeiPer1k.toString(),
+                maxOutputTokens: model.pricing.maxOutputTokens,
+            },
+        })),
+    });
+}
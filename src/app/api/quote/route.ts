@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { messageFiles, unsupportedAttachment } from '@/lib/attachments';
+import { toUIMessages } from '@/lib/chat-stream';
+import { internalError, requestLogger } from '@/lib/logger';
+import { formatMon } from '@/lib/payments';
+import { DEFAULT_MODEL, resolveModel } from '@/lib/models';
+import { fitsContext, messageText, quoteQuery } from '@/lib/pricing';
+import {
+    MAX_REQUEST_BYTES,
+    REQUESTS_PER_IP,
+    checkAttachmentSize,
+    checkConversationSize,
+    clientIp,
+    consume,
+    payloadTooLarge,
+    readBody,
+    tooManyRequests,
+} from '@/lib/rate-limit';
+import { SEARCH_PRICING, resolveSearch } from '@/lib/search';
+
+// Price of a chat request before paying for it. Takes the same body, and the
+// same size and per-IP limits, as /api/chat.
+export async function POST(request: NextRequest) {
+    const { log, requestId } = requestLogger(request);
+    try {
+        // Before the body is read: decoding attachments is the expensive part
+        const ipWait = await consume(REQUESTS_PER_IP, clientIp(request));
+        if (ipWait !== null) {
+            return tooManyRequests('Too many requests, slow down', ipWait);
+        }
+
+        const rawBody = await readBody(request);
+        if (rawBody === null) {
+            return payloadTooLarge(`Requests are limited to ${MAX_REQUEST_BYTES} bytes`);
+        }
+
+        let body;
+        try {
+            body = JSON.parse(rawBody);
+        } catch {
+            return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+        }
+        const { messages = [], model = DEFAULT_MODEL, search = false } = body ?? {};
+
+        if (!Array.isArray(messages)) {
+            return NextResponse.json({ error: 'Messages must be an array' }, { status: 400 });
+        }
+
+        const uiMessages = toUIMessages(messages);
+        const files = uiMessages.flatMap(messageFiles);
+        const sizeError = checkConversationSize(uiMessages.map(messageText)) ?? checkAttachmentSize(files);
+        if (sizeError) {
+            return payloadTooLarge(sizeError);
+        }
+
+        const resolved = resolveModel(model);
+        if ('error' in resolved) {
+            return NextResponse.json({ error: resolved.error }, { status: 400 });
+        }
+        const unsupported = unsupportedAttachment(files, resolved.entry);
+        if (unsupported) {
+            return NextResponse.json({ error: unsupported }, { status: 400 });
+        }
+
+        const grounding = search ? resolveSearch(resolved.entry) : null;
+        if (grounding && 'error' in grounding) {
+            return NextResponse.json({ error: grounding.error }, { status: 400 });
+        }
+
+        const quote = quoteQuery(resolved.entry, uiMessages, grounding ? SEARCH_PRICING : undefined);
+        if (!fitsContext(resolved.entry, quote)) {
+            return NextResponse.json({ error: `Conversation is too long for ${resolved.entry.name}` }, { status: 400 });
+        }
+
+        return NextResponse.json({
+            model: quote.model,
+            inputTokens: quote.inputTokens,
+            maxOutputTokens: quote.maxOutputTokens,
+            searches: quote.searches,
+            amountWei: quote.amountWei.toString(),
+            amountFormatted: formatMon(quote.amountWei),
+        });
+    } catch (error) {
+        return internalError(log, requestId, error);
+    }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getNetwork } from '@/lib/chain';
+import { paymentOptions } from '@/lib/payment-options';
+import { listReceipts, receiptSigner, receiptsCsv } from '@/lib/receipts';
+import { getSession } from '@/lib/session';
+
+// The signed-in wallet's receipts, newest first. ?format=csv or ?format=json downloads them as a file.
+export async function GET(request: NextRequest) {
+    const session = await getSession(request);
+    if (!session) {
+        return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const receipts = await listReceipts(session.address);
+    const signer = await receiptSigner();
+    const format = request.nextUrl.searchParams.get('format');
+    const filename = `receipts-${session.address.toLowerCase()}-${new Date().toISOString().slice(0, 10)}`;
+
+    if (format === 'csv') {
+        return new NextResponse(receiptsCsv(receipts), {
+            headers: {
+                'Content-Type': 'text/csv; charset=utf-8',
+                'Content-Disposition': `attachment; filename="${filename}.csv"`,
+            },
+        });
+    }
+    if (format === 'json') {
+        return new NextResponse(JSON.stringify({ signer, receipts }, null, 2), {
+            headers: {
+                'Content-Type': 'application/json',
+                'Content-Disposition': `attachment; filename="${filename}.json"`,
+            },
+        });
+    }
+
+    // Block explorers by network, for linking each receipt's transaction
+    const explorers = Object.fromEntries(paymentOptions().map(option => [option.network, getNetwork(option.network)?.explorerUrl]));
+    return NextResponse.json({ signer, receipts, explorers });
+}
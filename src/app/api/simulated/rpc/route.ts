@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MONAD_TESTNET_NETWORK, getNetwork } from '@/lib/chain';
+import { SIMULATED, handleSimulatedRpc } from '@/lib/simulated-chain';
+
+// JSON-RPC endpoint of the simulated chain, for scripts and tests that want to
+// broadcast transactions or inspect balances. Only exists with PAYMENT_MODE=simulated.
+// ?network=eip155:<chainId> picks the chain; Monad testnet by default.
+export async function POST(request: NextRequest) {
+    if (!SIMULATED) {
+        return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const network = request.nextUrl.searchParams.get('network') || MONAD_TESTNET_NETWORK;
+    if (!getNetwork(network)) {
+        return NextResponse.json({ error: `Unsupported network: ${network}` }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+        return NextResponse.json({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+    }
+
+    // Batches are answered in order
+    if (Array.isArray(body)) {
+        const responses = [];
+        for (const call of body) responses.push(await handleSimulatedRpc(network, call));
+        return NextResponse.json(responses);
+    }
+    return NextResponse.json(await handleSimulatedRpc(network, body));
+}
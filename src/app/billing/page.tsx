@@ -0,0 +1,175 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import Web3 from 'web3';
+import { Download, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { verifyReceipt, type SignedReceipt } from '@/lib/receipt-signature';
+import { discover } from '@/lib/x402/client';
+
+interface ReceiptList {
+  signer: string;
+  receipts: SignedReceipt[];
+  explorers: Record<string, string | undefined>;
+}
+
+// What checking an exported receipts file found
+interface FileCheck {
+  // The signer the file names, which proves nothing by itself
+  fileSigner: string;
+  total: number;
+  valid: number;
+}
+
+const mon = (wei: string) => `${Web3.utils.fromWei(wei, 'ether')} MON`;
+const short = (value: string) => `${value.slice(0, 8)}...${value.slice(-6)}`;
+
+export default function BillingPage() {
+  const [list, setList] = useState<ReceiptList | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [fileCheck, setFileCheck] = useState<FileCheck | null>(null);
+  // The receipt key the server publishes. Receipts are only checked against it,
+  // never against a signer named by the receipt list or an imported file.
+  const [signer, setSigner] = useState<string | null>(null);
+
+  useEffect(() => {
+    discover(window.location.origin)
+      .then(discovery => setSigner(discovery.receiptSigner))
+      .catch(() => setError('The server\'s receipt key could not be loaded, so no signature can be checked.'));
+    fetch('/api/receipts')
+      .then(async response => {
+        const body = await response.json();
+        if (!response.ok) throw new Error(response.status === 401 ? 'Connect and sign in with your wallet on the chat page first.' : body.error);
+        setList(body);
+      })
+      .catch(error => setError((error as Error).message));
+  }, []);
+
+  // Checks every signature in an exported JSON file, in the browser only
+  const checkFile = async (file: File) => {
+    if (!signer) {
+      setError('The server\'s receipt key is not loaded yet.');
+      return;
+    }
+    try {
+      const exported = JSON.parse(await file.text()) as { signer: string; receipts: SignedReceipt[] };
+      setFileCheck({
+        fileSigner: String(exported.signer),
+        total: exported.receipts.length,
+        valid: exported.receipts.filter(receipt => verifyReceipt(receipt, signer)).length,
+      });
+    } catch {
+      setError('That file is not a receipts export.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#000000] text-white font-sans">
+      <header className="border-b border-[#222222] px-6 py-4">
+        <div className="max-w-5xl mx-auto flex items-center justify-between">
+          <Link href="/" className="flex flex-col">
+            <span className="text-xl font-bold tracking-tight bg-gradient-to-r from-white to-gray-400 bg-clip-text text-transparent">Private AI</span>
+            <span className="text-[10px] text-gray-500 -mt-1">Billing</span>
+          </Link>
+          {list && (
+            <div className="flex items-center gap-2">
+              <a
+                href="/api/receipts?format=csv"
+                className="flex items-center gap-2 text-sm bg-[#111111] border border-[#222222] rounded-lg px-3 py-1.5 hover:border-[#555] transition-colors"
+              >
+                <Download className="w-4 h-4" /> CSV
+              </a>
+              <a
+                href="/api/receipts?format=json"
+                className="flex items-center gap-2 text-sm bg-[#111111] border border-[#222222] rounded-lg px-3 py-1.5 hover:border-[#555] transition-colors"
+              >
+                <Download className="w-4 h-4" /> JSON
+              </a>
+            </div>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-6 py-8 space-y-6">
+        {error && (
+          <div className="p-4 rounded-lg text-sm border bg-red-500/10 text-red-300 border-red-500/20">{error}</div>
+        )}
+
+        {list && (
+          <section className="bg-[#111111] border border-[#222222] rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-sm font-semibold text-gray-300">Receipts</h2>
+              {signer && <span className="text-xs text-gray-500" title={signer}>Signed by {short(signer)}</span>}
+            </div>
+            {list.receipts.length === 0 ? (
+              <p className="text-sm text-gray-500">No paid queries yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="text-xs text-gray-500 text-left">
+                  <tr>
+                    <th className="py-1 font-normal">Date</th>
+                    <th className="py-1 font-normal">Model</th>
+                    <th className="py-1 font-normal text-right">Tokens</th>
+                    <th className="py-1 font-normal text-right">Paid</th>
+                    <th className="py-1 font-normal text-right">Billed</th>
+                    <th className="py-1 font-normal text-right">Returned</th>
+                    <th className="py-1 font-normal">Payment</th>
+                    <th className="py-1 font-normal">Signature</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {list.receipts.map(receipt => {
+                    const explorer = receipt.network && list.explorers[receipt.network];
+                    const valid = signer !== null && verifyReceipt(receipt, signer);
+                    return (
+                      <tr key={receipt.id} className="border-t border-[#222222]">
+                        <td className="py-1.5 text-gray-400">{new Date(receipt.issuedAt).toLocaleString()}</td>
+                        <td className="py-1.5">{receipt.model}</td>
+                        <td className="py-1.5 text-right">{receipt.inputTokens} / {receipt.outputTokens}</td>
+                        <td className="py-1.5 text-right">{mon(receipt.chargedWei)}</td>
+                        <td className="py-1.5 text-right">{mon(receipt.costWei)}</td>
+                        <td className={`py-1.5 text-right ${receipt.status === 'refunded' ? 'text-yellow-500' : ''}`}>{mon(receipt.returnedWei)}</td>
+                        <td className="py-1.5">
+                          {receipt.txHash && explorer ? (
+                            <a href={`${explorer}/tx/${receipt.txHash}`} target="_blank" rel="noopener noreferrer" className="underline hover:text-[#AD00FF]">
+                              {short(receipt.txHash)}
+                            </a>
+                          ) : receipt.txHash ? short(receipt.txHash) : 'credit'}
+                        </td>
+                        <td className="py-1.5">
+                          {valid
+                            ? <ShieldCheck className="w-4 h-4 text-green-500" aria-label="Valid signature" />
+                            : <ShieldAlert className="w-4 h-4 text-red-500" aria-label="Invalid signature" />}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </section>
+        )}
+
+        <section className="bg-[#111111] border border-[#222222] rounded-lg p-4 text-sm">
+          <h2 className="font-semibold text-gray-300 mb-2">Verify an export</h2>
+          <p className="text-gray-500 mb-3">
+            Checks the signatures in a JSON export right here in the browser, against the receipt key this server
+            publishes. The receipts are never sent to the server.
+          </p>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={event => event.target.files?.[0] && checkFile(event.target.files[0])}
+            className="text-gray-400 file:mr-3 file:rounded-md file:border-0 file:bg-[#222222] file:px-3 file:py-1.5 file:text-white hover:file:bg-[#333333]"
+          />
+          {fileCheck && signer && (
+            <p className={`mt-3 ${fileCheck.valid === fileCheck.total ? 'text-green-400' : 'text-red-400'}`}>
+              {fileCheck.valid} of {fileCheck.total} receipts carry a valid signature by this server&apos;s receipt key, {signer}.
+              {fileCheck.fileSigner.toLowerCase() !== signer.toLowerCase() && ` The file names another signer, ${fileCheck.fileSigner}, so its receipts are not this server's.`}
+            </p>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -1,28 +1,88 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useEffectEvent, useRef } from 'react';
+import Link from 'next/link';
 import Web3 from 'web3';
-import { Search, Wallet as WalletIcon, Zap, ChevronDown, X } from 'lucide-react';
-
-const MONAD_TESTNET_CHAIN_ID = 10143;
-const MONAD_TESTNET_RPC = 'https://testnet-rpc.monad.xyz';
-const MONAD_EXPLORER_URL = 'https://testnet.monadexplorer.com';
-
-// Server Wallet Address - MUST match the server's configured wallet
-// In a real app, this might be fetched from an API or config
-const SERVER_WALLET_ADDRESS = "0xYourReceivingWalletAddress"; // Placeholder, will rely on user env if possible, but hardcoded for now as it needs to be public
-
-const AVAILABLE_MODELS = [
-  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', description: 'Fast & efficient', disabled: false },
-  { id: 'gemini-2.0-flash', name: 'Gemini 2.0 Flash', description: 'Balanced performance', disabled: false },
-  { id: 'gemini-1.5-pro', name: 'Gemini 1.5 Pro', description: 'Most capable', disabled: false },
-  { id: 'gpt-4', name: 'GPT-4', description: 'Coming soon', disabled: true },
-  { id: 'claude-3-opus', name: 'Claude 3 Opus', description: 'Coming soon', disabled: true },
-  { id: 'llama-3', name: 'Llama 3', description: 'Coming soon', disabled: true },
-  { id: 'deepseek-r1', name: 'DeepSeek r1', description: 'Coming soon', disabled: true },
-  { id: 'kimi-k2', name: 'Kimi k2', description: 'Coming soon', disabled: true },
-  { id: 'venice-uncensored', name: 'Venice Uncensored', description: 'Coming soon', disabled: true },
-];
+import type { FileUIPart } from 'ai';
+import type { ThirdwebClient } from 'thirdweb';
+import { AutoConnect, useActiveWallet, useConnectModal, useDisconnect } from 'thirdweb/react';
+import type { Wallet } from 'thirdweb/wallets';
+import { Paperclip, Wallet as WalletIcon, LogOut, Zap, ChevronDown, X, EyeOff, Eye, History, Square, Receipt, Copy, Check, RefreshCw, Pencil, Eraser, Globe } from 'lucide-react';
+import AttachmentList, { formatBytes } from '@/components/AttachmentList';
+import HistorySidebar from '@/components/HistorySidebar';
+import Markdown from '@/components/Markdown';
+import PaymentOptionPicker from '@/components/PaymentOptionPicker';
+import SourceList from '@/components/SourceList';
+import {
+  deleteConversation,
+  deriveHistoryKey,
+  exportHistory,
+  hasConversations,
+  historyKeyMessage,
+  importHistory,
+  loadConversations,
+  saveConversation,
+  signaturesMatch,
+  titleFor,
+  type ChatMessage,
+  type Conversation,
+} from '@/lib/history';
+import { type AttachmentLimits, attachmentSize, attachmentType, readAttachment, unsupportedAttachment } from '@/lib/attachments';
+import { messageContent, messageData, messageReasoning, messageSources, readChatStream, type ChatUIMessage } from '@/lib/chat-stream';
+import { devWalletSigner, loadDevWallet } from '@/lib/dev-wallet';
+import { findPii } from '@/lib/redaction';
+import { formatSiweMessage } from '@/lib/siwe';
+import { PaymentCancelledError, createX402Client, discover, sendWithPaymentRetry, type X402Signer } from '@/lib/x402/client';
+import { encodePayment } from '@/lib/x402/encoding';
+import { discoveredChain, switchChain, type ChainParams, type EthereumProvider } from '@/lib/x402/signers';
+import { X402_VERSION, type DiscoveryDocument, type PaymentRequirements } from '@/lib/x402/types';
+import {
+  WALLETS,
+  forgetConnection,
+  injectedProvider,
+  injectedSigner,
+  rememberConnection,
+  rememberedConnection,
+  thirdwebChain,
+  thirdwebClient,
+  thirdwebSigner,
+} from '@/lib/wallet';
+
+// PAYMENT_MODE=simulated: a local dev wallet pays on the server's fake chain, no MetaMask needed
+const SIMULATED = process.env.NEXT_PUBLIC_PAYMENT_MODE === 'simulated';
+
+// The server's /.well-known/x402 document: where to pay, on which chains and
+// how much. Fetched once and shared by every handler; a failed fetch is retried.
+let discoveryRequest: Promise<DiscoveryDocument> | null = null;
+
+function loadDiscovery(): Promise<DiscoveryDocument> {
+  discoveryRequest ??= discover(window.location.origin).catch(error => {
+    discoveryRequest = null;
+    throw error;
+  });
+  return discoveryRequest;
+}
+
+// The chain wallets sign in on, where MON is paid and deposited
+function homeChain(discovery: DiscoveryDocument): ChainParams {
+  const network = discovery.networks.find(candidate => candidate.network === discovery.signIn.network);
+  if (!network) throw new Error(`The server lists no details for ${discovery.signIn.network}`);
+  return discoveredChain(network);
+}
+
+// Entry of the /api/models catalog
+interface ModelOption {
+  id: string;
+  name: string;
+  description: string;
+  capabilities: string[];
+  available: boolean;
+}
+
+// What the server accepts as attachments, from the same catalog
+interface AttachmentRules extends AttachmentLimits {
+  types: string[];
+}
 
 // Toast notification interface
 interface Toast {
@@ -32,13 +92,54 @@ interface Toast {
   details?: string;
 }
 
+// Conversation so far plus the new question, in the UI message format /api/chat and /api/quote take.
+// Attachments go along with the question they belong to; their file names stay in the browser.
+function outgoingMessages(history: ChatMessage[], input: string, files: FileUIPart[]): ChatUIMessage[] {
+  const parts = (text: string, attached: FileUIPart[] = []): ChatUIMessage['parts'] => [
+    { type: 'text', text },
+    ...attached.map(({ mediaType, url }): FileUIPart => ({ type: 'file', mediaType, url })),
+  ];
+  return [
+    ...history.map(({ id, role, content, attachments }): ChatUIMessage => ({ id, role, parts: parts(content, attachments) })),
+    { id: 'next', role: 'user', parts: parts(input, files) },
+  ];
+}
+
+// Highlights the personal details that incognito mode masked before sending
+function MaskedText({ text }: { text: string }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  for (const match of findPii(text)) {
+    parts.push(text.slice(cursor, match.start));
+    parts.push(
+      <mark
+        key={match.start}
+        title={`Masked as ${match.type} before sending`}
+        className="bg-[#AD00FF]/20 text-[#E218FF] rounded px-0.5"
+      >
+        {match.value}
+      </mark>
+    );
+    cursor = match.end;
+  }
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
+
 export default function Home() {
   const [account, setAccount] = useState<string | null>(null);
-  const [web3, setWeb3] = useState<Web3 | null>(null);
+  // Signs and pays for the connected wallet: MetaMask or another wallet, or the dev wallet in simulated mode
+  const [signer, setSigner] = useState<X402Signer | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [isSignedIn, setIsSignedIn] = useState(false);
   const [selectedModel, setSelectedModel] = useState('gemini-2.5-flash');
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [attachmentRules, setAttachmentRules] = useState<AttachmentRules | null>(null);
+  const [searchAvailable, setSearchAvailable] = useState(false);
   const [paymentStatus, setPaymentStatus] = useState<'idle' | 'pending' | 'success' | 'error'>('idle');
-  const [lastTxHash, setLastTxHash] = useState<string | null>(null);
+  // Explorer link of the last payment, when its chain has an explorer
+  const [lastTxUrl, setLastTxUrl] = useState<string | null>(null);
+  const [discovery, setDiscovery] = useState<DiscoveryDocument | null>(null);
   const [toasts, setToasts] = useState<Toast[]>([]);
 
   // Toast helper functions
@@ -55,233 +156,664 @@ export default function Home() {
     setToasts(prev => prev.filter(t => t.id !== id));
   }, []);
 
-  // Connect wallet using Web3.js
-  const connectWallet = async () => {
+  // Sign-In With Ethereum (EIP-4361) so the server only accepts payments from this wallet
+  const signInWithEthereum = async (walletSigner: X402Signer) => {
+    const address = walletSigner.address;
+    // Reuse an existing session for the same wallet
+    if (await resumeSession(address)) return;
+
+    const { signIn } = await loadDiscovery();
+    const nonceResponse = await fetch('/api/auth/nonce');
+    const { nonce, error: nonceError } = await nonceResponse.json();
+    if (!nonceResponse.ok) throw new Error(nonceError || 'Could not start sign-in');
+    const message = formatSiweMessage({
+      domain: window.location.host,
+      address: Web3.utils.toChecksumAddress(address),
+      statement: 'Sign in to Private AI. Query payments will only be accepted from this wallet.',
+      uri: window.location.origin,
+      version: '1',
+      chainId: signIn.chainId,
+      nonce,
+      issuedAt: new Date().toISOString(),
+    });
+
+    addToast('info', 'Sign In', 'Please sign the message in your wallet...');
+    const signature = await walletSigner.signMessage(message);
+
+    const verifyResponse = await fetch('/api/auth/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ message, signature }),
+    });
+    if (!verifyResponse.ok) {
+      const { error } = await verifyResponse.json();
+      throw new Error(error || 'Sign-in failed');
+    }
+
+    setIsSignedIn(true);
+    addToast('success', 'Signed In', `Payments will be accepted from ${address.slice(0, 10)}...`);
+  };
+
+  // Whether the server still has a session for this wallet
+  const resumeSession = async (address: string) => {
+    const sessionResponse = await fetch('/api/auth/session');
+    if (!sessionResponse.ok) return false;
+    const session = await sessionResponse.json();
+    if (session.address?.toLowerCase() !== address.toLowerCase()) return false;
+    setIsSignedIn(true);
+    return true;
+  };
+
+  const handleSignIn = async () => {
+    if (!signer) return;
     setIsConnecting(true);
-    if (typeof window !== 'undefined' && (window as any).ethereum) {
-      try {
-        const web3Instance = new Web3((window as any).ethereum);
-        await (window as any).ethereum.request({ method: 'eth_requestAccounts' });
-        const accounts = await web3Instance.eth.getAccounts();
+    try {
+      await signInWithEthereum(signer);
+    } catch (error) {
+      console.error('Sign-in failed', error);
+      addToast('error', 'Sign-In Failed', (error as Error)?.message);
+    } finally {
+      setIsConnecting(false);
+    }
+  };
 
-        // Switch to Monad Testnet
-        try {
-          await (window as any).ethereum.request({
-            method: 'wallet_switchEthereumChain',
-            params: [{ chainId: `0x${MONAD_TESTNET_CHAIN_ID.toString(16)}` }],
-          });
-        } catch (switchError: any) {
-          // This error code indicates that the chain has not been added to MetaMask.
-          if (switchError.code === 4902) {
-            await (window as any).ethereum.request({
-              method: 'wallet_addEthereumChain',
-              params: [
-                {
-                  chainId: `0x${MONAD_TESTNET_CHAIN_ID.toString(16)}`,
-                  chainName: 'Monad Testnet',
-                  nativeCurrency: {
-                    name: 'MON',
-                    symbol: 'MON',
-                    decimals: 18,
-                  },
-                  rpcUrls: [MONAD_TESTNET_RPC],
-                  blockExplorerUrls: [MONAD_EXPLORER_URL],
-                },
-              ],
-            });
-          } else {
-            throw switchError;
-          }
-        }
+  // Chains and explorers for links to payments
+  useEffect(() => {
+    loadDiscovery()
+      .then(setDiscovery)
+      .catch(error => console.error('Failed to load the discovery document', error));
+  }, []);
 
-        setWeb3(web3Instance);
-        setAccount(accounts[0]);
-      } catch (error) {
-        console.error("Connection failed", error);
-        alert("Failed to connect wallet.");
-      } finally {
-        setIsConnecting(false);
+  // Load the model catalog from the server
+  useEffect(() => {
+    fetch('/api/models')
+      .then(response => response.json())
+      .then(({ models, attachments, search }: { models: ModelOption[]; attachments: AttachmentRules; search: { available: boolean } }) => {
+        setModels(models);
+        setAttachmentRules(attachments);
+        setSearchAvailable(search.available);
+        // Fall back to a model this server can actually run
+        setSelectedModel(current => models.find(model => model.id === current)?.available
+          ? current
+          : models.find(model => model.available)?.id ?? current);
+      })
+      .catch(error => console.error('Failed to load models', error));
+  }, []);
+
+  const modelName = (id?: string) => models.find(model => model.id === id)?.name || 'AI';
+
+  // The connected account, for wallet events that arrive between renders
+  const accountRef = useRef<string | null>(null);
+  // Stops listening to the connected wallet's events
+  const unwatchRef = useRef<(() => void) | null>(null);
+
+  const onSubmitted = (hash: string) => addToast('info', 'Transaction Submitted', `Tx: ${hash.slice(0, 20)}...`);
+
+  // Switches the page to another account: the previous one's session and
+  // unlocked history go with it. A restored connection only resumes an existing
+  // session instead of asking for a signature.
+  const adoptWallet = async (walletSigner: X402Signer, { prompt = true } = {}) => {
+    setSigner(walletSigner);
+    if (accountRef.current?.toLowerCase() === walletSigner.address.toLowerCase()) return;
+
+    accountRef.current = walletSigner.address;
+    setAccount(walletSigner.address);
+    setIsSignedIn(false);
+    setHistoryKey(null);
+    setConversations([]);
+
+    try {
+      if (prompt) await signInWithEthereum(walletSigner);
+      else await resumeSession(walletSigner.address);
+    } catch (error) {
+      console.error('Sign-in failed', error);
+      addToast('error', 'Sign-In Failed', (error as Error)?.message);
+    }
+  };
+
+  // Forgets the wallet on this page and signs out of the server
+  const resetWallet = () => {
+    unwatchRef.current?.();
+    unwatchRef.current = null;
+    accountRef.current = null;
+    forgetConnection();
+    setSigner(null);
+    setAccount(null);
+    setIsSignedIn(false);
+    setHistoryKey(null);
+    setConversations([]);
+    setConversationId(null);
+    setMessages([]);
+    fetch('/api/auth/session', { method: 'DELETE' }).catch(error => console.error('Sign-out failed', error));
+  };
+
+  // Payments switch the wallet back to the chain they need, so leaving it is only worth a note
+  const onChainChanged = async (chainId: number) => {
+    const chain = homeChain(await loadDiscovery());
+    if (chainId !== chain.chainId) {
+      addToast('info', 'Network Changed', `Your wallet left ${chain.chainName}; payments will ask to switch back.`);
+    }
+  };
+
+  const watchWallet = (unwatch: () => void) => {
+    unwatchRef.current?.();
+    unwatchRef.current = unwatch;
+  };
+
+  // Follows account and chain switches made in the wallet, and its disconnecting
+  const adoptThirdwebWallet = async (client: ThirdwebClient, wallet: Wallet, options?: { prompt?: boolean }) => {
+    const unsubscribes = [
+      wallet.subscribe('accountChanged', () => adoptWallet(thirdwebSigner(client, wallet, { onSubmitted }))),
+      wallet.subscribe('chainChanged', chain => onChainChanged(chain.id)),
+      wallet.subscribe('disconnect', resetWallet),
+    ];
+    watchWallet(() => unsubscribes.forEach(unsubscribe => unsubscribe()));
+    await adoptWallet(thirdwebSigner(client, wallet, { onSubmitted }), options);
+  };
+
+  const adoptInjectedWallet = async (ethereum: EthereumProvider, address: string, options?: { prompt?: boolean }) => {
+    // An empty account list means the wallet was locked or this site disconnected
+    const onAccountsChanged = (...args: unknown[]) => {
+      const [next] = args[0] as string[];
+      if (next) adoptWallet(injectedSigner(ethereum, next, { onSubmitted }));
+      else resetWallet();
+    };
+    const onChain = (...args: unknown[]) => onChainChanged(Number(args[0]));
+    ethereum.on?.('accountsChanged', onAccountsChanged);
+    ethereum.on?.('chainChanged', onChain);
+    watchWallet(() => {
+      ethereum.removeListener?.('accountsChanged', onAccountsChanged);
+      ethereum.removeListener?.('chainChanged', onChain);
+    });
+    rememberConnection('injected');
+    await adoptWallet(injectedSigner(ethereum, address, { onSubmitted }), options);
+  };
+
+  const { connect: openConnectModal } = useConnectModal();
+  const activeWallet = useActiveWallet();
+  const { disconnect } = useDisconnect();
+
+  // thirdweb's connect modal when a client ID is configured, else the injected wallet
+  const connectWallet = async () => {
+    setIsConnecting(true);
+    const ethereum = injectedProvider();
+    try {
+      if (SIMULATED) {
+        // No provider needed: the dev wallet signs locally and the server broadcasts
+        rememberConnection('simulated');
+        await adoptWallet(devWalletSigner(loadDevWallet()));
+        addToast('info', 'Simulated Mode', 'Using a local dev wallet on the simulated chain.');
+      } else if (thirdwebClient) {
+        const wallet = await openConnectModal({
+          client: thirdwebClient,
+          wallets: WALLETS,
+          chain: thirdwebChain(homeChain(await loadDiscovery())),
+          theme: 'dark',
+          size: 'compact',
+        });
+        await adoptThirdwebWallet(thirdwebClient, wallet);
+      } else if (ethereum) {
+        const [address] = await ethereum.request({ method: 'eth_requestAccounts' }) as string[];
+        await switchChain(ethereum, homeChain(await loadDiscovery()));
+        await adoptInjectedWallet(ethereum, address);
+      } else {
+        addToast('error', 'No Wallet Found', 'Install MetaMask or another browser wallet to connect.');
       }
-    } else {
-      alert("Please install MetaMask!");
+    } catch (error) {
+      console.error('Connection failed', error);
+      addToast('error', 'Connection Failed', (error as Error)?.message);
+    } finally {
       setIsConnecting(false);
     }
   };
 
+  const disconnectWallet = () => {
+    resetWallet();
+    if (activeWallet) disconnect(activeWallet);
+    addToast('info', 'Disconnected', 'Your wallet was disconnected and signed out.');
+  };
+
+  // Reconnect the way this browser last connected, without a prompt. thirdweb
+  // wallets come back through <AutoConnect> instead.
+  const restoreConnection = useEffectEvent(async () => {
+    const connection = rememberedConnection();
+    const ethereum = injectedProvider();
+    try {
+      if (connection === 'simulated' && SIMULATED) {
+        await adoptWallet(devWalletSigner(loadDevWallet()), { prompt: false });
+      } else if (connection === 'injected' && ethereum) {
+        const [address] = await ethereum.request({ method: 'eth_accounts' }) as string[];
+        if (address) await adoptInjectedWallet(ethereum, address, { prompt: false });
+        else forgetConnection();
+      }
+    } catch (error) {
+      console.error('Reconnecting failed', error);
+    }
+  });
+  const stopWatching = useEffectEvent(() => unwatchRef.current?.());
+
+  useEffect(() => {
+    restoreConnection();
+    return () => stopWatching();
+  }, []);
+
   // Manage input state manually (required in AI SDK v5)
   const [inputValue, setInputValue] = useState('');
+  // Index of the user message being edited; sending replaces it and everything after it
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Files to send with the next question
+  const [attachments, setAttachments] = useState<FileUIPart[]>([]);
+  // Metadata such as EXIF location is stripped before upload unless the user turns it off
+  const [keepMetadata, setKeepMetadata] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
   // Manual message management instead of useChat (for better x402 control)
-  const [messages, setMessages] = useState<Array<{
-    id: string;
-    role: 'user' | 'assistant';
-    content: string;
-  }>>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
 
-  const isLoading = isSubmitting;
+  // Encrypted local history; the key only exists in memory once the wallet unlocks it
+  const [historyKey, setHistoryKey] = useState<CryptoKey | null>(null);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
 
-  // Custom submit handler with logging
-  const handleFormSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    if (!inputValue.trim()) return;
+  const unlockHistory = async () => {
+    if (!signer || !account) {
+      addToast('warning', 'Connect Wallet', 'Connect your wallet to unlock chat history.');
+      return;
+    }
+    try {
+      addToast('info', 'Unlock History', 'Please sign the message in your wallet...');
+      const signature = await signer.signMessage(historyKeyMessage(account));
+      // A wallet with nothing saved yet signs again, to make sure its key can be derived again later
+      if (!(await hasConversations(account))) {
+        addToast('info', 'Unlock History', 'Please sign once more to confirm your wallet can unlock history again later...');
+        const again = await signer.signMessage(historyKeyMessage(account));
+        if (!signaturesMatch(signature, again)) {
+          throw new Error('This wallet signs differently every time, so history saved now could never be unlocked again.');
+        }
+      }
+      const key = await deriveHistoryKey(signature, account);
+      setHistoryKey(key);
+      setConversations(await loadConversations(account, key));
+    } catch (error) {
+      console.error('Failed to unlock history', error);
+      addToast('error', 'Unlock Failed', (error as Error)?.message);
+    }
+  };
 
-    console.log('🔍 Search button clicked!', {
-      input: inputValue,
-      model: selectedModel,
-      account,
-      timestamp: new Date().toISOString(),
-    });
+  // Save the conversation after each completed exchange
+  const persistConversation = async (updated: ChatMessage[]) => {
+    if (!historyKey || !account) return;
+    try {
+      const now = new Date().toISOString();
+      const existing = conversations.find(conversation => conversation.id === conversationId);
+      const conversation: Conversation = {
+        id: existing?.id ?? crypto.randomUUID(),
+        title: existing?.title ?? titleFor(updated),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        messages: updated,
+      };
+      await saveConversation(account, historyKey, conversation);
+      setConversationId(conversation.id);
+      setConversations(prev => [conversation, ...prev.filter(c => c.id !== conversation.id)]);
+    } catch (error) {
+      console.error('Failed to save conversation', error);
+      addToast('error', 'History Error', 'This chat could not be saved locally.');
+    }
+  };
 
-    setIsSubmitting(true);
-    const currentInput = inputValue;
-    setInputValue(''); // Clear input immediately
+  const startNewChat = () => {
+    setMessages([]);
+    setConversationId(null);
+    setEditingIndex(null);
+  };
+
+  const selectConversation = (conversation: Conversation) => {
+    setMessages(conversation.messages);
+    setConversationId(conversation.id);
+    setEditingIndex(null);
+  };
+
+  const renameConversation = async (conversation: Conversation, title: string) => {
+    if (!historyKey || !account) return;
+    const renamed = { ...conversation, title };
+    await saveConversation(account, historyKey, renamed);
+    setConversations(prev => prev.map(c => (c.id === renamed.id ? renamed : c)));
+  };
+
+  const removeConversation = async (conversation: Conversation) => {
+    if (!account || !confirm(`Delete "${conversation.title}"?`)) return;
+    await deleteConversation(account, conversation.id);
+    setConversations(prev => prev.filter(c => c.id !== conversation.id));
+    if (conversation.id === conversationId) startNewChat();
+  };
+
+  const downloadHistory = async () => {
+    if (!historyKey || !account) return;
+    const blob = await exportHistory(account, historyKey);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `private-ai-history-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
+  const uploadHistory = async (file: File) => {
+    if (!historyKey || !account) return;
     try {
-      // First, check if payment is required by making a preflight request
-      if (web3 && account) {
-        console.log('🔍 Checking if payment is required...');
+      const count = await importHistory(account, historyKey, file);
+      setConversations(await loadConversations(account, historyKey));
+      addToast('success', 'History Imported', `${count} conversation${count === 1 ? '' : 's'} imported.`);
+    } catch (error) {
+      addToast('error', 'Import Failed', (error as Error)?.message);
+    }
+  };
+
+  // Incognito mode masks personal details before they reach the model provider
+  const [incognito, setIncognito] = useState(true);
+
+  // Grounded queries let the model search the web and cite what it found, for a higher price
+  const [webSearch, setWebSearch] = useState(false);
+  const grounded = webSearch && searchAvailable;
+
+  const isLoading = isSubmitting;
+
+  // The answer being streamed, which the Stop button aborts
+  const abortRef = useRef<AbortController | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+
+  // A question the server never answered, with the key it was sent with, so sending it again resumes it
+  const failedQueryRef = useRef<{ input: string; idempotencyKey: string } | null>(null);
 
-        const preflightResponse = await fetch('/api/chat', {
+  // Price of the query being typed, from /api/quote
+  const [quote, setQuote] = useState<{ amountWei: string; amountFormatted: string } | null>(null);
+  const [paymentPrice, setPaymentPrice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!inputValue.trim()) return;
+
+    // Debounce so typing doesn't fire a request per keystroke
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/quote', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            messages: [{ role: 'user', parts: [{ type: 'text', text: currentInput }] }],
-            model: selectedModel
+            messages: outgoingMessages(editingIndex === null ? messages : messages.slice(0, editingIndex), inputValue, attachments),
+            model: selectedModel,
+            search: grounded
           }),
         });
+        if (response.ok) setQuote(await response.json());
+      } catch (error) {
+        console.error('Quote failed:', error);
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [inputValue, attachments, messages, selectedModel, editingIndex, grounded]);
 
-        // If 402, handle payment flow
-        if (preflightResponse.status === 402) {
-          console.log('💳 Payment required! Starting x402 flow...');
-          setPaymentStatus('pending');
-          addToast('info', 'Payment Required', 'Please confirm the transaction in MetaMask...');
+  // Prepaid credit of the signed-in wallet, in wei
+  const [creditBalance, setCreditBalance] = useState<bigint | null>(null);
+  const [isDepositing, setIsDepositing] = useState(false);
 
-          const paymentInfo = await preflightResponse.json();
-          console.log('📋 x402 Payment Info:', paymentInfo);
+  const refreshBalance = useCallback(async () => {
+    const response = await fetch('/api/balance');
+    if (!response.ok) {
+      setCreditBalance(null);
+      return;
+    }
+    const { balanceWei } = await response.json();
+    setCreditBalance(BigInt(balanceWei));
+  }, []);
 
-          // Extract payment details
-          const accepts = paymentInfo.accepts || [];
-          const paymentOption = accepts[0];
+  useEffect(() => {
+    if (isSignedIn) refreshBalance();
+  }, [isSignedIn, refreshBalance]);
 
-          if (!paymentOption) {
-            throw new Error('No payment options available');
-          }
+  // Payment options offered by the last 402, while the user is choosing one
+  const [paymentChoice, setPaymentChoice] = useState<{
+    accepts: PaymentRequirements[];
+    resolve: (option: PaymentRequirements | null) => void;
+  } | null>(null);
 
-          const payTo = paymentOption.payTo;
-          console.log('💰 Payment to:', payTo);
-
-          addToast('warning', 'Confirm in MetaMask', `Sending 0.001 MON to ${payTo?.slice(0, 10)}...`);
-
-          // Send the native MON transaction via MetaMask
-          const paymentAmount = web3.utils.toWei('0.001', 'ether');
-
-          const txHash = await new Promise<string>((resolve, reject) => {
-            console.log('📤 Sending transaction...');
-            web3.eth.sendTransaction({
-              from: account,
-              to: payTo,
-              value: paymentAmount
-            })
-              .on('transactionHash', (hash) => {
-                console.log('📝 Transaction Hash:', hash);
-                addToast('info', 'Transaction Submitted', `Tx: ${hash.slice(0, 20)}...`);
-              })
-              .on('receipt', (receipt) => {
-                console.log('✅ Transaction confirmed:', receipt);
-                resolve(receipt.transactionHash.toString());
-              })
-              .on('error', (error: any) => {
-                console.error('❌ Transaction failed:', error);
-                reject(error);
-              });
-          });
+  // Resolves to the option to pay with, or null if the user cancels
+  const choosePaymentOption = (accepts: PaymentRequirements[]) => {
+    if (accepts.length <= 1) return Promise.resolve(accepts[0] ?? null);
+    return new Promise<PaymentRequirements | null>(resolve => setPaymentChoice({ accepts, resolve }));
+  };
 
-          setLastTxHash(txHash);
-          setPaymentStatus('success');
-          addToast('success', 'Payment Confirmed!', `Now fetching AI response...`);
+  const closePaymentChoice = (option: PaymentRequirements | null) => {
+    paymentChoice?.resolve(option);
+    setPaymentChoice(null);
+  };
 
-          // Store txHash for the fetch request
-          localStorage.setItem('x402_payment_hash', txHash);
-        }
-      }
+  // Deposit MON once and spend it across many queries
+  const handleDeposit = async () => {
+    if (!signer) return;
+    setIsDepositing(true);
 
-      // Add user message to state
-      const userMessageId = Date.now().toString();
-      setMessages(prev => [...prev, {
-        id: userMessageId,
-        role: 'user',
-        content: currentInput
-      }]);
+    try {
+      const { items, signIn } = await loadDiscovery();
+      const deposit = items.find(item => new URL(item.resource, window.location.origin).pathname === '/api/deposit');
+      // Top-ups are made in native MON, of the amount the server suggests
+      const option = deposit?.accepts.find(accept => accept.network === signIn.network && accept.asset === 'native');
+      if (!deposit || deposit.pricing.type !== 'minimum' || !option) throw new Error('This server takes no deposits in MON');
+      const amountWei = deposit.pricing.suggestedWei;
+      addToast('warning', 'Confirm in Your Wallet', `Depositing ${Web3.utils.fromWei(amountWei, 'ether')} MON to ${option.payTo.slice(0, 10)}...`);
 
-      // Make the actual chat request
-      const storedPaymentHash = localStorage.getItem('x402_payment_hash');
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-      };
+      const payload = await signer.pay(option, amountWei);
 
-      if (storedPaymentHash) {
-        headers['x-payment'] = storedPaymentHash;
-        localStorage.removeItem('x402_payment_hash');
-        console.log('📎 Attaching x-payment header:', storedPaymentHash);
+      const paymentHeader = encodePayment({
+        x402Version: X402_VERSION,
+        scheme: 'exact',
+        network: option.network,
+        payload,
+      });
+      const response = await sendWithPaymentRetry(
+        () => fetch('/api/deposit', { method: 'POST', headers: { 'x-payment': paymentHeader } }),
+        (reason, seconds) => addToast('info', 'Waiting for Confirmation', `${reason} Retrying in ${seconds}s...`)
+      );
+      const result = await response.json();
+      if (!response.ok) {
+        const reason = result.error || `Deposit failed: ${response.status}`;
+        throw new Error(result.requestId ? `${reason} (reference ${result.requestId})` : reason);
       }
 
-      const chatResponse = await fetch('/api/chat', {
+      setCreditBalance(BigInt(result.balanceWei));
+      addToast('success', 'Deposit Credited', `Balance: ${result.balanceFormatted}`);
+    } catch (error) {
+      console.error('Deposit failed:', error);
+      const errorMessage = (error as Error)?.message || 'Unknown error';
+      if (errorMessage.includes('User denied') || errorMessage.includes('rejected')) {
+        addToast('warning', 'Transaction Cancelled', 'You rejected the transaction.');
+      } else {
+        addToast('error', 'Deposit Failed', errorMessage);
+      }
+    } finally {
+      setIsDepositing(false);
+    }
+  };
+
+  // Custom submit handler with logging
+  // Asks `currentInput` after `history`: the whole conversation for a new question, or
+  // the part before the message being regenerated or edited. Nothing is replaced until
+  // the server accepts the query. Retrying a failed query passes the key it was sent with.
+  const sendQuery = async (history: ChatMessage[], currentInput: string, currentAttachments: FileUIPart[], retryKey?: string) => {
+    console.log('🔍 Sending query', {
+      model: selectedModel,
+      account,
+      timestamp: new Date().toISOString(),
+    });
+
+    setIsSubmitting(true);
+    setInputValue(''); // Clear input immediately
+    setAttachments([]);
+
+    // Same key on every attempt, so a retried paid query resumes instead of charging again
+    const idempotencyKey = retryKey ?? crypto.randomUUID();
+    try {
+      const controller = new AbortController();
+      abortRef.current = controller;
+      // Prepaid credit is spent first; the server answers 402 once it runs out, and the client pays
+      // A browser wallet waits for the transfer to be mined; the dev wallet only
+      // signs, and the server broadcasts on settle
+      const payments = signer ? createX402Client({
+        signer,
+        // Let the user pick an asset when several are accepted
+        choose: choosePaymentOption,
+        onPayment: option => {
+          setPaymentStatus('pending');
+          const price = String(option.extra?.priceFormatted || `${Web3.utils.fromWei(option.maxAmountRequired, 'ether')} MON`);
+          setPaymentPrice(price);
+          addToast('warning', 'Confirm in Your Wallet', `Sending ${price} to ${option.payTo.slice(0, 10)}...`);
+        },
+        onPaid: ({ network, payload }) => {
+          // An authorization has no transaction until the server submits it
+          const hash = 'transaction' in payload ? payload.transaction
+            : 'signedTransaction' in payload ? Web3.utils.keccak256(payload.signedTransaction) : null;
+          const explorerUrl = discovery?.networks.find(candidate => candidate.network === network)?.explorerUrl;
+          setLastTxUrl(explorerUrl && hash ? `${explorerUrl}/tx/${hash}` : null);
+          setPaymentStatus('success');
+          addToast('success', 'Payment Confirmed!', `Now fetching AI response...`);
+        },
+        onPending: (reason, seconds) => addToast('info', 'Waiting for Confirmation', `${reason} Retrying in ${seconds}s...`),
+      }) : null;
+
+      const chatResponse = await (payments?.fetch ?? fetch)('/api/chat', {
         method: 'POST',
-        headers,
+        signal: controller.signal,
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
         body: JSON.stringify({
-          messages: [...messages, { role: 'user', content: currentInput }],
-          model: selectedModel
+          messages: outgoingMessages(history, currentInput, currentAttachments),
+          model: selectedModel,
+          redact: incognito,
+          search: grounded
         }),
       });
 
+      // Rate limited (429) or conversation too large (413): the server says why
+      if (chatResponse.status === 429 || chatResponse.status === 413) {
+        const { error } = await chatResponse.json().catch(() => ({ error: 'Request refused' }));
+        const retryAfter = chatResponse.headers.get('Retry-After');
+        throw new Error(retryAfter ? `${error}. Try again in ${retryAfter}s.` : error);
+      }
+
+      // Server errors only say what went wrong in general, plus a reference to quote when reporting it
       if (!chatResponse.ok) {
-        const errorText = await chatResponse.text();
-        throw new Error(`Chat request failed: ${chatResponse.status} - ${errorText}`);
+        const { error, requestId } = await chatResponse.json().catch(() => ({}));
+        const reason = error || `Chat request failed: ${chatResponse.status}`;
+        throw new Error(requestId ? `${reason} (reference ${requestId})` : reason);
       }
 
+      const remainingCredit = chatResponse.headers.get('X-Credit-Balance');
+      if (remainingCredit !== null) {
+        setCreditBalance(BigInt(remainingCredit));
+      }
+
+      const redactions = JSON.parse(chatResponse.headers.get('X-Redactions') || '[]');
+      if (redactions.length > 0) {
+        addToast('info', 'Incognito', `Masked ${redactions.length} personal detail${redactions.length === 1 ? '' : 's'} before sending`);
+      }
+
+      // Add user message to state, dropping whatever it replaces
+      const userMessage: ChatMessage = {
+        id: Date.now().toString(),
+        role: 'user',
+        content: currentInput,
+        redacted: incognito,
+        attachments: currentAttachments.length > 0 ? currentAttachments : undefined,
+      };
+      setEditingIndex(null);
+      setMessages([...history, userMessage]);
+      failedQueryRef.current = null;
+
       // Create assistant message placeholder
       const assistantMessageId = (Date.now() + 1).toString();
-      setMessages(prev => [...prev, {
+      let assistantMessage: ChatMessage = {
         id: assistantMessageId,
         role: 'assistant',
-        content: ''
-      }]);
-
-      // Handle streaming response
-      const reader = chatResponse.body?.getReader();
-      const decoder = new TextDecoder();
-      let fullContent = '';
-
-      if (reader) {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          // toTextStreamResponse sends plain text chunks
-          const chunk = decoder.decode(value, { stream: true });
-          fullContent += chunk;
-
-          // Update the assistant message with accumulated content
-          setMessages(prev => prev.map(msg =>
-            msg.id === assistantMessageId
-              ? { ...msg, content: fullContent }
-              : msg
-          ));
+        content: '',
+        model: selectedModel,
+        idempotencyKey,
+      };
+      const showAssistantMessage = () => setMessages(prev => prev.some(msg => msg.id === assistantMessageId)
+        ? prev.map(msg => msg.id === assistantMessageId ? assistantMessage : msg)
+        : [...prev, assistantMessage]);
+      showAssistantMessage();
+
+      // The UI message stream keeps text, reasoning, errors and billing parts apart
+      if (chatResponse.body) {
+        setIsStreaming(true);
+        try {
+          const stream = readChatStream(chatResponse.body, (error) => {
+            if (!controller.signal.aborted) assistantMessage = { ...assistantMessage, error: error.message };
+          });
+          for await (const message of stream) {
+            const sources = messageSources(message);
+            assistantMessage = {
+              ...assistantMessage,
+              content: messageContent(message),
+              reasoning: messageReasoning(message) || undefined,
+              sources: sources.length > 0 ? sources : undefined,
+              receipt: messageData(message, 'receipt'),
+              usage: messageData(message, 'usage'),
+              refund: messageData(message, 'refund'),
+              signedReceipt: messageData(message, 'signed-receipt'),
+            };
+            showAssistantMessage();
+          }
+        } catch (error) {
+          if (!controller.signal.aborted) throw error;
+        } finally {
+          setIsStreaming(false);
+          abortRef.current = null;
+        }
+        // The server bills a stopped answer by the tokens it produced and credits the rest
+        if (controller.signal.aborted) {
+          assistantMessage = { ...assistantMessage, stopped: true };
         }
+        showAssistantMessage();
       }
 
-      console.log('✅ Chat completed. Full response:', fullContent);
-      addToast('success', 'Response Received', 'AI response generated successfully!');
+      if (assistantMessage.stopped) {
+        addToast('info', 'Stopped', 'Only the tokens generated so far are billed; the rest is returned as credit.');
+        setTimeout(refreshBalance, 1000);
+      } else if (assistantMessage.refund) {
+        addToast('warning', 'Payment Returned', `${assistantMessage.refund.reason}. ${assistantMessage.refund.amountFormatted} ${assistantMessage.refund.to === 'credit' ? 'was added to your credit' : 'will be refunded on-chain'}.`);
+      } else if (assistantMessage.error) {
+        addToast('error', 'Model Error', assistantMessage.error);
+      } else {
+        console.log('✅ Chat completed.', assistantMessage.usage);
+        addToast('success', 'Response Received', 'AI response generated successfully!');
+      }
+      if (assistantMessage.refund?.to === 'credit' || (assistantMessage.usage && BigInt(assistantMessage.usage.creditedWei) > BigInt(0))) {
+        refreshBalance();
+      }
       setIsSubmitting(false);
 
+      await persistConversation([
+        ...history,
+        userMessage,
+        assistantMessage,
+      ]);
+
     } catch (error: any) {
       console.error('Failed to send message:', error);
       setInputValue(currentInput); // Restore input on error
+      failedQueryRef.current = { input: currentInput, idempotencyKey };
+      setAttachments(currentAttachments);
       setIsSubmitting(false);
 
       const errorMessage = error?.message || 'Unknown error';
-      if (errorMessage.includes('User denied') || errorMessage.includes('rejected')) {
+      if (error instanceof PaymentCancelledError) {
+        addToast('warning', 'Payment Cancelled', 'No payment option was chosen.');
+      } else if (errorMessage.includes('User denied') || errorMessage.includes('rejected')) {
         addToast('warning', 'Transaction Cancelled', 'You rejected the transaction.');
       } else {
         addToast('error', 'Error', errorMessage);
@@ -289,8 +821,129 @@ export default function Home() {
     }
   };
 
+  const handleFormSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!inputValue.trim()) return;
+    const failed = failedQueryRef.current;
+    await sendQuery(
+      editingIndex === null ? messages : messages.slice(0, editingIndex),
+      inputValue,
+      attachments,
+      failed?.input === inputValue ? failed.idempotencyKey : undefined
+    );
+  };
+
+  // Asks the question before this answer again: as a new paid query, or charged
+  // from its refund when the answer failed
+  const regenerate = (index: number) => {
+    const question = messages[index - 1];
+    if (question?.role !== 'user') return;
+    const failed = messages[index].refund ? messages[index].idempotencyKey : undefined;
+    sendQuery(messages.slice(0, index - 1), question.content, question.attachments ?? [], failed);
+  };
+
+  const startEditing = (index: number) => {
+    setEditingIndex(index);
+    setInputValue(messages[index].content);
+    setAttachments(messages[index].attachments ?? []);
+  };
+
+  const cancelEditing = () => {
+    setEditingIndex(null);
+    setInputValue('');
+    setAttachments([]);
+  };
+
+  const copyMessage = async (message: ChatMessage) => {
+    await navigator.clipboard.writeText(message.content);
+    setCopiedId(message.id);
+    setTimeout(() => setCopiedId(current => (current === message.id ? null : current)), 1500);
+  };
+
+  // Earlier questions' attachments are sent again, so they count toward the limits too
+  const priorMessages = editingIndex === null ? messages : messages.slice(0, editingIndex);
+  const sentAttachments = priorMessages.flatMap(message => message.attachments ?? []);
+  const selectedModelOption = models.find(model => model.id === selectedModel);
+  const attachmentProblem = selectedModelOption && unsupportedAttachment([...sentAttachments, ...attachments], selectedModelOption);
+
+  // Checks and reads picked, dropped or pasted files, stripping their metadata first unless kept
+  const addFiles = async (files: File[]) => {
+    if (!attachmentRules || files.length === 0) return;
+    const { types, maxBytes, maxCount } = attachmentRules;
+    const added: FileUIPart[] = [];
+
+    for (const file of files) {
+      const mediaType = attachmentType(file);
+      if (!types.includes(mediaType)) {
+        addToast('warning', 'Not Attached', `${file.name}: only PNG, JPEG and WebP images, PDFs and text files can be attached.`);
+        continue;
+      }
+      if (maxCount > 0 && sentAttachments.length + attachments.length + added.length >= maxCount) {
+        addToast('warning', 'Not Attached', `A conversation can carry at most ${maxCount} attachments.`);
+        break;
+      }
+      // Re-encoding usually shrinks images, so only they are read before checking their size
+      const tooLarge = (bytes: number) => maxBytes > 0 && bytes > maxBytes;
+      if (tooLarge(file.size) && (keepMetadata || !mediaType.startsWith('image/'))) {
+        addToast('warning', 'Not Attached', `${file.name} is larger than ${formatBytes(maxBytes)}.`);
+        continue;
+      }
+      try {
+        const part = await readAttachment(file, keepMetadata);
+        if (tooLarge(attachmentSize(part))) {
+          addToast('warning', 'Not Attached', `${file.name} is larger than ${formatBytes(maxBytes)}, even scaled down.`);
+          continue;
+        }
+        added.push(part);
+      } catch (error) {
+        addToast('error', 'Not Attached', `${file.name}: ${(error as Error).message}`);
+      }
+    }
+    setAttachments(current => [...current, ...added]);
+  };
+
+  const canAttach = !!account && isSignedIn && !isLoading && !!attachmentRules;
+
+  // Dropping files anywhere on the page attaches them
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canAttach || !e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!canAttach) return;
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
+  };
+
   return (
-    <div className="min-h-screen bg-[#000000] text-white font-sans selection:bg-[#AD00FF] selection:text-white">
+    <div
+      className="min-h-screen bg-[#000000] text-white font-sans selection:bg-[#AD00FF] selection:text-white"
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => !e.relatedTarget && setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="fixed inset-4 z-40 pointer-events-none rounded-2xl border-2 border-dashed border-[#AD00FF] bg-[#AD00FF]/10 flex items-center justify-center text-lg text-[#E218FF]">
+          Drop files to attach them to your question
+        </div>
+      )}
+      {thirdwebClient && (
+        <AutoConnect
+          client={thirdwebClient}
+          wallets={WALLETS}
+          onConnect={wallet => adoptThirdwebWallet(thirdwebClient!, wallet, { prompt: false })}
+        />
+      )}
       {/* Header */}
       <header className="border-b border-[#222222] px-6 py-4 sticky top-0 bg-[#000000]/80 backdrop-blur-md z-10 transition-all duration-300">
         <div className="max-w-4xl mx-auto flex items-center justify-between">
@@ -307,15 +960,31 @@ export default function Home() {
 
           {/* Model Selector and Wallet Connection */}
           <div className="flex items-center gap-4">
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              title="Chat history"
+              className="p-2 bg-[#111111] border border-[#222222] rounded-lg hover:border-[#555] transition-colors"
+            >
+              <History className="w-4 h-4" />
+            </button>
+            {isSignedIn && (
+              <Link
+                href="/billing"
+                title="Billing"
+                className="p-2 bg-[#111111] border border-[#222222] rounded-lg hover:border-[#555] transition-colors"
+              >
+                <Receipt className="w-4 h-4" />
+              </Link>
+            )}
             <div className="relative group">
               <select
                 value={selectedModel}
                 onChange={(e) => setSelectedModel(e.target.value)}
                 className="appearance-none bg-[#111111] border border-[#222222] rounded-lg px-4 py-2 pr-8 text-sm focus:outline-none focus:border-[#AD00FF] transition-colors cursor-pointer hover:border-[#555]"
               >
-                {AVAILABLE_MODELS.map((model) => (
-                  <option key={model.id} value={model.id} disabled={model.disabled}>
-                    {model.name} {model.disabled ? '(Coming Soon)' : ''}
+                {models.map((model) => (
+                  <option key={model.id} value={model.id} disabled={!model.available} title={model.description}>
+                    {model.name} {model.available ? '' : '(Unavailable)'}
                   </option>
                 ))}
               </select>
@@ -323,12 +992,36 @@ export default function Home() {
             </div>
 
             {/* Wallet Connection */}
-            {account ? (
-              <div className="flex items-center gap-2 bg-[#111111] px-3 py-2 rounded-lg border border-[#222222]">
-                <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
-                <span className="text-sm text-gray-300 font-medium">
-                  {account.slice(0, 6)}...{account.slice(-4)}
-                </span>
+            {account && !isSignedIn ? (
+              <button
+                onClick={handleSignIn}
+                disabled={isConnecting}
+                className="flex items-center gap-2 bg-[#AD00FF] hover:bg-[#9600FF] px-4 py-2 rounded-lg font-medium transition-all hover:scale-105 active:scale-95 disabled:opacity-50 disabled:hover:scale-100 shadow-[0_0_15px_rgba(173,0,255,0.3)] hover:shadow-[0_0_20px_rgba(173,0,255,0.5)] text-black"
+              >
+                <WalletIcon className="w-4 h-4" />
+                {isConnecting ? 'Signing In...' : 'Sign In'}
+              </button>
+            ) : account ? (
+              <div className="flex items-center gap-2">
+                {/* Prepaid credit */}
+                <div className="flex items-center gap-2 bg-[#111111] pl-3 pr-1 py-1 rounded-lg border border-[#222222]">
+                  <span className="text-sm text-[#00F3FF] font-medium">
+                    {creditBalance !== null ? `${Web3.utils.fromWei(creditBalance, 'ether')} MON` : '—'}
+                  </span>
+                  <button
+                    onClick={handleDeposit}
+                    disabled={isDepositing}
+                    className="text-xs bg-[#222222] hover:bg-[#333333] px-2 py-1 rounded-md transition-colors disabled:opacity-50"
+                  >
+                    {isDepositing ? 'Depositing...' : 'Top up'}
+                  </button>
+                </div>
+                <div className="flex items-center gap-2 bg-[#111111] px-3 py-2 rounded-lg border border-[#222222]">
+                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
+                  <span className="text-sm text-gray-300 font-medium">
+                    {account.slice(0, 6)}...{account.slice(-4)}
+                  </span>
+                </div>
               </div>
             ) : (
               <button
@@ -340,6 +1033,15 @@ export default function Home() {
                 {isConnecting ? 'Connecting...' : 'Connect Wallet'}
               </button>
             )}
+            {account && (
+              <button
+                onClick={disconnectWallet}
+                title="Disconnect wallet"
+                className="p-2 bg-[#111111] border border-[#222222] rounded-lg hover:border-[#555] transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+              </button>
+            )}
           </div>
         </div>
       </header>
@@ -357,13 +1059,13 @@ export default function Home() {
             {paymentStatus === 'error' && <span>✗</span>}
 
             <div className="flex-1">
-              {paymentStatus === 'pending' && 'Processing payment (0.001 MON)...'}
+              {paymentStatus === 'pending' && `Processing payment${paymentPrice ? ` (${paymentPrice})` : ''}...`}
               {paymentStatus === 'success' && (
                 <span>
                   Payment successful!
-                  {lastTxHash && (
+                  {lastTxUrl && (
                     <a
-                      href={`https://testnet.monadexplorer.com/tx/${lastTxHash}`}
+                      href={lastTxUrl}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="underline ml-2 hover:text-white transition-colors"
@@ -389,7 +1091,7 @@ export default function Home() {
               Ask Private AI Anything
             </h1>
             <p className="text-gray-400 mb-2 text-lg">
-              Powered by <span className="text-[#AD00FF] font-semibold">Monad Testnet</span> • Pay <span className="text-[#00F3FF] font-semibold">0.001 MON</span> per query
+              Powered by <span className="text-[#AD00FF] font-semibold">Monad Testnet</span> • Pay <span className="text-[#00F3FF] font-semibold">per query</span>, priced by model and length
             </p>
             <p className="text-sm text-gray-500">
               Connect your wallet to start • Secured by x402 micropayments
@@ -399,13 +1101,13 @@ export default function Home() {
 
         {/* Messages */}
         <div className="space-y-6">
-          {messages.map((message) => (
+          {messages.map((message, index) => (
             <div
               key={message.id}
-              className={`p-6 rounded-xl transition-all duration-300 ${message.role === 'user'
+              className={`group/message p-6 rounded-xl transition-all duration-300 ${message.role === 'user'
                 ? 'bg-[#111111] border border-[#222222]'
                 : 'bg-transparent'
-                }`}
+                } ${editingIndex !== null && index >= editingIndex ? 'opacity-40' : ''}`}
             >
               <div className="flex items-center gap-3 mb-3">
                 <div className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-bold ${message.role === 'user' ? 'bg-[#AD00FF] text-black' : 'bg-[#222222] text-white'
@@ -414,19 +1116,110 @@ export default function Home() {
                 </div>
                 <span className={`text-sm font-medium ${message.role === 'user' ? 'text-[#AD00FF]' : 'text-gray-400'
                   }`}>
-                  {message.role === 'user' ? 'You' : 'Gemini'}
+                  {message.role === 'user' ? 'You' : modelName(message.model)}
                 </span>
               </div>
-              <div className="prose prose-invert max-w-none prose-p:leading-relaxed prose-pre:bg-[#111] prose-pre:border prose-pre:border-[#333] whitespace-pre-wrap">
-                {message.content}
+              <div className="prose prose-invert max-w-none prose-p:leading-relaxed">
+                {message.reasoning && (
+                  <details className="mb-3 text-sm text-gray-500 not-prose">
+                    <summary className="cursor-pointer select-none hover:text-gray-300">Reasoning</summary>
+                    <div className="mt-2 pl-3 border-l border-[#333] whitespace-pre-wrap">{message.reasoning}</div>
+                  </details>
+                )}
+                {/* Questions are shown as typed; answers are Markdown */}
+                {message.role === 'user' ? (
+                  <>
+                    <div className="whitespace-pre-wrap">
+                      {message.redacted ? <MaskedText text={message.content} /> : message.content}
+                    </div>
+                    {message.attachments && (
+                      <div className="mt-3">
+                        <AttachmentList attachments={message.attachments} />
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <Markdown text={message.content} sources={message.sources} />
+                    {message.sources && <SourceList sources={message.sources} />}
+                  </>
+                )}
               </div>
+              {message.error && (
+                <div className="mt-3 text-sm text-red-400">⚠ {message.error}</div>
+              )}
+              {(message.receipt || message.usage || message.refund || message.stopped) && (
+                <div className="mt-3 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500">
+                  {message.receipt && (
+                    <span>
+                      Paid {message.receipt.chargedFormatted} {message.receipt.method === 'credit' ? 'from credit' : 'via x402'}
+                      {message.receipt.explorerUrl && (
+                        <a
+                          href={message.receipt.explorerUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="underline ml-1 hover:text-white transition-colors"
+                        >
+                          tx
+                        </a>
+                      )}
+                    </span>
+                  )}
+                  {message.stopped && (
+                    <span className="text-yellow-500">Stopped • unused payment returned as credit</span>
+                  )}
+                  {message.refund && (
+                    <span className="text-yellow-500">
+                      {message.refund.amountFormatted} {message.refund.to === 'credit' ? 'returned as credit' : 'queued for an on-chain refund'}
+                    </span>
+                  )}
+                  {message.usage && (
+                    <span>
+                      {message.usage.inputTokens} in / {message.usage.outputTokens} out tokens
+                      {!!message.usage.searches && ` • ${message.usage.searches} web search${message.usage.searches === 1 ? '' : 'es'}`} • cost {message.usage.costFormatted}
+                      {BigInt(message.usage.creditedWei) > BigInt(0) && ` • ${message.usage.creditedFormatted} back as credit`}
+                    </span>
+                  )}
+                  {message.signedReceipt && (
+                    <Link href="/billing" title={`Receipt ${message.signedReceipt.id}`} className="underline hover:text-white transition-colors">
+                      Signed receipt
+                    </Link>
+                  )}
+                </div>
+              )}
+              {(message.content || message.refund) && (
+                <div className="mt-3 flex items-center gap-1 text-gray-500 opacity-0 group-hover/message:opacity-100 focus-within:opacity-100 transition-opacity">
+                  <button onClick={() => copyMessage(message)} title="Copy" className="p-1.5 rounded-md hover:bg-[#222222] hover:text-white">
+                    {copiedId === message.id ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+                  </button>
+                  {message.role === 'assistant' ? (
+                    <button
+                      onClick={() => regenerate(index)}
+                      disabled={isLoading || !isSignedIn || messages[index - 1]?.role !== 'user'}
+                      title={message.refund ? 'Retry (charged from its refund)' : 'Regenerate (a new paid query)'}
+                      className="p-1.5 rounded-md hover:bg-[#222222] hover:text-white disabled:opacity-40 disabled:hover:bg-transparent"
+                    >
+                      <RefreshCw className="w-3.5 h-3.5" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => startEditing(index)}
+                      disabled={isLoading || !isSignedIn}
+                      title="Edit and resend"
+                      className="p-1.5 rounded-md hover:bg-[#222222] hover:text-white disabled:opacity-40 disabled:hover:bg-transparent"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           ))}
           {isLoading && (
             <div className="p-6 rounded-xl bg-transparent animate-pulse">
               <div className="flex items-center gap-3 mb-3">
                 <div className="w-6 h-6 rounded-full bg-[#222222] text-white flex items-center justify-center text-xs font-bold">AI</div>
-                <span className="text-sm font-medium text-gray-400">Gemini</span>
+                <span className="text-sm font-medium text-gray-400">{modelName(selectedModel)}</span>
               </div>
               <div className="space-y-2">
                 <div className="h-4 bg-[#333] rounded w-3/4"></div>
@@ -439,29 +1232,144 @@ export default function Home() {
 
       {/* Input Area */}
       <div className="fixed bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-[#000000] via-[#000000] to-transparent z-20">
+        <div className="max-w-4xl mx-auto flex justify-end gap-2 mb-2">
+          {searchAvailable && (
+            <button
+              type="button"
+              onClick={() => setWebSearch(!webSearch)}
+              title="Let the model search the web and cite its sources. Grounded queries cost more."
+              className={`flex items-center gap-1.5 text-xs px-3 py-1 rounded-full border transition-colors ${webSearch
+                ? 'border-[#00F3FF]/50 text-[#00F3FF] bg-[#00F3FF]/10'
+                : 'border-[#222222] text-gray-500 hover:text-gray-300'
+                }`}
+            >
+              <Globe className="w-3.5 h-3.5" />
+              {webSearch ? 'Web search on' : 'Web search off'}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => setKeepMetadata(!keepMetadata)}
+            title="Re-encode images and blank PDF author and date fields, dropping EXIF location and camera details, before attaching them"
+            className={`flex items-center gap-1.5 text-xs px-3 py-1 rounded-full border transition-colors ${!keepMetadata
+              ? 'border-[#AD00FF]/50 text-[#E218FF] bg-[#AD00FF]/10'
+              : 'border-[#222222] text-gray-500 hover:text-gray-300'
+              }`}
+          >
+            <Eraser className="w-3.5 h-3.5" />
+            {keepMetadata ? 'File metadata kept' : 'File metadata stripped'}
+          </button>
+          <button
+            type="button"
+            onClick={() => setIncognito(!incognito)}
+            title="Mask emails, phone numbers, addresses, names, card numbers and wallet keys before they reach the model"
+            className={`flex items-center gap-1.5 text-xs px-3 py-1 rounded-full border transition-colors ${incognito
+              ? 'border-[#AD00FF]/50 text-[#E218FF] bg-[#AD00FF]/10'
+              : 'border-[#222222] text-gray-500 hover:text-gray-300'
+              }`}
+          >
+            {incognito ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+            {incognito ? 'Incognito redaction on' : 'Incognito redaction off'}
+          </button>
+        </div>
+        {editingIndex !== null && (
+          <div className="max-w-4xl mx-auto mb-2 flex items-center justify-between text-xs text-gray-400">
+            <span>Editing a previous question. Sending it replaces that question and everything after it.</span>
+            <button type="button" onClick={cancelEditing} className="hover:text-white underline">Cancel</button>
+          </div>
+        )}
+        {(attachments.length > 0 || attachmentProblem) && (
+          <div className="max-w-4xl mx-auto mb-3 space-y-2">
+            <AttachmentList
+              attachments={attachments}
+              onRemove={(index) => setAttachments(current => current.filter((_, i) => i !== index))}
+            />
+            {attachmentProblem && <p className="text-xs text-red-400">{attachmentProblem}. Pick another model or remove the file.</p>}
+          </div>
+        )}
         <form onSubmit={handleFormSubmit} className="max-w-4xl mx-auto relative group">
-          <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400 group-focus-within:text-[#AD00FF] transition-colors" />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!canAttach}
+            title="Attach images or documents (or drop or paste them)"
+            className="absolute left-3 top-1/2 -translate-y-1/2 p-1 rounded-md text-gray-400 hover:text-[#AD00FF] group-focus-within:text-[#AD00FF] transition-colors disabled:opacity-50 disabled:hover:text-gray-400"
+          >
+            <Paperclip className="w-5 h-5" />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            // Extensions too, for systems that don't know the text types
+            accept={attachmentRules ? [...attachmentRules.types, '.md', '.csv', '.txt'].join(',') : undefined}
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
           <input
             type="text"
             value={inputValue}
             onChange={(e) => setInputValue(e.target.value)}
-            placeholder={account ? "Ask anything..." : "Connect wallet to start..."}
-            disabled={!account || isLoading}
+            onPaste={handlePaste}
+            placeholder={!account ? "Connect wallet to start..." : !isSignedIn ? "Sign in to start..." : "Ask anything..."}
+            disabled={!account || !isSignedIn || isLoading}
             className="w-full bg-[#111111] border border-[#222222] rounded-xl pl-12 pr-32 py-4 text-lg focus:outline-none focus:border-[#AD00FF] focus:ring-1 focus:ring-[#AD00FF] transition-all shadow-lg disabled:opacity-50 disabled:cursor-not-allowed placeholder:text-gray-600"
           />
-          <button
-            type="submit"
-            disabled={!account || isLoading || !inputValue?.trim()}
-            className="absolute right-2 top-1/2 -translate-y-1/2 bg-[#AD00FF] hover:bg-[#9600FF] px-6 py-2 rounded-lg font-medium transition-all hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 text-black shadow-md"
-          >
-            {isLoading ? 'Thinking...' : 'Search'}
-          </button>
+          {isStreaming ? (
+            <button
+              type="button"
+              onClick={() => abortRef.current?.abort()}
+              title="Stop generating"
+              className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-2 bg-[#222222] border border-[#555] hover:border-[#AD00FF] px-6 py-2 rounded-lg font-medium transition-all active:scale-95 text-white shadow-md"
+            >
+              <Square className="w-3.5 h-3.5 fill-current" />
+              Stop
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!account || !isSignedIn || isLoading || !inputValue?.trim() || !!attachmentProblem}
+              className="absolute right-2 top-1/2 -translate-y-1/2 bg-[#AD00FF] hover:bg-[#9600FF] px-6 py-2 rounded-lg font-medium transition-all hover:scale-105 active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 text-black shadow-md"
+            >
+              {isLoading ? 'Thinking...' : 'Search'}
+            </button>
+          )}
         </form>
         <p className="text-center text-xs text-gray-500 mt-3">
-          Each query costs <span className="text-[#00F3FF]">0.001 MON</span> on <span className="text-[#AD00FF] font-semibold">Monad Testnet</span> • x402 Micropayments
+          {quote && inputValue.trim()
+            ? <>This query costs up to <span className="text-[#00F3FF]">{quote.amountFormatted}</span>{grounded && ' with web search'}</>
+            : <>Queries are priced by model and length</>} on <span className="text-[#AD00FF] font-semibold">Monad Testnet</span> • Unused tokens are credited back • x402 Micropayments
         </p>
       </div>
 
+      {/* Chat History */}
+      {paymentChoice && (
+        <PaymentOptionPicker
+          accepts={paymentChoice.accepts}
+          onPick={closePaymentChoice}
+          onCancel={() => closePaymentChoice(null)}
+        />
+      )}
+
+      {showHistory && (
+        <HistorySidebar
+          conversations={conversations}
+          activeId={conversationId}
+          unlocked={historyKey !== null}
+          onUnlock={unlockHistory}
+          onSelect={selectConversation}
+          onNew={startNewChat}
+          onRename={renameConversation}
+          onDelete={removeConversation}
+          onExport={downloadHistory}
+          onImport={uploadHistory}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Toast Notifications */}
       <div className="fixed top-4 right-4 z-50 flex flex-col gap-3 max-w-md">
         {toasts.map((toast) => (
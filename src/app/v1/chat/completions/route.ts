@@ -0,0 +1,55 @@
+import { NextRequest } from 'next/server';
+import { POST as answerChat } from '@/app/api/chat/route';
+import { getModel } from '@/lib/models';
+import { type CompletionRequest, completionResponse, completionStream, openAIError, toChatRequest, toOpenAIError } from '@/lib/openai';
+import { MAX_REQUEST_BYTES, REQUESTS_PER_IP, clientIp, consume, markCountedPerIp, readBody } from '@/lib/rate-limit';
+
+// OpenAI-compatible chat completions, paid per call like /api/chat: with an
+// X-PAYMENT header or from the credit of the session sent as the bearer token.
+export async function POST(request: NextRequest) {
+    // Limited per IP before the body is read and translated, like /api/chat
+    const ipWait = await consume(REQUESTS_PER_IP, clientIp(request));
+    if (ipWait !== null) {
+        return openAIError('Too many requests, slow down', 429, { retryAfterSeconds: ipWait }, new Headers({ 'Retry-After': String(ipWait) }));
+    }
+
+    const rawBody = await readBody(request);
+    if (rawBody === null) {
+        return openAIError(`Requests are limited to ${MAX_REQUEST_BYTES} bytes`, 413);
+    }
+
+    let body: CompletionRequest;
+    try {
+        body = JSON.parse(rawBody) ?? {};
+    } catch {
+        return openAIError('Request body must be JSON', 400);
+    }
+    const translated = toChatRequest(body);
+    if ('error' in translated) {
+        return openAIError(translated.error, 400);
+    }
+
+    // Same URL, so the 402 challenge names this resource; same signal, so hanging up stops the answer
+    const headers = new Headers(request.headers);
+    headers.delete('content-length');
+    headers.set('content-type', 'application/json');
+    const chatRequest = new NextRequest(request.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(translated.chatBody),
+        signal: request.signal,
+    });
+    markCountedPerIp(chatRequest);
+    const response = await answerChat(chatRequest);
+    if (!response.ok || !response.body) {
+        return toOpenAIError(response);
+    }
+
+    const meta = {
+        id: `chatcmpl-${response.headers.get('X-Request-Id') ?? crypto.randomUUID()}`,
+        model: translated.model,
+        created: Math.floor(Date.now() / 1000),
+        maxOutputTokens: getModel(translated.model)?.pricing.maxOutputTokens,
+    };
+    return translated.stream ? completionStream(response, meta, translated.includeUsage) : completionResponse(response, meta);
+}
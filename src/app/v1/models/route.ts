@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { isAvailable, listModels } from '@/lib/models';
+
+// OpenAI-compatible model list: the models this server can answer with now.
+// Prices and capabilities are in /api/models.
+export async function GET() {
+    return NextResponse.json({
+        object: 'list',
+        data: listModels().filter(isAvailable).map(model => ({
+            id: model.id,
+            object: 'model',
+            created: 0,
+            owned_by: model.provider,
+        })),
+    });
+}
@@ -0,0 +1,135 @@
+import { parseArgs } from 'util';
+import { utils } from 'web3';
+import { messageContent, messageData, messageSources, readChatStream, type ChatUIMessage } from '../lib/chat-stream';
+import { SpendingCapError, createX402Client, signIn } from '../lib/x402/client';
+import { privateKeySigner } from '../lib/x402/signers';
+
+// --- incognito CLI ---
+// Asks the server a question from a terminal or a script, paying from a local
+// key: the answer streams to stdout, what it cost goes to stderr. The key is
+// read from INCOGNITO_PRIVATE_KEY only, so it never lands in shell history.
+
+const USAGE = `Usage:
+  incognito ask "<question>" [options]   Ask a question; reads stdin when no question is given
+  incognito models [--url <url>]          List the models the server offers
+
+Options:
+  --model <id>        Model to ask (the server's default otherwise)
+  --search            Ground the answer in a web search
+  --redact            Mask personal details before they reach the model provider
+  --max-spend <MON>   Most this run may pay in MON, gas included (default 0.01)
+  --url <url>         Server to ask (default $INCOGNITO_URL or http://localhost:3000)
+  --rpc <url>         RPC endpoint for the payment's nonce and gas price
+                      (default $INCOGNITO_RPC_URL or the Monad testnet endpoint)
+
+Environment:
+  INCOGNITO_PRIVATE_KEY   Key of the paying wallet
+  INCOGNITO_URL           Default for --url
+  INCOGNITO_RPC_URL       Default for --rpc`;
+
+const { values: options, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+        model: { type: 'string' },
+        search: { type: 'boolean', default: false },
+        redact: { type: 'boolean', default: false },
+        'max-spend': { type: 'string', default: '0.01' },
+        url: { type: 'string', default: process.env.INCOGNITO_URL || 'http://localhost:3000' },
+        rpc: { type: 'string', default: process.env.INCOGNITO_RPC_URL },
+        help: { type: 'boolean', short: 'h', default: false },
+    },
+});
+
+async function readStdin(): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+async function models(baseUrl: string) {
+    const response = await fetch(`${baseUrl}/api/models`);
+    const { models } = await response.json() as { models: Array<{ id: string; name: string; available: boolean }> };
+    for (const model of models.filter(candidate => candidate.available)) {
+        console.log(`${model.id.padEnd(28)} ${model.name}`);
+    }
+}
+
+async function ask(baseUrl: string, question: string) {
+    const privateKey = process.env.INCOGNITO_PRIVATE_KEY;
+    if (!privateKey) throw new Error('Set INCOGNITO_PRIVATE_KEY to the key of the wallet that pays');
+
+    const signer = privateKeySigner(privateKey, { rpcUrl: options.rpc });
+    const token = await signIn(baseUrl, signer);
+    const client = createX402Client({
+        signer,
+        // Only native MON is paid, up to --max-spend with the gas
+        spendingCap: { native: BigInt(utils.toWei(options['max-spend']!, 'ether')) },
+        onPayment: option => console.error(`Paying ${option.extra?.priceFormatted ?? `${option.maxAmountRequired} wei`}...`),
+        onPending: (reason, seconds) => console.error(`${reason} Retrying in ${seconds}s...`),
+    });
+
+    const response = await client.fetch(`${baseUrl}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}`, 'Idempotency-Key': crypto.randomUUID() },
+        body: JSON.stringify({
+            messages: [{ role: 'user', content: question }],
+            model: options.model,
+            search: options.search,
+            redact: options.redact,
+        }),
+    });
+    if (!response.ok || !response.body) {
+        const { error, requestId } = await response.json().catch(() => ({ error: `Request failed: ${response.status}` }));
+        throw new Error(requestId ? `${error} (reference ${requestId})` : error);
+    }
+
+    // Each state holds the whole answer so far; only what is new gets printed
+    let printed = 0;
+    let answer: ChatUIMessage | undefined;
+    let streamError: Error | undefined;
+    for await (const message of readChatStream(response.body, error => { streamError = error; })) {
+        const text = messageContent(message);
+        process.stdout.write(text.slice(printed));
+        printed = text.length;
+        answer = message;
+    }
+    process.stdout.write('\n');
+    if (!answer) throw streamError ?? new Error('The server sent no answer');
+
+    const sources = messageSources(answer);
+    if (sources.length > 0) {
+        console.log(`\n${sources.map(source => `[${source.id}] ${source.url}`).join('\n')}`);
+    }
+
+    const receipt = messageData(answer, 'receipt');
+    const usage = messageData(answer, 'usage');
+    const refund = messageData(answer, 'refund');
+    if (receipt) console.error(`Paid ${receipt.chargedFormatted} ${receipt.method === 'credit' ? 'from credit' : `in ${receipt.transaction}`}`);
+    if (usage) {
+        console.error(`Billed ${usage.costFormatted} for ${usage.inputTokens} + ${usage.outputTokens} tokens${usage.searches ? ` and ${usage.searches} search${usage.searches === 1 ? '' : 'es'}` : ''}; ${usage.creditedFormatted} credited back`);
+    }
+    if (refund) {
+        throw new Error(`${refund.reason}. ${refund.amountFormatted} ${refund.to === 'credit' ? 'was added to your credit' : 'will be refunded on-chain'}.`);
+    }
+}
+
+async function main() {
+    const [command, ...rest] = positionals;
+    const baseUrl = options.url!.replace(/\/+$/, '');
+    if (options.help || !command) {
+        console.log(USAGE);
+        return;
+    }
+    if (command === 'models') return models(baseUrl);
+    if (command === 'ask') {
+        const question = rest.join(' ') || (process.stdin.isTTY ? '' : (await readStdin()).trim());
+        if (!question) throw new Error('Nothing to ask');
+        return ask(baseUrl, question);
+    }
+    throw new Error(`Unknown command: ${command}\n\n${USAGE}`);
+}
+
+main().catch(error => {
+    console.error(error instanceof SpendingCapError ? `${error.message} (--max-spend ${options['max-spend']} MON)` : `Error: ${(error as Error).message}`);
+    process.exit(1);
+});
@@ -0,0 +1,60 @@
+'use client';
+
+import Image from 'next/image';
+import type { FileUIPart } from 'ai';
+import { FileText, X } from 'lucide-react';
+import { attachmentSize } from '@/lib/attachments';
+
+interface AttachmentListProps {
+  attachments: FileUIPart[];
+  // While composing, so a file can be taken off again before sending
+  onRemove?: (index: number) => void;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1_000) return `${bytes} B`;
+  if (bytes < 1_000_000) return `${(bytes / 1_000).toFixed(0)} kB`;
+  return `${(bytes / 1_000_000).toFixed(1)} MB`;
+}
+
+// Thumbnails for images, name and size for documents
+export default function AttachmentList({ attachments, onRemove }: AttachmentListProps) {
+  return (
+    <div className="flex flex-wrap gap-2 not-prose">
+      {attachments.map((attachment, index) => (
+        <div
+          key={`${index}:${attachment.filename}`}
+          title={attachment.filename}
+          className="relative flex items-center gap-2 bg-[#111111] border border-[#222222] rounded-lg p-1.5 pr-3 max-w-[16rem]"
+        >
+          {attachment.mediaType.startsWith('image/') ? (
+            <Image
+              src={attachment.url}
+              alt={attachment.filename ?? 'Attached image'}
+              width={40}
+              height={40}
+              unoptimized
+              className="w-10 h-10 rounded object-cover shrink-0"
+            />
+          ) : (
+            <FileText className="w-10 h-10 p-2 text-gray-400 shrink-0" />
+          )}
+          <div className="min-w-0 text-xs">
+            <div className="truncate text-gray-200">{attachment.filename ?? attachment.mediaType}</div>
+            <div className="text-gray-500">{formatBytes(attachmentSize(attachment))}</div>
+          </div>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(index)}
+              title="Remove"
+              className="absolute -top-2 -right-2 p-0.5 rounded-full bg-[#222222] border border-[#333] text-gray-400 hover:text-white"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
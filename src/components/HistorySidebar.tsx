@@ -0,0 +1,175 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Download, Lock, Pencil, Plus, Search, Trash2, Upload, X } from 'lucide-react';
+import { searchConversations, type Conversation } from '@/lib/history';
+
+interface HistorySidebarProps {
+  conversations: Conversation[];
+  activeId: string | null;
+  unlocked: boolean;
+  onUnlock: () => void;
+  onSelect: (conversation: Conversation) => void;
+  onNew: () => void;
+  onRename: (conversation: Conversation, title: string) => void;
+  onDelete: (conversation: Conversation) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+export default function HistorySidebar({
+  conversations,
+  activeId,
+  unlocked,
+  onUnlock,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  onExport,
+  onImport,
+  onClose,
+}: HistorySidebarProps) {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const visible = searchConversations(conversations, query);
+
+  const commitRename = (conversation: Conversation) => {
+    const title = editTitle.trim();
+    if (title && title !== conversation.title) onRename(conversation, title);
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="fixed left-0 top-0 bottom-0 w-72 bg-[#0a0a0a] border-r border-[#222222] z-30 flex flex-col animate-in slide-in-from-left duration-300">
+      <div className="flex items-center justify-between px-4 py-4 border-b border-[#222222]">
+        <span className="font-semibold text-sm">Chat History</span>
+        <button onClick={onClose} className="opacity-60 hover:opacity-100 transition-opacity p-1">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {!unlocked ? (
+        <div className="flex-1 flex flex-col items-center justify-center gap-4 px-6 text-center">
+          <Lock className="w-8 h-8 text-[#AD00FF]" />
+          <p className="text-sm text-gray-400">
+            Your chats are encrypted in this browser with a key only your wallet can derive.
+          </p>
+          <button
+            onClick={onUnlock}
+            className="bg-[#AD00FF] hover:bg-[#9600FF] px-4 py-2 rounded-lg font-medium text-black text-sm transition-all"
+          >
+            Unlock History
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="p-3 space-y-2 border-b border-[#222222]">
+            <button
+              onClick={onNew}
+              className="w-full flex items-center gap-2 justify-center bg-[#111111] border border-[#222222] hover:border-[#AD00FF] rounded-lg px-3 py-2 text-sm transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              New chat
+            </button>
+            <div className="relative">
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search chats..."
+                className="w-full bg-[#111111] border border-[#222222] rounded-lg pl-8 pr-3 py-2 text-sm focus:outline-none focus:border-[#AD00FF] placeholder:text-gray-600"
+              />
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-2 space-y-1">
+            {visible.length === 0 && (
+              <p className="text-xs text-gray-500 text-center py-6">
+                {query ? 'No matching chats' : 'No saved chats yet'}
+              </p>
+            )}
+            {visible.map((conversation) => (
+              <div
+                key={conversation.id}
+                className={`group/item flex items-center gap-1 rounded-lg px-2 py-2 text-sm cursor-pointer transition-colors ${conversation.id === activeId ? 'bg-[#AD00FF]/15 text-white' : 'text-gray-300 hover:bg-[#111111]'
+                  }`}
+                onClick={() => editingId !== conversation.id && onSelect(conversation)}
+              >
+                {editingId === conversation.id ? (
+                  <input
+                    autoFocus
+                    value={editTitle}
+                    onChange={(e) => setEditTitle(e.target.value)}
+                    onBlur={() => commitRename(conversation)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename(conversation);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="flex-1 min-w-0 bg-[#111111] border border-[#AD00FF] rounded px-1 py-0.5 text-sm focus:outline-none"
+                  />
+                ) : (
+                  <span className="flex-1 min-w-0 truncate">{conversation.title}</span>
+                )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setEditingId(conversation.id);
+                    setEditTitle(conversation.title);
+                  }}
+                  title="Rename"
+                  className="opacity-0 group-hover/item:opacity-60 hover:!opacity-100 p-1 transition-opacity"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(conversation);
+                  }}
+                  title="Delete"
+                  className="opacity-0 group-hover/item:opacity-60 hover:!opacity-100 p-1 transition-opacity text-red-400"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="p-3 border-t border-[#222222] flex gap-2">
+            <button
+              onClick={onExport}
+              className="flex-1 flex items-center justify-center gap-1.5 text-xs bg-[#111111] border border-[#222222] hover:border-[#555] rounded-lg py-2 transition-colors"
+            >
+              <Download className="w-3.5 h-3.5" />
+              Export
+            </button>
+            <button
+              onClick={() => fileInput.current?.click()}
+              className="flex-1 flex items-center justify-center gap-1.5 text-xs bg-[#111111] border border-[#222222] hover:border-[#555] rounded-lg py-2 transition-colors"
+            >
+              <Upload className="w-3.5 h-3.5" />
+              Import
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        </>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { memo, useMemo, useRef, useState } from 'react';
+import type { Element, Root, RootContent } from 'hast';
+import ReactMarkdown, { type Components, type Options } from 'react-markdown';
+import rehypeHighlight from 'rehype-highlight';
+import rehypeKatex from 'rehype-katex';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import { Check, Copy } from 'lucide-react';
+import type { Source } from '@/lib/chat-stream';
+import 'highlight.js/styles/github-dark.css';
+import 'katex/dist/katex.min.css';
+
+// Model output is untrusted. Raw HTML in it is never rendered, and the tree is
+// sanitized before math and highlighting add their own markup, so only what
+// those plugins generate gets past the allow-list.
+const schema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+// Turns each [n] citing a known source into a link to it. It runs after the
+// sanitizer, so its links skip the allow-list; the server only hands out
+// http(s) sources. Code and existing links are left alone.
+function rehypeCitations({ sources }: { sources: Source[] }) {
+  const byId = new Map(sources.map(source => [source.id, source]));
+
+  const cite = (source: Source): Element => ({
+    type: 'element',
+    tagName: 'sup',
+    properties: {},
+    children: [{
+      type: 'element',
+      tagName: 'a',
+      properties: { href: source.url, title: source.title ?? source.url, className: ['no-underline', 'text-[#AD00FF]', 'hover:underline'] },
+      children: [{ type: 'text', value: `[${source.id}]` }],
+    }],
+  });
+
+  const visit = (node: Root | Element) => {
+    (node as Root).children = (node.children as RootContent[]).flatMap((child): RootContent[] => {
+      if (child.type === 'element') {
+        if (!['a', 'code', 'pre'].includes(child.tagName)) visit(child);
+        return [child];
+      }
+      if (child.type !== 'text') return [child];
+
+      const parts: RootContent[] = [];
+      let cursor = 0;
+      for (const match of child.value.matchAll(/\[(\d+)\]/g)) {
+        const source = byId.get(match[1]);
+        if (!source) continue;
+        parts.push({ type: 'text', value: child.value.slice(cursor, match.index) }, cite(source));
+        cursor = match.index + match[0].length;
+      }
+      if (cursor === 0) return [child];
+      parts.push({ type: 'text', value: child.value.slice(cursor) });
+      return parts;
+    });
+  };
+
+  return (tree: Root) => visit(tree);
+}
+
+function CodeBlock({ children }: { children?: React.ReactNode }) {
+  const ref = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(ref.current?.innerText ?? '');
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="relative group not-prose my-4">
+      <button
+        onClick={copy}
+        title="Copy code"
+        className="absolute top-2 right-2 p-1.5 rounded-md bg-[#222222] text-gray-400 opacity-0 group-hover:opacity-100 hover:text-white transition-opacity"
+      >
+        {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+      </button>
+      <pre ref={ref} className="overflow-x-auto rounded-lg bg-[#111] border border-[#333] p-4 text-sm">
+        {children}
+      </pre>
+    </div>
+  );
+}
+
+const components: Components = {
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  a: ({ href, title, className, children }) => (
+    <a href={href} title={title} className={className} target="_blank" rel="noopener noreferrer nofollow">
+      {children}
+    </a>
+  ),
+  table: ({ children }) => (
+    <div className="overflow-x-auto">
+      <table>{children}</table>
+    </div>
+  ),
+};
+
+// Renders a reply as it streams in: an unfinished code fence or table simply
+// renders as far as it goes, and completed messages aren't parsed again.
+// Grounded answers pass their sources so citations link to them.
+function Markdown({ text, sources }: { text: string; sources?: Source[] }) {
+  const rehypePlugins = useMemo(() => [
+    [rehypeSanitize, schema],
+    rehypeKatex,
+    [rehypeHighlight, { detect: true }],
+    ...(sources?.length ? [[rehypeCitations, { sources }]] : []),
+  ] as NonNullable<Options['rehypePlugins']>, [sources]);
+
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={rehypePlugins}
+      components={components}
+    >
+      {text}
+    </ReactMarkdown>
+  );
+}
+
+export default memo(Markdown);
@@ -0,0 +1,42 @@
+'use client';
+
+import { Coins, X } from 'lucide-react';
+import type { PaymentRequirements } from '@/lib/x402/types';
+
+interface PaymentOptionPickerProps {
+  accepts: PaymentRequirements[];
+  onPick: (option: PaymentRequirements) => void;
+  onCancel: () => void;
+}
+
+// Lets the user choose which asset and network to pay a 402 with
+export default function PaymentOptionPicker({ accepts, onPick, onCancel }: PaymentOptionPickerProps) {
+  return (
+    <div className="fixed inset-0 bg-black/70 backdrop-blur-sm z-40 flex items-center justify-center p-4">
+      <div className="w-full max-w-sm bg-[#0a0a0a] border border-[#222222] rounded-2xl shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-[#222222]">
+          <span className="font-semibold text-sm">Choose how to pay</span>
+          <button onClick={onCancel} className="opacity-60 hover:opacity-100 transition-opacity p-1">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="p-3 space-y-2">
+          {accepts.map((option) => (
+            <button
+              key={`${option.network}:${option.asset}`}
+              onClick={() => onPick(option)}
+              className="w-full flex items-center gap-3 bg-[#111111] border border-[#222222] hover:border-[#AD00FF] rounded-xl px-4 py-3 text-left transition-colors"
+            >
+              <Coins className="w-5 h-5 text-[#AD00FF] shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium">{String(option.extra?.symbol ?? option.asset)}</div>
+                <div className="text-xs text-gray-500 truncate">{String(option.extra?.chainName ?? option.network)}</div>
+              </div>
+              <span className="text-sm font-mono text-gray-300">{String(option.extra?.priceFormatted ?? option.maxAmountRequired)}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
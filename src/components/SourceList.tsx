@@ -0,0 +1,37 @@
+'use client';
+
+import type { Source } from '@/lib/chat-stream';
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// Numbered cards for the web results a grounded answer cites as [n]
+export default function SourceList({ sources }: { sources: Source[] }) {
+  return (
+    <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-2">
+      {sources.map(source => (
+        <a
+          key={source.id}
+          href={source.url}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          title={source.url}
+          className="flex items-start gap-2 bg-[#111111] border border-[#222222] hover:border-[#AD00FF] rounded-lg p-3 transition-colors"
+        >
+          <span className="shrink-0 w-5 h-5 rounded-full bg-[#222222] text-[10px] font-bold flex items-center justify-center text-[#AD00FF]">
+            {source.id}
+          </span>
+          <span className="min-w-0">
+            <span className="block text-xs text-gray-200 line-clamp-2">{source.title || hostOf(source.url)}</span>
+            <span className="block text-[10px] text-gray-500 truncate">{hostOf(source.url)}</span>
+          </span>
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+'use client';
+
+import { ThirdwebProvider } from 'thirdweb/react';
+
+// thirdweb's connection state, for the connect modal and wallets restored on reload
+export default function WalletProvider({ children }: { children: React.ReactNode }) {
+  return <ThirdwebProvider>{children}</ThirdwebProvider>;
+}
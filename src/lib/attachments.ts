@@ -0,0 +1,233 @@
+import type { FileUIPart } from 'ai';
+import type { ModelCapability } from './models';
+
+// --- Attachments ---
+// Images and documents travel inside the chat request as `file` parts of the UI
+// message format, their bytes inline as a base64 data URL, so a query and its
+// files are priced, paid for and answered together and nothing is kept on the
+// server. Any other URL is refused: the AI SDK would fetch it from the server.
+// Shared by the server, which checks and prices attachments, and the browser,
+// which strips their metadata before they are sent.
+
+// What can be attached, and what a model needs to read it
+export const ATTACHMENT_TYPES: Record<string, ModelCapability> = {
+    'image/png': 'vision',
+    'image/jpeg': 'vision',
+    'image/webp': 'vision',
+    'application/pdf': 'documents',
+    'text/plain': 'documents',
+    'text/markdown': 'documents',
+    'text/csv': 'documents',
+};
+
+// Browsers leave `type` empty for some text formats
+const TYPES_BY_EXTENSION: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    pdf: 'application/pdf',
+    txt: 'text/plain',
+    md: 'text/markdown',
+    csv: 'text/csv',
+};
+
+export interface AttachmentLimits {
+    // Per file, after metadata is stripped
+    maxBytes: number;
+    // Per conversation, since earlier attachments are sent again with every question
+    maxCount: number;
+}
+
+// The `file` parts of a message, whatever else it carries
+export function messageFiles(message: { parts?: unknown }): FileUIPart[] {
+    if (!Array.isArray(message.parts)) return [];
+    return message.parts
+        .filter((part): part is FileUIPart =>
+            part?.type === 'file' && typeof part.mediaType === 'string' && typeof part.url === 'string')
+        .map(({ mediaType, filename, url }) => ({
+            type: 'file',
+            mediaType,
+            filename: typeof filename === 'string' ? filename : undefined,
+            url,
+        }));
+}
+
+const base64Of = (part: FileUIPart) => part.url.slice(part.url.indexOf(',') + 1);
+
+// Decoded size in bytes
+export function attachmentSize(part: FileUIPart): number {
+    const base64 = base64Of(part);
+    const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+    return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+export function attachmentBytes(part: FileUIPart): Uint8Array {
+    const binary = atob(base64Of(part));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+// Why `model` can't take these attachments, or null when it can
+export function unsupportedAttachment(
+    files: FileUIPart[],
+    model: { name: string; capabilities: readonly string[] }
+): string | null {
+    for (const file of files) {
+        const name = file.filename || 'An attachment';
+        if (!file.url.startsWith(`data:${file.mediaType};base64,`)) {
+            return `${name} must be sent inline as a base64 data URL of its media type`;
+        }
+        const base64 = base64Of(file);
+        if (base64.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) {
+            return `${name} is not valid base64`;
+        }
+        const needs = ATTACHMENT_TYPES[file.mediaType];
+        if (!needs) {
+            return `${name} is ${file.mediaType}; only PNG, JPEG and WebP images, PDFs and text files can be attached`;
+        }
+        if (!model.capabilities.includes(needs)) {
+            return `${model.name} can't read ${needs === 'vision' ? 'images' : 'documents'}`;
+        }
+    }
+    return null;
+}
+
+// --- Image dimensions ---
+// Read from the file header, enough to estimate how many tokens an image costs
+
+export function imageDimensions(bytes: Uint8Array, mediaType: string): { width: number; height: number } | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    try {
+        if (mediaType === 'image/png') {
+            return { width: view.getUint32(16), height: view.getUint32(20) };
+        }
+        if (mediaType === 'image/jpeg') {
+            // Walk the segments up to the start-of-frame marker
+            let offset = 2;
+            while (offset + 9 < bytes.length) {
+                if (bytes[offset] !== 0xff) return null;
+                const marker = bytes[offset + 1];
+                if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+                    return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+                }
+                offset += 2 + view.getUint16(offset + 2);
+            }
+            return null;
+        }
+        if (mediaType === 'image/webp') {
+            const chunk = String.fromCharCode(...bytes.subarray(12, 16));
+            if (chunk === 'VP8X') {
+                const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+                const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+                return { width, height };
+            }
+            if (chunk === 'VP8L') {
+                const bits = view.getUint32(21, true);
+                return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+            }
+            if (chunk === 'VP8 ') {
+                return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+            }
+        }
+    } catch {
+        // Truncated header
+    }
+    return null;
+}
+
+// Pages of a PDF, counted from its page objects. Files that pack their objects
+// into compressed streams hide them, so those fall back to a size-based guess.
+export function pdfPageCount(bytes: Uint8Array): number {
+    const text = new TextDecoder('latin1').decode(bytes);
+    const pages = text.match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length ?? 0;
+    return pages || Math.max(1, Math.ceil(bytes.length / 20_000));
+}
+
+// --- Metadata stripping (browser only) ---
+// On by default: images are re-encoded through a canvas, which keeps the pixels
+// and drops EXIF (location, camera, timestamps) along with every other block,
+// and are scaled down to MAX_IMAGE_SIDE, which also bounds their token cost. A PDF keeps its
+// structure; the author, tool and date fields of its info dictionary and its XMP
+// packet are blanked byte for byte so its cross-reference offsets still hold.
+// Text files carry no metadata and are sent as they are.
+
+const MAX_IMAGE_SIDE = 2048;
+
+const PDF_INFO_KEYS = ['Title', 'Author', 'Subject', 'Keywords', 'Creator', 'Producer', 'CreationDate', 'ModDate'];
+
+// Media type of a file the user picked, dropped or pasted
+export function attachmentType(file: File): string {
+    return file.type || TYPES_BY_EXTENSION[file.name.split('.').pop()?.toLowerCase() ?? ''] || 'application/octet-stream';
+}
+
+async function reencodeImage(file: File, mediaType: string): Promise<Blob> {
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return new Promise((resolve, reject) => canvas.toBlob(
+        blob => (blob ? resolve(blob) : reject(new Error(`Could not re-encode ${file.name}`))),
+        mediaType,
+        0.92
+    ));
+}
+
+function blankPdfMetadata(bytes: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+    const text = new TextDecoder('latin1').decode(bytes);
+    const blank = (from: number, to: number) => bytes.fill(0x20, from, to);
+
+    for (const key of PDF_INFO_KEYS) {
+        for (const match of text.matchAll(new RegExp(`/${key}\\s*([(<])`, 'g'))) {
+            const start = match.index! + match[0].length;
+            if (match[1] === '<') {
+                // Hex string: whitespace inside it is ignored, so blanking empties it
+                const end = text.indexOf('>', start);
+                if (end > start) blank(start, end);
+                continue;
+            }
+            // Literal string: balanced parentheses, backslash escapes
+            let depth = 1;
+            let end = start;
+            for (; end < text.length && depth > 0; end++) {
+                if (text[end] === '\\') end++;
+                else if (text[end] === '(') depth++;
+                else if (text[end] === ')') depth--;
+            }
+            if (depth === 0) blank(start, end - 1);
+        }
+    }
+
+    for (const match of text.matchAll(/<\?xpacket begin[\s\S]*?<\?xpacket end[^>]*>/g)) {
+        blank(match.index!, match.index! + match[0].length);
+    }
+    return bytes;
+}
+
+export async function stripMetadata(file: File): Promise<Blob> {
+    const mediaType = attachmentType(file);
+    if (ATTACHMENT_TYPES[mediaType] === 'vision') return reencodeImage(file, mediaType);
+    if (mediaType === 'application/pdf') {
+        return new Blob([blankPdfMetadata(new Uint8Array(await file.arrayBuffer()))], { type: mediaType });
+    }
+    return file;
+}
+
+// The file as a message part, its metadata stripped unless `keepMetadata`
+export async function readAttachment(file: File, keepMetadata: boolean): Promise<FileUIPart> {
+    const blob = keepMetadata ? file : await stripMetadata(file);
+    // Browsers that can't encode WebP hand back a PNG
+    const mediaType = ATTACHMENT_TYPES[blob.type] ? blob.type : attachmentType(file);
+    const url = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result));
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+    // FileReader labels the data with the blob's type, which may be empty
+    return { type: 'file', mediaType, filename: file.name, url: `data:${mediaType};base64,${url.slice(url.indexOf(',') + 1)}` };
+}
@@ -0,0 +1,52 @@
+// --- Monad Testnet Configuration ---
+export const MONAD_TESTNET_RPC = 'https://testnet-rpc.monad.xyz';
+export const MONAD_TESTNET_CHAIN_ID = 10143;
+export const MONAD_TESTNET_NETWORK = `eip155:${MONAD_TESTNET_CHAIN_ID}`;
+export const MONAD_EXPLORER_URL = 'https://testnet.monadexplorer.com';
+
+// --- Network registry ---
+// CAIP-2 network id -> chain details. Payment options on other EVM chains register theirs.
+
+export interface NetworkConfig {
+    network: string;
+    name: string;
+    // Endpoints the server queries, in order of preference. May carry API keys.
+    rpcUrls: string[];
+    // Endpoint handed to wallets when they need to add the chain
+    publicRpcUrl: string;
+    explorerUrl?: string;
+    nativeCurrency: { name: string; symbol: string; decimals: number };
+}
+
+const networks = new Map<string, NetworkConfig>();
+
+export function registerNetwork(config: NetworkConfig) {
+    networks.set(config.network, config);
+}
+
+export function getNetwork(network: string): NetworkConfig | undefined {
+    return networks.get(network);
+}
+
+export function listNetworks(): NetworkConfig[] {
+    return [...networks.values()];
+}
+
+// Comma-separated list, e.g. MONAD_RPC_URLS="https://a.example,https://b.example"
+export function parseRpcUrls(value: string | undefined): string[] {
+    return (value || '').split(',').map(url => url.trim()).filter(Boolean);
+}
+
+registerNetwork({
+    network: MONAD_TESTNET_NETWORK,
+    name: 'Monad Testnet',
+    // The public endpoint stays as the last resort
+    rpcUrls: [...new Set([...parseRpcUrls(process.env.MONAD_RPC_URLS), MONAD_TESTNET_RPC])],
+    publicRpcUrl: MONAD_TESTNET_RPC,
+    explorerUrl: MONAD_EXPLORER_URL,
+    nativeCurrency: { name: 'MON', symbol: 'MON', decimals: 18 },
+});
+
+export function chainIdOf(network: string): number {
+    return Number(network.split(':')[1]);
+}
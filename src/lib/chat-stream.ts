@@ -0,0 +1,124 @@
+import {
+    parseJsonEventStream,
+    readUIMessageStream,
+    uiMessageChunkSchema,
+    type UIMessage,
+    type UIMessageChunk,
+} from 'ai';
+import { messageFiles } from './attachments';
+import { messageText } from './pricing';
+import type { SignedReceipt } from './receipt-signature';
+
+// --- Chat stream protocol ---
+// /api/chat answers with the AI SDK UI message stream (server-sent events), so
+// model text, reasoning, errors and our own billing data arrive as separate
+// parts instead of one run of bytes. Besides text and reasoning, a reply carries:
+//   data-receipt  how the query was paid, sent before the model starts
+//   source-url    grounded queries: a web result the answer can cite as [n], n being its sourceId
+//   data-usage    tokens used, the actual cost and any credit refund, sent last
+//   data-refund   instead of data-usage when the answer failed and the charge was returned
+//   data-signed-receipt  the server-signed receipt of the query, after data-usage or data-refund
+//   error         a provider failure after the stream started
+
+export interface PaymentReceipt {
+    method: 'x402' | 'credit';
+    payer: string;
+    // MON value charged up front, in wei
+    chargedWei: string;
+    chargedFormatted: string;
+    // x402 only: the settled transfer
+    transaction?: string;
+    network?: string;
+    explorerUrl?: string;
+    // Credit only: what is left after this query, in wei
+    balanceWei?: string;
+}
+
+export interface UsageReport {
+    inputTokens: number;
+    outputTokens: number;
+    // Grounded queries: web searches run, billed on top of the tokens
+    searches?: number;
+    costWei: string;
+    costFormatted: string;
+    // Paid above the actual cost and returned as credit
+    creditedWei: string;
+    creditedFormatted: string;
+    // The client stopped the answer; outputTokens is then estimated from what was streamed
+    stopped?: boolean;
+}
+
+export interface RefundReport {
+    // Prepaid credit, or queued to be paid back on-chain
+    to: 'credit' | 'onchain';
+    amountWei: string;
+    amountFormatted: string;
+    reason: string;
+}
+
+// A web result a grounded answer cites as [id]
+export interface Source {
+    id: string;
+    url: string;
+    title?: string;
+}
+
+export type ChatDataParts = {
+    receipt: PaymentReceipt;
+    usage: UsageReport;
+    refund: RefundReport;
+    'signed-receipt': SignedReceipt;
+};
+
+export type ChatUIMessage = UIMessage<unknown, ChatDataParts>;
+
+// Accepts messages with `parts` (the UI message format) or a plain `content`
+// string and keeps only their text, plus the files attached to questions, so
+// both shapes price and convert alike. System messages from API clients follow
+// the server's own system prompt.
+export function toUIMessages(messages: Array<{ id?: unknown; role?: unknown; content?: unknown; parts?: unknown }>): ChatUIMessage[] {
+    return messages
+        .filter(message => message?.role === 'system' || message?.role === 'user' || message?.role === 'assistant')
+        .map((message, index) => ({
+            id: typeof message.id === 'string' ? message.id : String(index),
+            role: message.role as ChatUIMessage['role'],
+            parts: [
+                { type: 'text', text: messageText(message) },
+                ...(message.role === 'user' ? messageFiles(message) : []),
+            ],
+        }));
+}
+
+// Reads a /api/chat response body into successive states of the assistant
+// message. Error parts don't end the stream; they are passed to `onError`.
+export function readChatStream(
+    body: ReadableStream<Uint8Array>,
+    onError: (error: Error) => void
+): AsyncIterable<ChatUIMessage> {
+    const chunks = parseJsonEventStream({ stream: body, schema: uiMessageChunkSchema }).pipeThrough(
+        new TransformStream({
+            transform(result, controller) {
+                if (!result.success) throw result.error;
+                controller.enqueue(result.value as UIMessageChunk<unknown, ChatDataParts>);
+            },
+        })
+    );
+    return readUIMessageStream<ChatUIMessage>({ stream: chunks, onError: error => onError(error as Error) });
+}
+
+export function messageReasoning(message: ChatUIMessage): string {
+    return message.parts.map(part => (part.type === 'reasoning' ? part.text : '')).join('');
+}
+
+export function messageContent(message: ChatUIMessage): string {
+    return message.parts.map(part => (part.type === 'text' ? part.text : '')).join('');
+}
+
+export function messageSources(message: ChatUIMessage): Source[] {
+    return message.parts.flatMap(part => (part.type === 'source-url' ? [{ id: part.sourceId, url: part.url, title: part.title }] : []));
+}
+
+export function messageData<K extends keyof ChatDataParts>(message: ChatUIMessage, name: K): ChatDataParts[K] | undefined {
+    const part = message.parts.find(candidate => candidate.type === `data-${name}`);
+    return part && 'data' in part ? (part.data as ChatDataParts[K]) : undefined;
+}
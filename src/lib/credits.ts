@@ -0,0 +1,42 @@
+import { collection } from './storage';
+
+// --- Prepaid credit balances ---
+// Deposits credit a per-wallet balance that queries are debited from,
+// so paying for a query doesn't need a wallet prompt every time.
+
+export interface CreditAccount {
+    address: string;
+    balanceWei: string;
+    updatedAt: string;
+}
+
+const accounts = collection<CreditAccount>('credits');
+
+export async function getBalance(address: string): Promise<bigint> {
+    const account = await accounts.get(address.toLowerCase());
+    return BigInt(account?.balanceWei ?? '0');
+}
+
+// Returns the new balance
+export async function addCredit(address: string, amountWei: bigint): Promise<bigint> {
+    const account = await accounts.update(address.toLowerCase(), (current) => ({
+        address,
+        balanceWei: (BigInt(current?.balanceWei ?? '0') + amountWei).toString(),
+        updatedAt: new Date().toISOString(),
+    }));
+    return BigInt(account!.balanceWei);
+}
+
+// Atomically takes amountWei from the balance. Returns the remaining balance,
+// or null (leaving the balance untouched) when it doesn't cover the amount.
+export async function debitCredit(address: string, amountWei: bigint): Promise<bigint | null> {
+    let remaining: bigint | null = null;
+    await accounts.update(address.toLowerCase(), (current) => {
+        const balance = BigInt(current?.balanceWei ?? '0');
+        if (!current || balance < amountWei) return current;
+
+        remaining = balance - amountWei;
+        return { ...current, balanceWei: remaining.toString(), updatedAt: new Date().toISOString() };
+    });
+    return remaining;
+}
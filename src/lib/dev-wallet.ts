@@ -0,0 +1,47 @@
+import { eth } from 'web3';
+import type { X402Signer } from './x402/client';
+import { signTransfer } from './x402/signers';
+import type { PaymentRequirements } from './x402/types';
+
+// --- Dev wallet for simulated payments ---
+// With PAYMENT_MODE=simulated the browser doesn't need MetaMask: a throwaway key
+// kept in localStorage signs sign-in messages and payments. Payments are signed
+// raw transfers that the server broadcasts to its simulated chain, so nothing
+// here talks to a node. Never use this key for anything of value.
+
+export interface DevWallet {
+    address: string;
+    privateKey: string;
+}
+
+const STORAGE_KEY = 'private-ai-dev-wallet';
+
+// Same wallet across reloads, created on first use
+export function loadDevWallet(): DevWallet {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as DevWallet;
+
+    const { address, privateKey } = eth.accounts.create();
+    const wallet = { address, privateKey };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(wallet));
+    return wallet;
+}
+
+// personal_sign compatible signature
+export function signDevMessage(wallet: DevWallet, message: string): string {
+    return eth.accounts.sign(message, wallet.privateKey).signature;
+}
+
+// Signed raw transfer of `amount` of the option's asset. The simulated chain
+// charges no gas and doesn't order nonces, so a timestamp keeps hashes unique.
+export function signDevPayment(wallet: DevWallet, option: PaymentRequirements, amount: string): string {
+    return signTransfer(wallet.privateKey, option, amount, { nonce: Date.now(), gasPrice: 0 });
+}
+
+export function devWalletSigner(wallet: DevWallet): X402Signer {
+    return {
+        address: wallet.address,
+        signMessage: async message => signDevMessage(wallet, message),
+        pay: async (option, amount) => ({ signedTransaction: signDevPayment(wallet, option, amount) }),
+    };
+}
@@ -0,0 +1,163 @@
+import { MONAD_TESTNET_NETWORK, chainIdOf, getNetwork } from './chain';
+import { DEFAULT_MODEL, getModel, isAvailable, listModels } from './models';
+import { paymentOptions } from './payment-options';
+import { paymentRequirements } from './payments';
+import { quoteQuery } from './pricing';
+import { MAX_SEARCHES, SEARCH_FEE_WEI } from './search';
+import { X402_VERSION, type DiscoveredNetwork, type DiscoveredResource, type DiscoveryDocument } from './x402/types';
+
+// --- x402 resource discovery ---
+// Every paid resource, described once: its 402 challenges carry the schema
+// below, and /.well-known/x402 lists them all with prices, networks and the
+// pay-to address, for x402 directories and agents to crawl. The chat page
+// configures itself from the same document, and the billing page checks
+// receipts against the signer it publishes.
+
+export interface PaidResource {
+    path: string;
+    method: 'POST';
+    description: string;
+    mimeType: string;
+    // x402 `outputSchema`: the request body fields and what comes back
+    bodyFields: Record<string, { type: string; required?: boolean; description: string }>;
+    output: Record<string, unknown>;
+}
+
+export const CHAT_RESOURCE: PaidResource = {
+    path: '/api/chat',
+    method: 'POST',
+    description: 'AI Query Payment',
+    mimeType: 'text/event-stream',
+    bodyFields: {
+        messages: { type: 'array', required: true, description: 'The conversation as UI messages: { role, parts: [{ type: "text", text } | { type: "file", mediaType, url }] }' },
+        model: { type: 'string', description: `Model to ask, see /api/models. Defaults to ${DEFAULT_MODEL}.` },
+        search: { type: 'boolean', description: 'Ground the answer in a web search' },
+        redact: { type: 'boolean', description: 'Mask personal details before they reach the model provider' },
+    },
+    output: {
+        type: 'text/event-stream',
+        description: 'AI SDK UI message stream of the answer, ending with a data-usage part, or data-refund if it failed',
+    },
+};
+
+export const COMPLETIONS_RESOURCE: PaidResource = {
+    path: '/v1/chat/completions',
+    method: 'POST',
+    description: 'AI Query Payment',
+    mimeType: 'application/json',
+    bodyFields: {
+        messages: { type: 'array', required: true, description: 'OpenAI chat messages' },
+        model: { type: 'string', description: 'Model to ask, see /v1/models' },
+        stream: { type: 'boolean', description: 'Stream chat.completion.chunk events' },
+        search: { type: 'boolean', description: 'Ground the answer in a web search' },
+        redact: { type: 'boolean', description: 'Mask personal details before they reach the model provider' },
+    },
+    output: {
+        type: 'application/json',
+        description: 'OpenAI chat.completion object, or chat.completion.chunk events when streaming',
+    },
+};
+
+export const DEPOSIT_RESOURCE: PaidResource = {
+    path: '/api/deposit',
+    method: 'POST',
+    description: 'Prepaid AI query credit',
+    mimeType: 'application/json',
+    bodyFields: {},
+    output: {
+        type: 'application/json',
+        properties: { creditedWei: 'string', balanceWei: 'string', balanceFormatted: 'string' },
+    },
+};
+
+// Smallest deposit accepted, and what the chat page's "Top up" sends, in MON's smallest unit
+export const MIN_DEPOSIT_WEI = BigInt('1000000000000000'); // 0.001 * 10^18
+export const SUGGESTED_DEPOSIT_WEI = BigInt('10000000000000000'); // 0.01 * 10^18
+
+const PAID_RESOURCES = [CHAT_RESOURCE, COMPLETIONS_RESOURCE, DEPOSIT_RESOURCE];
+
+// The resource a request was made to, when it is a paid one
+export function paidResource(path: string): PaidResource | undefined {
+    return PAID_RESOURCES.find(resource => resource.path === path);
+}
+
+export function outputSchema(resource: PaidResource): Record<string, unknown> {
+    return {
+        input: { type: 'http', method: resource.method, bodyType: 'json', bodyFields: resource.bodyFields, discoverable: true },
+        output: resource.output,
+    };
+}
+
+// Prices only change with a restart
+const LAST_UPDATED = new Date().toISOString();
+
+function discoveredNetwork(network: string): DiscoveredNetwork {
+    const config = getNetwork(network)!;
+    return {
+        network,
+        chainId: chainIdOf(network),
+        name: config.name,
+        rpcUrl: config.publicRpcUrl,
+        explorerUrl: config.explorerUrl,
+        nativeCurrency: config.nativeCurrency,
+    };
+}
+
+export function discoveryDocument(serverWallet: string, receiptSigner: string): DiscoveryDocument {
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL ?? '';
+    const models = listModels().filter(isAvailable);
+
+    // The shortest question to the cheapest model this server runs
+    const smallestQuery = (models.length > 0 ? models : [getModel(DEFAULT_MODEL)!])
+        .map(model => quoteQuery(model, []).amountWei)
+        .reduce((cheapest, amount) => amount < cheapest ? amount : cheapest);
+    const queryPricing = {
+        type: 'quoted' as const,
+        quoteUrl: `${baseUrl}/api/quote`,
+        models: models.map(model => ({
+            model: model.id,
+            baseFeeWei: model.pricing.baseFeeWei.toString(),
+            inputWeiPer1k: model.pricing.inputWeiPer1k.toString(),
+            outputWeiPer1k: model.pricing.outputWeiPer1k.toString(),
+            maxOutputTokens: model.pricing.maxOutputTokens,
+        })),
+        searchFeeWei: SEARCH_FEE_WEI.toString(),
+        maxSearches: MAX_SEARCHES,
+    };
+
+    const item = (resource: PaidResource, amountWei: bigint, pricing: DiscoveredResource['pricing']): DiscoveredResource => ({
+        resource: `${baseUrl}${resource.path}`,
+        type: 'http',
+        x402Version: X402_VERSION,
+        method: resource.method,
+        description: resource.description,
+        mimeType: resource.mimeType,
+        accepts: paymentRequirements(serverWallet, { resource, amountWei }),
+        pricing,
+        lastUpdated: LAST_UPDATED,
+    });
+
+    return {
+        x402Version: X402_VERSION,
+        name: 'Private AI',
+        description: 'Private AI queries paid per request with x402, from prepaid credit or a payment per query.',
+        payTo: serverWallet,
+        networks: [...new Set([MONAD_TESTNET_NETWORK, ...paymentOptions().map(option => option.network)])].map(discoveredNetwork),
+        signIn: {
+            network: MONAD_TESTNET_NETWORK,
+            chainId: chainIdOf(MONAD_TESTNET_NETWORK),
+            nonceUrl: `${baseUrl}/api/auth/nonce`,
+            verifyUrl: `${baseUrl}/api/auth/verify`,
+        },
+        receiptSigner,
+        items: [
+            item(CHAT_RESOURCE, smallestQuery, queryPricing),
+            item(COMPLETIONS_RESOURCE, smallestQuery, queryPricing),
+            item(DEPOSIT_RESOURCE, MIN_DEPOSIT_WEI, {
+                type: 'minimum',
+                minimumWei: MIN_DEPOSIT_WEI.toString(),
+                suggestedWei: SUGGESTED_DEPOSIT_WEI.toString(),
+            }),
+        ],
+    };
+}
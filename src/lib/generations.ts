@@ -0,0 +1,184 @@
+import { randomBytes } from 'crypto';
+import { addCredit, debitCredit } from './credits';
+import { getPayment } from './ledger';
+import { logger } from './logger';
+import { REFUND_MODE, claimRefund, queueRefund } from './refunds';
+import { collection } from './storage';
+
+// --- Generation outcomes ---
+// Every paid query is tracked from its payment to the end of its answer. If the
+// model fails, or answers with next to nothing, the charge is given back: as
+// prepaid credit, or for x402 payments with REFUND_MODE=onchain, as a queued
+// on-chain refund. A client may send an Idempotency-Key; retrying a failed query
+// with the same key resumes it from that refund instead of charging again.
+
+export type GenerationStatus = 'pending' | 'completed' | 'failed';
+
+export interface GenerationRefund {
+    to: 'credit' | 'onchain';
+    amountWei: string;
+    refundId?: string;
+    reason: string;
+}
+
+export interface GenerationRecord {
+    id: string;
+    payer: string;
+    idempotencyKey?: string;
+    method: 'x402' | 'credit';
+    txHash?: string;
+    model: string;
+    chargedWei: string;
+    status: GenerationStatus;
+    attempts: number;
+    outputTokens?: number;
+    costWei?: string;
+    // Completed early because the client stopped the answer
+    stopped?: boolean;
+    // From the model call to the end of its answer, or to its failure
+    latencyMs?: number;
+    // Failed because the model provider returned an error
+    providerError?: boolean;
+    refund?: GenerationRefund;
+    createdAt: string;
+    updatedAt: string;
+}
+
+// Answers with fewer output tokens than this count as failed and are refunded
+export const MIN_OUTPUT_TOKENS = Number(process.env.MIN_OUTPUT_TOKENS || 2);
+
+const generations = collection<GenerationRecord>('generations');
+
+function keyedId(payer: string, idempotencyKey: string): string {
+    return `${payer.toLowerCase()}:${idempotencyKey}`;
+}
+
+export async function listGenerations(): Promise<GenerationRecord[]> {
+    return generations.values();
+}
+
+export async function findGeneration(payer: string, idempotencyKey: string): Promise<GenerationRecord | undefined> {
+    return generations.get(keyedId(payer, idempotencyKey));
+}
+
+// Records a query that has just been paid for. If a concurrent request took the
+// idempotency key first, this one is tracked under its own id instead.
+export async function startGeneration(
+    generation: Pick<GenerationRecord, 'payer' | 'idempotencyKey' | 'method' | 'txHash' | 'model' | 'chargedWei'>
+): Promise<GenerationRecord> {
+    const now = new Date().toISOString();
+    const record: GenerationRecord = {
+        ...generation,
+        id: generation.idempotencyKey ? keyedId(generation.payer, generation.idempotencyKey) : randomBytes(16).toString('hex'),
+        status: 'pending',
+        attempts: 1,
+        createdAt: now,
+        updatedAt: now,
+    };
+    if (await generations.insert(record.id, record)) return record;
+
+    const fallback = { ...record, id: randomBytes(16).toString('hex'), idempotencyKey: undefined };
+    await generations.set(fallback.id, fallback);
+    return fallback;
+}
+
+// Returns false if the generation is no longer pending, i.e. it already failed and was refunded
+export async function completeGeneration(
+    id: string,
+    outcome: { outputTokens: number; costWei: bigint; stopped?: boolean; latencyMs?: number }
+): Promise<boolean> {
+    let completed = false;
+    await generations.update(id, (current) => {
+        if (!current || current.status !== 'pending') return current;
+        completed = true;
+        return {
+            ...current,
+            status: 'completed',
+            outputTokens: outcome.outputTokens,
+            costWei: outcome.costWei.toString(),
+            stopped: outcome.stopped,
+            latencyMs: outcome.latencyMs,
+            updatedAt: new Date().toISOString(),
+        };
+    });
+    return completed;
+}
+
+// Marks a pending generation failed and gives its charge back. Only the first
+// call refunds, so a provider error followed by onFinish can't pay out twice.
+// Returns the refund, or null if the generation wasn't pending.
+export async function failGeneration(
+    id: string,
+    reason: string,
+    details: { latencyMs?: number; providerError?: boolean } = {}
+): Promise<GenerationRefund | null> {
+    let failed: GenerationRecord | null = null;
+    await generations.update(id, (current) => {
+        if (!current || current.status !== 'pending') return current;
+        failed = { ...current, ...details, status: 'failed', updatedAt: new Date().toISOString() };
+        return failed;
+    });
+    const generation = failed as GenerationRecord | null;
+    if (!generation) return null;
+
+    let refund: GenerationRefund | null = null;
+    if (generation.method === 'x402' && generation.txHash && REFUND_MODE === 'onchain') {
+        const payment = await getPayment(generation.txHash);
+        if (payment) {
+            const queued = await queueRefund({
+                payer: generation.payer,
+                txHash: payment.txHash,
+                network: payment.network,
+                asset: payment.asset,
+                amount: payment.amount,
+                amountWei: payment.amountWei,
+                reason,
+            });
+            refund = { to: 'onchain', amountWei: payment.amountWei, refundId: queued.id, reason };
+        }
+    }
+    if (!refund) {
+        await addCredit(generation.payer, BigInt(generation.chargedWei));
+        refund = { to: 'credit', amountWei: generation.chargedWei, reason };
+    }
+
+    const recorded = refund;
+    await generations.update(id, (current) => current && { ...current, refund: recorded });
+    logger.info({ module: 'generations', generationId: id, reason, refundTo: refund.to, amountWei: refund.amountWei }, '↩️ Generation failed, refunded');
+    return refund;
+}
+
+// Retries a failed generation, charged from the credit its refund became. An
+// on-chain refund still waiting in the queue is turned back into credit first.
+// Returns the credit left afterwards, or null when the generation isn't failed
+// (e.g. a concurrent retry resumed it) or the credit no longer covers the query.
+export async function resumeGeneration(generation: GenerationRecord, amountWei: bigint): Promise<bigint | null> {
+    let resumed = false;
+    await generations.update(generation.id, (current) => {
+        if (!current || current.status !== 'failed') return current;
+        resumed = true;
+        return { ...current, status: 'pending', updatedAt: new Date().toISOString() };
+    });
+    if (!resumed) return null;
+
+    let refund = generation.refund;
+    if (refund?.to === 'onchain' && refund.refundId && await claimRefund(refund.refundId, 'resumed')) {
+        await addCredit(generation.payer, BigInt(refund.amountWei));
+        refund = { ...refund, to: 'credit', refundId: undefined };
+    }
+
+    const balance = await debitCredit(generation.payer, amountWei);
+    await generations.update(generation.id, (current) => current && (balance === null
+        ? { ...current, status: 'failed', refund }
+        : {
+            ...current,
+            method: 'credit',
+            chargedWei: amountWei.toString(),
+            attempts: current.attempts + 1,
+            refund: undefined,
+            latencyMs: undefined,
+            providerError: undefined,
+            updatedAt: new Date().toISOString(),
+        }));
+    return balance;
+}
@@ -0,0 +1,271 @@
+import type { FileUIPart } from 'ai';
+import type { PaymentReceipt, RefundReport, Source, UsageReport } from './chat-stream';
+import type { SignedReceipt } from './receipt-signature';
+
+// --- Encrypted local conversation history ---
+// Conversations live only in this browser's IndexedDB, encrypted with AES-GCM.
+// The key is derived from the wallet's signature over a fixed message, so only
+// the wallet owner can read them, and the same wallet can decrypt an export on
+// another browser. Nothing here is ever sent to the server.
+//
+// That only works while the wallet signs deterministically, as RFC 6979 wallets
+// do. Some in-app, passkey and smart-contract wallets don't: every signature,
+// and so every key, differs. The chat page signs twice on a wallet's first
+// unlock and refuses to keep history when the two signatures differ.
+
+export interface ChatMessage {
+    id: string;
+    role: 'user' | 'assistant';
+    content: string;
+    model?: string;
+    redacted?: boolean;
+    // Questions only: the files sent with it, as they were sent
+    attachments?: FileUIPart[];
+    // Assistant replies only, from the parts of the chat stream
+    reasoning?: string;
+    // Web results a grounded answer cites
+    sources?: Source[];
+    receipt?: PaymentReceipt;
+    usage?: UsageReport;
+    refund?: RefundReport;
+    // The key the query was sent with; retrying a refunded answer resends it
+    idempotencyKey?: string;
+    signedReceipt?: SignedReceipt;
+    error?: string;
+    // The user stopped the answer before it finished
+    stopped?: boolean;
+}
+
+export interface Conversation {
+    id: string;
+    title: string;
+    createdAt: string;
+    updatedAt: string;
+    messages: ChatMessage[];
+}
+
+// What is stored: only the owner and timestamps are in the clear
+interface EncryptedRecord {
+    id: string;
+    owner: string;
+    updatedAt: string;
+    iv: string;
+    ciphertext: string;
+}
+
+interface HistoryExport {
+    version: 1;
+    owner: string;
+    exportedAt: string;
+    iv: string;
+    ciphertext: string;
+}
+
+const DB_NAME = 'private-ai-history';
+const STORE = 'conversations';
+
+export function historyKeyMessage(address: string): string {
+    return [
+        'Private AI: unlock encrypted chat history',
+        '',
+        `Wallet: ${address.toLowerCase()}`,
+        '',
+        'This signature derives your local encryption key. It never leaves your browser.',
+    ].join('\n');
+}
+
+// --- Encoding helpers ---
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+    const clean = hex.replace(/^0x/, '');
+    const bytes = new Uint8Array(clean.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+    }
+    return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+// --- Crypto ---
+
+// The same key only comes back if the wallet signs historyKeyMessage() the same
+// way every time; see signaturesMatch()
+export async function deriveHistoryKey(signature: string, address: string): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey('raw', hexToBytes(signature), 'HKDF', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        {
+            name: 'HKDF',
+            hash: 'SHA-256',
+            salt: new TextEncoder().encode(address.toLowerCase()),
+            info: new TextEncoder().encode('private-ai-history-v1'),
+        },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+// Whether two signatures of historyKeyMessage() would derive the same key
+export function signaturesMatch(first: string, second: string): boolean {
+    return first.toLowerCase() === second.toLowerCase();
+}
+
+async function encrypt(key: CryptoKey, value: unknown): Promise<{ iv: string; ciphertext: string }> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const plaintext = new TextEncoder().encode(JSON.stringify(value));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+    return { iv: bytesToBase64(iv), ciphertext: bytesToBase64(new Uint8Array(ciphertext)) };
+}
+
+async function decrypt<T>(key: CryptoKey, iv: string, ciphertext: string): Promise<T> {
+    const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: base64ToBytes(iv) },
+        key,
+        base64ToBytes(ciphertext)
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+// --- IndexedDB ---
+
+function openDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+            store.createIndex('owner', 'owner');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(STORE, mode).objectStore(STORE));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+async function ownerRecords(owner: string): Promise<EncryptedRecord[]> {
+    return withStore('readonly', store => store.index('owner').getAll(owner.toLowerCase()));
+}
+
+// --- Public API ---
+
+// Whether this browser holds any conversations of the wallet, locked or not
+export async function hasConversations(owner: string): Promise<boolean> {
+    const count = await withStore('readonly', store => store.index('owner').count(owner.toLowerCase()));
+    return count > 0;
+}
+
+// Newest first. Records that don't decrypt with this key are skipped.
+export async function loadConversations(owner: string, key: CryptoKey): Promise<Conversation[]> {
+    const conversations: Conversation[] = [];
+    for (const record of await ownerRecords(owner)) {
+        try {
+            conversations.push(await decrypt<Conversation>(key, record.iv, record.ciphertext));
+        } catch {
+            console.warn('Skipping conversation that failed to decrypt:', record.id);
+        }
+    }
+    return conversations.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function saveConversation(owner: string, key: CryptoKey, conversation: Conversation): Promise<void> {
+    const record: EncryptedRecord = {
+        id: conversation.id,
+        owner: owner.toLowerCase(),
+        updatedAt: conversation.updatedAt,
+        ...(await encrypt(key, conversation)),
+    };
+    await withStore('readwrite', store => store.put(record));
+}
+
+// Only deletes the conversation if it belongs to the owner
+export async function deleteConversation(owner: string, id: string): Promise<void> {
+    const db = await openDb();
+    try {
+        await new Promise<void>((resolve, reject) => {
+            const transaction = db.transaction(STORE, 'readwrite');
+            const store = transaction.objectStore(STORE);
+            const lookup = store.get(id);
+            lookup.onsuccess = () => {
+                const record = lookup.result as EncryptedRecord | undefined;
+                if (record?.owner === owner.toLowerCase()) store.delete(id);
+            };
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+export function titleFor(messages: ChatMessage[]): string {
+    const first = messages.find(message => message.role === 'user')?.content.trim() || 'New chat';
+    return first.length > 60 ? `${first.slice(0, 57)}...` : first;
+}
+
+export function searchConversations(conversations: Conversation[], query: string): Conversation[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return conversations;
+    return conversations.filter(conversation =>
+        conversation.title.toLowerCase().includes(needle) ||
+        conversation.messages.some(message => message.content.toLowerCase().includes(needle))
+    );
+}
+
+// One encrypted file holding every conversation of this wallet
+export async function exportHistory(owner: string, key: CryptoKey): Promise<Blob> {
+    const conversations = await loadConversations(owner, key);
+    const file: HistoryExport = {
+        version: 1,
+        owner: owner.toLowerCase(),
+        exportedAt: new Date().toISOString(),
+        ...(await encrypt(key, conversations)),
+    };
+    return new Blob([JSON.stringify(file)], { type: 'application/json' });
+}
+
+// Returns how many conversations were imported
+export async function importHistory(owner: string, key: CryptoKey, file: File): Promise<number> {
+    const data = JSON.parse(await file.text()) as HistoryExport;
+    if (data.version !== 1 || data.owner !== owner.toLowerCase()) {
+        throw new Error('This export belongs to a different wallet');
+    }
+
+    let conversations: Conversation[];
+    try {
+        conversations = await decrypt<Conversation[]>(key, data.iv, data.ciphertext);
+    } catch {
+        throw new Error('Could not decrypt this export with your wallet key');
+    }
+
+    for (const conversation of conversations) {
+        await saveConversation(owner, key, conversation);
+    }
+    return conversations.length;
+}
@@ -0,0 +1,44 @@
+import { collection } from './storage';
+
+// --- Spent-payment ledger ---
+// Every transaction hash accepted as payment is recorded here, so the same
+// transfer can never be redeemed for a second query.
+
+// What the payment was redeemed for: a single query, or a credit deposit
+export type PaymentPurpose = 'query' | 'deposit';
+
+export interface PaymentRecord {
+    txHash: string;
+    payer: string;
+    network: string;
+    // 'native' or the ERC-20 contract, with the amount in its smallest units
+    asset: string;
+    amount: string;
+    // What the payment was worth in MON wei
+    amountWei: string;
+    blockNumber: number;
+    purpose: PaymentPurpose;
+    model?: string;
+    redeemedAt: string;
+}
+
+const payments = collection<PaymentRecord>('payments');
+
+export async function isRedeemed(txHash: string): Promise<boolean> {
+    return (await payments.get(txHash.toLowerCase())) !== undefined;
+}
+
+// Atomically records the payment. Returns false if the hash was already used,
+// including when a concurrent request claimed it first.
+export async function redeemPayment(record: PaymentRecord): Promise<boolean> {
+    const txHash = record.txHash.toLowerCase();
+    return payments.insert(txHash, { ...record, txHash });
+}
+
+export async function listPayments(): Promise<PaymentRecord[]> {
+    return payments.values();
+}
+
+export async function getPayment(txHash: string): Promise<PaymentRecord | undefined> {
+    return payments.get(txHash.toLowerCase());
+}
@@ -0,0 +1,75 @@
+import { randomUUID } from 'crypto';
+import pino from 'pino';
+import { NextRequest, NextResponse } from 'next/server';
+
+// --- Structured logging ---
+// JSON lines through pino. Anything that could hold what a user typed, or a
+// secret, is censored by field name before it is written, whoever logs it:
+// conversations, signatures, keys, payment headers and the request bodies that
+// provider errors carry. Log ids, amounts, hashes and counts instead.
+// With LOG_ELASTICSEARCH_URL set, logs are also shipped to Elasticsearch.
+
+const REDACTED_FIELDS = [
+    'messages', 'content', 'text', 'prompt', 'system', 'reasoning', 'input',
+    'signature', 'privateKey', 'apiKey', 'secret', 'cookie', 'authorization',
+    'paymentHeader', 'signedTransaction', 'x-payment',
+    'requestBodyValues', 'responseBody',
+];
+
+// Top level, one level down (e.g. body.messages) and inside errors and their causes
+const REDACT_PATHS = REDACTED_FIELDS.flatMap(field => {
+    const member = field.includes('-') ? `["${field}"]` : `.${field}`;
+    return [member.replace(/^\./, ''), `*${member}`, `err${member}`, `err.cause${member}`];
+});
+
+function destination() {
+    const node = process.env.LOG_ELASTICSEARCH_URL;
+    if (!node) return undefined;
+    return pino.transport({
+        targets: [
+            { target: 'pino/file', level: 'info', options: { destination: 1 } },
+            {
+                target: 'pino-elasticsearch',
+                level: 'info',
+                options: { node, index: process.env.LOG_ELASTICSEARCH_INDEX || 'incognito-llm', esVersion: 8 },
+            },
+        ],
+    });
+}
+
+export const logger = pino(
+    {
+        level: process.env.LOG_LEVEL || 'info',
+        base: { service: 'incognito-llm' },
+        redact: { paths: REDACT_PATHS, censor: '[redacted]' },
+        serializers: { err: pino.stdSerializers.err },
+    },
+    destination()
+);
+
+export type Logger = pino.Logger;
+
+// Reuses the caller's X-Request-Id when it looks like one, so logs can be matched across services
+function requestIdOf(request: NextRequest): string {
+    const incoming = request.headers.get('x-request-id');
+    return incoming && /^[\w-]{8,64}$/.test(incoming) ? incoming : randomUUID();
+}
+
+// Logger for one request, tagged with its id, method and path
+export function requestLogger(request: NextRequest): { log: Logger; requestId: string } {
+    const requestId = requestIdOf(request);
+    return {
+        requestId,
+        log: logger.child({ requestId, method: request.method, path: request.nextUrl.pathname }),
+    };
+}
+
+// What a client sees of an unexpected error: a generic message and the id to quote
+// when reporting it. The error itself only goes to the log.
+export function internalError(log: Logger, requestId: string, error: unknown, extra: Record<string, unknown> = {}) {
+    log.error({ err: error }, 'Unhandled error');
+    return NextResponse.json(
+        { error: 'Internal server error', requestId, ...extra },
+        { status: 500, headers: { 'X-Request-Id': requestId } }
+    );
+}
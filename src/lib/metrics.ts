@@ -0,0 +1,221 @@
+import { listGenerations } from './generations';
+import { listPayments } from './ledger';
+import { collection } from './storage';
+
+// --- Operator metrics ---
+// What the operator dashboard shows, built from the server-side records of paid
+// queries (generations), redeemed payments (the ledger) and counters of payments
+// that failed verification. Only amounts, wallets, models and timings are read;
+// there is no chat content on the server to begin with.
+
+// Why a payment was rejected for good. Counted by these codes only: the reason
+// a client is told can carry values it sent, such as the network it named.
+export const VERIFICATION_FAILURES = {
+    'invalid-payload': 'Malformed X-PAYMENT header',
+    'unsupported-network': 'Network not accepted',
+    'unproven-payer': 'Transaction hash sent without a session',
+    'already-redeemed': 'Payment already redeemed',
+    'payer-mismatch': 'Not sent from the signed-in wallet',
+    'unknown-payer': 'Facilitator named no payer',
+    'verification-failed': 'Rejected by the facilitator',
+    'settlement-failed': 'Settlement failed',
+} as const;
+
+export type VerificationFailure = keyof typeof VERIFICATION_FAILURES;
+
+interface VerificationFailureCount {
+    day: string;
+    reason: VerificationFailure;
+    count: number;
+}
+
+// Per day and reason code, so the collection stays small however many bad payments arrive
+const verificationFailures = collection<VerificationFailureCount>('verification-failures');
+
+const dayOf = (timestamp: string | number | Date) => new Date(timestamp).toISOString().slice(0, 10);
+
+// Counts a payment rejected for good. Payments that are only not final yet aren't failures.
+export async function recordVerificationFailure(reason: VerificationFailure) {
+    const day = dayOf(Date.now());
+    await verificationFailures.update(`${day}|${reason}`, (current) => ({
+        day,
+        reason,
+        count: (current?.count ?? 0) + 1,
+    }));
+}
+
+export interface DailyRevenue {
+    day: string;
+    // Billed for answers, after unused payment was credited back
+    revenueWei: string;
+    // Paid in, by x402 queries and deposits
+    receivedWei: string;
+    queries: number;
+}
+
+export interface ModelStats {
+    model: string;
+    queries: number;
+    completed: number;
+    failed: number;
+    providerErrors: number;
+    providerErrorRate: number;
+    revenueWei: string;
+    averageLatencyMs: number | null;
+    p95LatencyMs: number | null;
+}
+
+export interface WalletStats {
+    payer: string;
+    spentWei: string;
+    queries: number;
+}
+
+export interface OperatorStats {
+    from: string;
+    to: string;
+    totals: {
+        revenueWei: string;
+        receivedWei: string;
+        depositsWei: string;
+        queries: number;
+        completed: number;
+        failed: number;
+        stopped: number;
+    };
+    revenueByDay: DailyRevenue[];
+    models: ModelStats[];
+    topWallets: WalletStats[];
+    verification: {
+        settled: number;
+        failed: number;
+        failureRate: number;
+        reasons: Array<{ reason: string; count: number }>;
+    };
+}
+
+const TOP_WALLETS = 10;
+
+function percentile(sorted: number[], fraction: number): number | null {
+    if (sorted.length === 0) return null;
+    return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * fraction))];
+}
+
+const rate = (part: number, whole: number) => (whole > 0 ? part / whole : 0);
+
+// Everything over the last `days` days, today included
+export async function operatorStats(days: number): Promise<OperatorStats> {
+    const to = new Date();
+    const from = new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate() - (days - 1)));
+    const inRange = (timestamp: string) => new Date(timestamp) >= from;
+
+    const byDay = new Map<string, { revenue: bigint; received: bigint; queries: number }>();
+    for (let day = new Date(from); day <= to; day.setUTCDate(day.getUTCDate() + 1)) {
+        byDay.set(dayOf(day), { revenue: BigInt(0), received: BigInt(0), queries: 0 });
+    }
+
+    const generations = (await listGenerations()).filter(generation => inRange(generation.createdAt));
+    const models = new Map<string, { queries: number; completed: number; failed: number; providerErrors: number; revenue: bigint; latencies: number[] }>();
+    const wallets = new Map<string, { spent: bigint; queries: number }>();
+    let revenue = BigInt(0);
+    let completed = 0, failed = 0, stopped = 0;
+
+    for (const generation of generations) {
+        const cost = generation.status === 'completed' ? BigInt(generation.costWei ?? '0') : BigInt(0);
+        const model = models.get(generation.model)
+            ?? { queries: 0, completed: 0, failed: 0, providerErrors: 0, revenue: BigInt(0), latencies: [] };
+        model.queries++;
+        model.revenue += cost;
+        if (generation.status === 'completed') model.completed++;
+        if (generation.status === 'failed') model.failed++;
+        if (generation.providerError) model.providerErrors++;
+        if (generation.latencyMs !== undefined) model.latencies.push(generation.latencyMs);
+        models.set(generation.model, model);
+
+        const payer = generation.payer.toLowerCase();
+        const wallet = wallets.get(payer) ?? { spent: BigInt(0), queries: 0 };
+        wallet.spent += cost;
+        wallet.queries++;
+        wallets.set(payer, wallet);
+
+        const day = byDay.get(dayOf(generation.createdAt));
+        if (day) {
+            day.revenue += cost;
+            day.queries++;
+        }
+
+        revenue += cost;
+        if (generation.status === 'completed') completed++;
+        if (generation.status === 'failed') failed++;
+        if (generation.stopped) stopped++;
+    }
+
+    const payments = (await listPayments()).filter(payment => inRange(payment.redeemedAt));
+    let received = BigInt(0), deposits = BigInt(0);
+    for (const payment of payments) {
+        const amount = BigInt(payment.amountWei);
+        received += amount;
+        if (payment.purpose === 'deposit') deposits += amount;
+        const day = byDay.get(dayOf(payment.redeemedAt));
+        if (day) day.received += amount;
+    }
+
+    const reasons = new Map<string, number>();
+    let verificationFailed = 0;
+    for (const failure of await verificationFailures.values()) {
+        if (!byDay.has(failure.day)) continue;
+        const label: string = VERIFICATION_FAILURES[failure.reason] ?? failure.reason;
+        reasons.set(label, (reasons.get(label) ?? 0) + failure.count);
+        verificationFailed += failure.count;
+    }
+
+    return {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        totals: {
+            revenueWei: revenue.toString(),
+            receivedWei: received.toString(),
+            depositsWei: deposits.toString(),
+            queries: generations.length,
+            completed,
+            failed,
+            stopped,
+        },
+        revenueByDay: [...byDay].map(([day, totals]) => ({
+            day,
+            revenueWei: totals.revenue.toString(),
+            receivedWei: totals.received.toString(),
+            queries: totals.queries,
+        })),
+        models: [...models]
+            .map(([model, totals]) => {
+                const latencies = [...totals.latencies].sort((a, b) => a - b);
+                return {
+                    model,
+                    queries: totals.queries,
+                    completed: totals.completed,
+                    failed: totals.failed,
+                    providerErrors: totals.providerErrors,
+                    providerErrorRate: rate(totals.providerErrors, totals.queries),
+                    revenueWei: totals.revenue.toString(),
+                    averageLatencyMs: latencies.length > 0
+                        ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+                        : null,
+                    p95LatencyMs: percentile(latencies, 0.95),
+                };
+            })
+            .sort((a, b) => b.queries - a.queries),
+        topWallets: [...wallets]
+            .map(([payer, totals]) => ({ payer, spentWei: totals.spent.toString(), queries: totals.queries }))
+            .sort((a, b) => (BigInt(b.spentWei) > BigInt(a.spentWei) ? 1 : BigInt(b.spentWei) < BigInt(a.spentWei) ? -1 : 0))
+            .slice(0, TOP_WALLETS),
+        verification: {
+            settled: payments.length,
+            failed: verificationFailed,
+            failureRate: rate(verificationFailed, payments.length + verificationFailed),
+            reasons: [...reasons]
+                .map(([reason, count]) => ({ reason, count }))
+                .sort((a, b) => b.count - a.count),
+        },
+    };
+}
@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import { simulateReadableStream, type LanguageModel } from 'ai';
+
+// --- Scripted mock model ---
+// Offline stand-in for a real provider, offered with PAYMENT_MODE=simulated.
+// Replies come from the JSON file named by MOCK_MODEL_SCRIPT: an array of rules
+// where the first whose `match` regex fits the last user message wins. `{{input}}`
+// in a reply is replaced by that message, and a rule with `error` makes the
+// provider call fail instead. Without a script, the model echoes the question.
+// Attachments are accepted and ignored, so they can be tried offline. Offered
+// the web_search tool, the model first searches for the rule's `search` (the
+// question by default), then replies citing the first result as [1].
+//
+// [{ "match": "fail", "error": "Provider overloaded" },
+//  { "match": "hello", "reply": "Hi there!" },
+//  { "match": "news", "search": "latest news", "reply": "Here is the news." },
+//  { "reply": "You asked: {{input}}" }]
+
+interface ScriptRule {
+    match?: string;
+    reply?: string;
+    search?: string;
+    error?: string;
+    chunkDelayMs?: number;
+}
+
+type LanguageModelV2 = Exclude<LanguageModel, string>;
+type DoStream = LanguageModelV2['doStream'];
+type Prompt = Parameters<DoStream>[0]['prompt'];
+type StreamPart = Awaited<ReturnType<DoStream>>['stream'] extends ReadableStream<infer Part> ? Part : never;
+
+const DEFAULT_RULE: ScriptRule = { reply: 'Simulated answer to: {{input}}' };
+
+// Read on every call so a test can swap the script between requests
+async function loadScript(): Promise<ScriptRule[]> {
+    const file = process.env.MOCK_MODEL_SCRIPT;
+    if (!file) return [];
+    return JSON.parse(await fs.readFile(file, 'utf8')) as ScriptRule[];
+}
+
+function textOf(message: Prompt[number]): string {
+    if (typeof message.content === 'string') return message.content;
+    return message.content
+        .map(part => {
+            if (part.type === 'text') return part.text;
+            if (part.type === 'tool-result' && part.output.type === 'text') return part.output.value;
+            return '';
+        })
+        .join('');
+}
+
+// Same 4-characters-per-token estimate the pricing uses
+const tokens = (text: string) => Math.ceil(text.length / 4);
+
+export function mockLanguageModel(modelId: string): LanguageModelV2 {
+    return {
+        specificationVersion: 'v2',
+        provider: 'mock',
+        modelId,
+        supportedUrls: {},
+        doGenerate: async () => {
+            throw new Error('The mock model only streams');
+        },
+        doStream: async ({ prompt, tools, toolChoice }) => {
+            const input = textOf([...prompt].reverse().find(message => message.role === 'user') ?? { role: 'user', content: [] });
+            const rules = await loadScript();
+            const rule = rules.find(candidate => !candidate.match || new RegExp(candidate.match, 'i').test(input)) ?? DEFAULT_RULE;
+
+            if (rule.error) throw new Error(rule.error);
+
+            const promptText = prompt.map(textOf).join('\n');
+            const searched = prompt.find(message => message.role === 'tool');
+
+            if (!searched && tools?.some(candidate => candidate.name === 'web_search') && toolChoice?.type !== 'none') {
+                const call = JSON.stringify({ query: (rule.search ?? input).replaceAll('{{input}}', input) });
+                return {
+                    stream: simulateReadableStream({
+                        chunks: [
+                            { type: 'stream-start', warnings: [] },
+                            { type: 'tool-call', toolCallId: 'search-1', toolName: 'web_search', input: call },
+                            {
+                                type: 'finish',
+                                finishReason: 'tool-calls',
+                                usage: { inputTokens: tokens(promptText), outputTokens: tokens(call), totalTokens: tokens(promptText) + tokens(call) },
+                            },
+                        ] satisfies StreamPart[],
+                        chunkDelayInMs: rule.chunkDelayMs ?? 20,
+                    }),
+                };
+            }
+
+            const found = searched && /^\[1\]/m.test(textOf(searched));
+            const reply = (rule.reply ?? '').replaceAll('{{input}}', input) + (found ? ' [1]' : '');
+
+            const chunks: StreamPart[] = [
+                { type: 'stream-start', warnings: [] },
+                { type: 'text-start', id: 'text-1' },
+                ...(reply.match(/\S+\s*/g) ?? []).map((delta): StreamPart => ({ type: 'text-delta', id: 'text-1', delta })),
+                { type: 'text-end', id: 'text-1' },
+                {
+                    type: 'finish',
+                    finishReason: 'stop',
+                    usage: {
+                        inputTokens: tokens(promptText),
+                        outputTokens: tokens(reply),
+                        totalTokens: tokens(promptText) + tokens(reply),
+                    },
+                },
+            ];
+
+            return { stream: simulateReadableStream({ chunks, chunkDelayInMs: rule.chunkDelayMs ?? 20 }) };
+        },
+    };
+}
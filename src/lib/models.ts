@@ -0,0 +1,245 @@
+import { google } from '@ai-sdk/google';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import type { LanguageModel } from 'ai';
+import { utils } from 'web3';
+import { mockLanguageModel } from './mock-model';
+import { SIMULATED } from './simulated-chain';
+
+// --- Model registry ---
+// Providers turn a provider-side model id into an AI SDK model. Models map our
+// public ids onto a provider along with their price, context length and
+// capabilities. A model is only offered while its provider is configured.
+
+export const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+export type ModelCapability = 'text' | 'vision' | 'documents' | 'reasoning' | 'tools';
+
+export interface ModelPricing {
+    baseFeeWei: bigint;
+    inputWeiPer1k: bigint;
+    outputWeiPer1k: bigint;
+    maxOutputTokens: number;
+}
+
+export interface ModelEntry {
+    id: string;
+    name: string;
+    description: string;
+    provider: string;
+    providerModelId: string;
+    contextLength: number;
+    capabilities: ModelCapability[];
+    pricing: ModelPricing;
+}
+
+interface Provider {
+    configured: boolean;
+    languageModel(providerModelId: string): LanguageModel;
+}
+
+const providers = new Map<string, Provider>();
+const models = new Map<string, ModelEntry>();
+
+export function registerProvider(name: string, provider: Provider) {
+    providers.set(name, provider);
+}
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, hosted
+// vendors, or a local Ollama / llama.cpp server.
+export function registerOpenAICompatibleProvider(
+    name: string,
+    options: { baseURL?: string; apiKey?: string; requiresApiKey?: boolean }
+) {
+    const configured = !!options.baseURL && (!options.requiresApiKey || !!options.apiKey);
+    const provider = createOpenAICompatible({
+        name,
+        baseURL: options.baseURL || '',
+        apiKey: options.apiKey,
+    });
+    registerProvider(name, {
+        configured,
+        languageModel: (providerModelId) => provider.chatModel(providerModelId),
+    });
+}
+
+export function registerModel(entry: ModelEntry) {
+    models.set(entry.id, entry);
+}
+
+export function getModel(id: string): ModelEntry | undefined {
+    return models.get(id);
+}
+
+export function isAvailable(entry: ModelEntry): boolean {
+    return providers.get(entry.provider)?.configured ?? false;
+}
+
+export function listModels(): ModelEntry[] {
+    return [...models.values()];
+}
+
+// Looks up a model a client asked for. Unknown and unconfigured models are errors, never a silent fallback.
+export function resolveModel(id: unknown): { entry: ModelEntry } | { error: string } {
+    const entry = typeof id === 'string' ? models.get(id) : undefined;
+    if (!entry) return { error: `Unknown model: ${String(id)}` };
+    if (!isAvailable(entry)) return { error: `Model ${id} is not available on this server` };
+    return { entry };
+}
+
+export function languageModel(entry: ModelEntry): LanguageModel {
+    const provider = providers.get(entry.provider);
+    if (!provider) throw new Error(`Unknown provider: ${entry.provider}`);
+    return provider.languageModel(entry.providerModelId);
+}
+
+// --- Built-in providers ---
+
+registerProvider('google', {
+    configured: !!process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+    languageModel: (providerModelId) => google(providerModelId),
+});
+
+registerOpenAICompatibleProvider('openai', {
+    baseURL: 'https://api.openai.com/v1',
+    apiKey: process.env.OPENAI_API_KEY,
+    requiresApiKey: true,
+});
+
+registerOpenAICompatibleProvider('anthropic', {
+    baseURL: 'https://api.anthropic.com/v1',
+    apiKey: process.env.ANTHROPIC_API_KEY,
+    requiresApiKey: true,
+});
+
+registerOpenAICompatibleProvider('deepseek', {
+    baseURL: 'https://api.deepseek.com/v1',
+    apiKey: process.env.DEEPSEEK_API_KEY,
+    requiresApiKey: true,
+});
+
+registerOpenAICompatibleProvider('moonshot', {
+    baseURL: 'https://api.moonshot.ai/v1',
+    apiKey: process.env.MOONSHOT_API_KEY,
+    requiresApiKey: true,
+});
+
+registerOpenAICompatibleProvider('venice', {
+    baseURL: 'https://api.venice.ai/api/v1',
+    apiKey: process.env.VENICE_API_KEY,
+    requiresApiKey: true,
+});
+
+// e.g. Ollama at http://localhost:11434/v1 or llama.cpp at http://localhost:8080/v1
+registerOpenAICompatibleProvider('local', {
+    baseURL: process.env.LOCAL_LLM_BASE_URL,
+    apiKey: process.env.LOCAL_LLM_API_KEY,
+});
+
+// Scripted offline model, see mock-model.ts
+registerProvider('mock', {
+    configured: SIMULATED,
+    languageModel: (providerModelId) => mockLanguageModel(providerModelId),
+});
+
+// --- Built-in models ---
+
+const mon = (amount: string) => BigInt(utils.toWei(amount, 'ether'));
+
+registerModel({
+    id: 'gemini-2.5-flash',
+    name: 'Gemini 2.5 Flash',
+    description: 'Fast & efficient',
+    provider: 'google',
+    providerModelId: 'gemini-2.5-flash',
+    contextLength: 1_048_576,
+    capabilities: ['text', 'vision', 'documents', 'reasoning', 'tools'],
+    pricing: { baseFeeWei: mon('0.0005'), inputWeiPer1k: mon('0.00005'), outputWeiPer1k: mon('0.0002'), maxOutputTokens: 2048 },
+});
+
+registerModel({
+    id: 'gemini-2.5-pro',
+    name: 'Gemini 2.5 Pro',
+    description: 'Most capable',
+    provider: 'google',
+    providerModelId: 'gemini-2.5-pro',
+    contextLength: 1_048_576,
+    capabilities: ['text', 'vision', 'documents', 'reasoning', 'tools'],
+    pricing: { baseFeeWei: mon('0.001'), inputWeiPer1k: mon('0.0003'), outputWeiPer1k: mon('0.0012'), maxOutputTokens: 2048 },
+});
+
+registerModel({
+    id: 'gpt-4o',
+    name: 'GPT-4o',
+    description: 'OpenAI flagship',
+    provider: 'openai',
+    providerModelId: 'gpt-4o',
+    contextLength: 128_000,
+    capabilities: ['text', 'vision', 'tools'],
+    pricing: { baseFeeWei: mon('0.001'), inputWeiPer1k: mon('0.0005'), outputWeiPer1k: mon('0.002'), maxOutputTokens: 2048 },
+});
+
+registerModel({
+    id: 'claude-sonnet-4.5',
+    name: 'Claude Sonnet 4.5',
+    description: 'Deep reasoning',
+    provider: 'anthropic',
+    providerModelId: 'claude-sonnet-4-5-20250929',
+    contextLength: 200_000,
+    capabilities: ['text', 'vision', 'tools'],
+    pricing: { baseFeeWei: mon('0.002'), inputWeiPer1k: mon('0.003'), outputWeiPer1k: mon('0.015'), maxOutputTokens: 2048 },
+});
+
+registerModel({
+    id: 'llama-3',
+    name: 'Llama 3',
+    description: 'Self-hosted',
+    provider: 'local',
+    providerModelId: process.env.LOCAL_LLM_MODEL || 'llama3',
+    contextLength: 8_192,
+    capabilities: ['text'],
+    pricing: { baseFeeWei: mon('0.0002'), inputWeiPer1k: mon('0.00001'), outputWeiPer1k: mon('0.00004'), maxOutputTokens: 2048 },
+});
+
+registerModel({
+    id: 'deepseek-r1',
+    name: 'DeepSeek r1',
+    description: 'Open reasoning model',
+    provider: 'deepseek',
+    providerModelId: 'deepseek-reasoner',
+    contextLength: 64_000,
+    capabilities: ['text', 'reasoning'],
+    pricing: { baseFeeWei: mon('0.0005'), inputWeiPer1k: mon('0.0001'), outputWeiPer1k: mon('0.0004'), maxOutputTokens: 4096 },
+});
+
+registerModel({
+    id: 'kimi-k2',
+    name: 'Kimi k2',
+    description: 'Long-context agentic model',
+    provider: 'moonshot',
+    providerModelId: 'kimi-k2-0711-preview',
+    contextLength: 128_000,
+    capabilities: ['text', 'tools'],
+    pricing: { baseFeeWei: mon('0.0005'), inputWeiPer1k: mon('0.0001'), outputWeiPer1k: mon('0.0004'), maxOutputTokens: 2048 },
+});
+
+registerModel({
+    id: 'venice-uncensored',
+    name: 'Venice Uncensored',
+    description: 'Private, uncensored',
+    provider: 'venice',
+    providerModelId: 'venice-uncensored',
+    contextLength: 32_768,
+    capabilities: ['text'],
+    pricing: { baseFeeWei: mon('0.0005'), inputWeiPer1k: mon('0.0001'), outputWeiPer1k: mon('0.0004'), maxOutputTokens: 2048 },
+});
+
+registerModel({
+    id: 'mock',
+    name: 'Simulated',
+    description: 'Scripted replies, offline',
+    provider: 'mock',
+    providerModelId: 'mock',
+    contextLength: 1_000_000,
+    capabilities: ['text', 'vision', 'documents', 'tools'],
+    pricing: { baseFeeWei: mon('0.0001'), inputWeiPer1k: mon('0.00001'), outputWeiPer1k: mon('0.00004'), maxOutputTokens: 1024 },
+});
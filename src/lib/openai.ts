@@ -0,0 +1,283 @@
+import { NextResponse } from 'next/server';
+import { parseJsonEventStream, uiMessageChunkSchema, type UIMessageChunk } from 'ai';
+import type { ChatDataParts, RefundReport, UsageReport } from './chat-stream';
+import { DEFAULT_MODEL } from './models';
+
+// --- OpenAI-compatible API ---
+// /v1/chat/completions takes OpenAI's request body and answers in OpenAI's
+// format, so existing clients and agent frameworks work unchanged. The query
+// itself is limited, paid for and answered by the /api/chat handler: requests
+// are rewritten into its body on the way in, and its UI message stream into
+// completion chunks on the way out. A 402 is passed on as it is, so x402
+// clients get the same challenge from either endpoint.
+
+interface OpenAIMessage {
+    role?: unknown;
+    content?: unknown;
+}
+
+interface OpenAIContentPart {
+    type?: unknown;
+    text?: unknown;
+    image_url?: { url?: unknown } | string;
+    file?: { file_data?: unknown; filename?: unknown };
+}
+
+export interface CompletionRequest {
+    model?: unknown;
+    messages?: unknown;
+    stream?: unknown;
+    stream_options?: { include_usage?: unknown };
+    n?: unknown;
+    tools?: unknown;
+    functions?: unknown;
+    // OpenAI's own switch for searching models; any value turns web search on
+    web_search_options?: unknown;
+    // Extensions: incognito redaction and web search, as in the /api/chat body
+    redact?: unknown;
+    search?: unknown;
+}
+
+// What the chat handler needs, plus how the client wants it back
+export interface TranslatedRequest {
+    model: string;
+    stream: boolean;
+    includeUsage: boolean;
+    chatBody: { model: string; messages: unknown[]; redact: boolean; search: boolean };
+}
+
+const ROLES: Record<string, string> = { system: 'system', developer: 'system', user: 'user', assistant: 'assistant' };
+
+// Attachments must be inline data URLs; anything else keeps its URL so the chat handler refuses it by name
+function filePart(url: unknown, filename?: unknown) {
+    const link = typeof url === 'string' ? url : '';
+    return {
+        type: 'file',
+        mediaType: link.match(/^data:([^;,]+);base64,/)?.[1] ?? 'application/octet-stream',
+        filename: typeof filename === 'string' ? filename : undefined,
+        url: link,
+    };
+}
+
+function messageParts(content: unknown) {
+    if (typeof content === 'string') return [{ type: 'text', text: content }];
+    if (!Array.isArray(content)) return [{ type: 'text', text: '' }];
+
+    const parts = content as OpenAIContentPart[];
+    const text = parts.filter(part => part?.type === 'text' && typeof part.text === 'string').map(part => part.text).join('\n');
+    const files = parts.flatMap(part => {
+        if (part?.type === 'image_url') return [filePart(typeof part.image_url === 'string' ? part.image_url : part.image_url?.url)];
+        if (part?.type === 'file') return [filePart(part.file?.file_data, part.file?.filename)];
+        return [];
+    });
+    return [{ type: 'text', text }, ...files];
+}
+
+// Tool and function messages are dropped with the tools they answer
+export function toChatRequest(body: CompletionRequest): TranslatedRequest | { error: string } {
+    if (!Array.isArray(body.messages)) return { error: 'messages must be an array' };
+    if (body.n !== undefined && body.n !== null && body.n !== 1) return { error: 'Only one choice (n=1) is supported' };
+    if ((Array.isArray(body.tools) && body.tools.length > 0) || (Array.isArray(body.functions) && body.functions.length > 0)) {
+        return { error: 'Tool calling is not supported' };
+    }
+
+    const model = typeof body.model === 'string' && body.model ? body.model : DEFAULT_MODEL;
+    const messages = (body.messages as OpenAIMessage[])
+        .filter(message => typeof message?.role === 'string' && ROLES[message.role])
+        .map(message => ({ role: ROLES[message.role as string], parts: messageParts(message.content) }));
+
+    return {
+        model,
+        stream: body.stream === true,
+        includeUsage: body.stream_options?.include_usage === true,
+        chatBody: {
+            model,
+            messages,
+            redact: body.redact === true,
+            search: body.search === true || (body.web_search_options !== undefined && body.web_search_options !== null),
+        },
+    };
+}
+
+// --- Errors ---
+
+const ERROR_TYPES: Record<number, string> = {
+    400: 'invalid_request_error',
+    401: 'authentication_error',
+    409: 'conflict_error',
+    413: 'invalid_request_error',
+    429: 'rate_limit_error',
+};
+
+// Headers of the chat handler's reply worth keeping when it is rewritten
+const PASSED_HEADERS = ['Retry-After', 'X-PAYMENT-RESPONSE', 'X-Credit-Balance', 'X-Redactions', 'X-Request-Id', 'Access-Control-Expose-Headers'];
+
+function passedHeaders(from: Headers): Headers {
+    const headers = new Headers();
+    for (const name of PASSED_HEADERS) {
+        const value = from.get(name);
+        if (value !== null) headers.set(name, value);
+    }
+    return headers;
+}
+
+// OpenAI's error shape; whatever else our error carried (retryAfterSeconds, refund, requestId) stays inside it
+export function openAIError(message: string, status: number, extra: Record<string, unknown> = {}, headers?: Headers) {
+    return NextResponse.json(
+        { error: { message, type: ERROR_TYPES[status] ?? 'api_error', code: null, ...extra } },
+        { status, headers }
+    );
+}
+
+// A reply of the chat handler that isn't an answer. 402 challenges stay x402.
+export async function toOpenAIError(response: Response): Promise<Response> {
+    if (response.status === 402) return response;
+    const { error, ...extra } = await response.json().catch(() => ({ error: response.statusText }));
+    return openAIError(String(error), response.status, extra, passedHeaders(response.headers));
+}
+
+// --- Answers ---
+
+type ChatChunk = UIMessageChunk<unknown, ChatDataParts>;
+
+interface Delta {
+    content?: string;
+    reasoning_content?: string;
+}
+
+// How an answer ended: billed with usage, or refunded with the reason
+interface AnswerEnd {
+    usage?: UsageReport;
+    refund?: RefundReport;
+    error?: string;
+    // Grounded answers: source URLs, citation [n] being citations[n - 1]
+    citations: string[];
+}
+
+export interface CompletionMeta {
+    id: string;
+    model: string;
+    created: number;
+    // The model's output cap, to tell an answer that was cut off
+    maxOutputTokens?: number;
+}
+
+// Reads the chat handler's stream, handing on text and reasoning as they arrive
+async function readAnswer(body: ReadableStream<Uint8Array>, onDelta: (delta: Delta) => void): Promise<AnswerEnd> {
+    const end: AnswerEnd = { citations: [] };
+    const reader = parseJsonEventStream({ stream: body, schema: uiMessageChunkSchema }).getReader();
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) return end;
+        if (!value.success) throw value.error;
+
+        const chunk = value.value as ChatChunk;
+        if (chunk.type === 'text-delta') onDelta({ content: chunk.delta });
+        else if (chunk.type === 'reasoning-delta') onDelta({ reasoning_content: chunk.delta });
+        else if (chunk.type === 'source-url') end.citations.push(chunk.url);
+        else if (chunk.type === 'error') end.error = chunk.errorText;
+        else if (chunk.type === 'data-usage') end.usage = chunk.data;
+        else if (chunk.type === 'data-refund') end.refund = chunk.data;
+    }
+}
+
+function completionUsage(usage: UsageReport) {
+    return {
+        prompt_tokens: usage.inputTokens,
+        completion_tokens: usage.outputTokens,
+        total_tokens: usage.inputTokens + usage.outputTokens,
+    };
+}
+
+function finishReason(end: AnswerEnd, meta: CompletionMeta) {
+    return meta.maxOutputTokens !== undefined && (end.usage?.outputTokens ?? 0) >= meta.maxOutputTokens ? 'length' : 'stop';
+}
+
+// A failed answer was refunded; the client learns why and where the money went
+function failure(end: AnswerEnd) {
+    return {
+        message: end.refund?.reason ?? end.error ?? 'The model failed to answer this query.',
+        type: 'api_error',
+        code: 'answer_failed',
+        refund: end.refund,
+    };
+}
+
+// Non-streaming: the whole answer as one chat.completion object
+export async function completionResponse(response: Response, meta: CompletionMeta): Promise<Response> {
+    let content = '';
+    let reasoning = '';
+    const end = await readAnswer(response.body!, delta => {
+        content += delta.content ?? '';
+        reasoning += delta.reasoning_content ?? '';
+    });
+    const headers = passedHeaders(response.headers);
+
+    if (!end.usage) {
+        return NextResponse.json({ error: failure(end) }, { status: 502, headers });
+    }
+    return NextResponse.json({
+        id: meta.id,
+        object: 'chat.completion',
+        created: meta.created,
+        model: meta.model,
+        choices: [{
+            index: 0,
+            message: { role: 'assistant', content, ...(reasoning && { reasoning_content: reasoning }) },
+            finish_reason: finishReason(end, meta),
+        }],
+        usage: completionUsage(end.usage),
+        ...(end.citations.length > 0 && { citations: end.citations }),
+    }, { headers });
+}
+
+// Streaming: chat.completion.chunk events, an optional usage chunk, then [DONE]
+export function completionStream(response: Response, meta: CompletionMeta, includeUsage: boolean): Response {
+    const encoder = new TextEncoder();
+    const chunk = (fields: Record<string, unknown>) => ({
+        id: meta.id,
+        object: 'chat.completion.chunk',
+        created: meta.created,
+        model: meta.model,
+        ...fields,
+    });
+
+    // A client that hangs up also aborts the chat request, which bills what was streamed
+    let cancelled = false;
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (data: unknown) => {
+                if (!cancelled) controller.enqueue(encoder.encode(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`));
+            };
+
+            send(chunk({ choices: [{ index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null }] }));
+            try {
+                const end = await readAnswer(response.body!, delta => {
+                    send(chunk({ choices: [{ index: 0, delta, finish_reason: null }] }));
+                });
+                if (end.usage) {
+                    send(chunk({
+                        choices: [{ index: 0, delta: {}, finish_reason: finishReason(end, meta) }],
+                        ...(end.citations.length > 0 && { citations: end.citations }),
+                    }));
+                    if (includeUsage) send(chunk({ choices: [], usage: completionUsage(end.usage) }));
+                } else {
+                    send({ error: failure(end) });
+                }
+            } catch {
+                // The chat handler's stream broke off; it refunds the query itself
+                send({ error: failure({ citations: [] }) });
+            }
+            send('[DONE]');
+            if (!cancelled) controller.close();
+        },
+        cancel() {
+            cancelled = true;
+        },
+    });
+
+    const headers = passedHeaders(response.headers);
+    headers.set('Content-Type', 'text/event-stream');
+    headers.set('Cache-Control', 'no-cache');
+    return new Response(stream, { headers });
+}
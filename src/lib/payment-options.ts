@@ -0,0 +1,112 @@
+import { MONAD_TESTNET_NETWORK, getNetwork, registerNetwork } from './chain';
+
+// --- Payment options ---
+// Every asset a query can be paid in: native MON by default, plus whatever
+// PAYMENT_OPTIONS configures (ERC-20 tokens on Monad, other EVM chains).
+// Prices are set in MON and converted with each option's `unitsPerMon` rate.
+//
+// PAYMENT_OPTIONS is a JSON array, e.g.
+// [{ "network": "eip155:84532", "chainName": "Base Sepolia", "rpcUrls": ["https://sepolia.base.org"],
+//    "asset": "0x036CbD53842c5426634e7929541eC2318f3dCF7e", "name": "USDC", "version": "2", "symbol": "USDC",
+//    "decimals": 6, "unitsPerMon": "3000000" }]
+
+export interface PaymentOption {
+    network: string;
+    // 'native' or the ERC-20 contract address
+    asset: string;
+    name: string;
+    symbol: string;
+    decimals: number;
+    // Smallest units of this asset worth one MON
+    unitsPerMon: bigint;
+    // EIP-712 domain version of a token that takes EIP-3009 authorizations; `name` is then its domain name
+    version?: string;
+}
+
+interface PaymentOptionConfig {
+    network: string;
+    chainName?: string;
+    // Server-side endpoints, in order; the first is given to wallets unless publicRpcUrl is set
+    rpcUrls?: string[];
+    publicRpcUrl?: string;
+    explorerUrl?: string;
+    nativeSymbol?: string;
+    asset: string;
+    name: string;
+    symbol: string;
+    decimals: number;
+    unitsPerMon: string;
+    version?: string;
+}
+
+const WEI_PER_MON = BigInt('1000000000000000000');
+
+const NATIVE_MON: PaymentOption = {
+    network: MONAD_TESTNET_NETWORK,
+    asset: 'native',
+    name: 'MON',
+    symbol: 'MON',
+    decimals: 18,
+    unitsPerMon: WEI_PER_MON,
+};
+
+function loadPaymentOptions(): PaymentOption[] {
+    const raw = process.env.PAYMENT_OPTIONS;
+    if (!raw) return [NATIVE_MON];
+
+    const configs = JSON.parse(raw) as PaymentOptionConfig[];
+    const options = configs.map((config): PaymentOption => {
+        if (!getNetwork(config.network)) {
+            if (!config.rpcUrls?.length) throw new Error(`PAYMENT_OPTIONS: no rpcUrls for unknown network ${config.network}`);
+            registerNetwork({
+                network: config.network,
+                name: config.chainName || config.network,
+                rpcUrls: config.rpcUrls,
+                publicRpcUrl: config.publicRpcUrl || config.rpcUrls[0],
+                explorerUrl: config.explorerUrl,
+                nativeCurrency: { name: config.nativeSymbol || 'ETH', symbol: config.nativeSymbol || 'ETH', decimals: 18 },
+            });
+        }
+        return {
+            network: config.network,
+            asset: config.asset === 'native' ? 'native' : config.asset.toLowerCase(),
+            name: config.name,
+            symbol: config.symbol,
+            decimals: config.decimals,
+            unitsPerMon: BigInt(config.unitsPerMon),
+            version: config.version,
+        };
+    });
+
+    // Native MON is always accepted, and listed first unless configured explicitly
+    return options.some(option => option.network === NATIVE_MON.network && option.asset === 'native')
+        ? options
+        : [NATIVE_MON, ...options];
+}
+
+const options = loadPaymentOptions();
+
+export function paymentOptions(): PaymentOption[] {
+    return options;
+}
+
+export function findPaymentOption(network: string, asset: string): PaymentOption | undefined {
+    return options.find(option => option.network === network && option.asset === asset.toLowerCase());
+}
+
+// Price in the option's smallest units, rounded up
+export function priceIn(option: PaymentOption, amountWei: bigint): bigint {
+    return (amountWei * option.unitsPerMon + WEI_PER_MON - BigInt(1)) / WEI_PER_MON;
+}
+
+// Value of an amount of this option in MON wei, rounded down
+export function valueInWei(option: PaymentOption, amount: bigint): bigint {
+    return (amount * WEI_PER_MON) / option.unitsPerMon;
+}
+
+export function formatAmount(amount: bigint, decimals: number, symbol: string): string {
+    const base = BigInt(10) ** BigInt(decimals);
+    const whole = amount / base;
+    const fraction = (amount % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+    return `${whole}${fraction ? `.${fraction}` : ''} ${symbol}`;
+}
@@ -0,0 +1,191 @@
+import { NextResponse } from 'next/server';
+import { utils } from 'web3';
+import { getNetwork } from './chain';
+import { outputSchema, type PaidResource } from './discovery';
+import { isRedeemed, redeemPayment, type PaymentPurpose } from './ledger';
+import { logger } from './logger';
+import { type VerificationFailure, recordVerificationFailure } from './metrics';
+import { findPaymentOption, formatAmount, paymentOptions, priceIn, valueInWei } from './payment-options';
+import type { Session } from './session';
+import { decodePayment } from './x402/encoding';
+import { transactionHashOf } from './x402/facilitator';
+import { getFacilitator } from './x402/facilitator-client';
+import {
+    X402_VERSION,
+    type PaymentRequiredResponse,
+    type PaymentRequirements,
+    type SettleResponse,
+} from './x402/types';
+
+// --- x402 payment handling shared by paid routes ---
+
+// Payments older than this are refused. Also advertised as maxTimeoutSeconds.
+export const PAYMENT_MAX_AGE_SECONDS = Number(process.env.PAYMENT_MAX_AGE_SECONDS || 86400);
+
+export function formatMon(wei: bigint): string {
+    return `${utils.fromWei(wei, 'ether')} MON`;
+}
+
+// One `exact` requirement per configured payment option, each priced in its own asset.
+// The description defaults to the resource's own.
+export function paymentRequirements(
+    serverWallet: string,
+    options: { resource: PaidResource; description?: string; amountWei: bigint; extra?: Record<string, unknown> }
+): PaymentRequirements[] {
+    const { resource } = options;
+    return paymentOptions().map((option) => {
+        const amount = priceIn(option, options.amountWei);
+        const network = getNetwork(option.network)!;
+        return {
+            scheme: 'exact',
+            network: option.network,
+            maxAmountRequired: amount.toString(),
+            resource: `${process.env.NEXT_PUBLIC_APP_URL}${resource.path}`,
+            description: options.description ?? resource.description,
+            mimeType: resource.mimeType,
+            payTo: serverWallet,
+            maxTimeoutSeconds: PAYMENT_MAX_AGE_SECONDS,
+            asset: option.asset, // 'native' or the ERC-20 contract
+            outputSchema: outputSchema(resource),
+            extra: {
+                // What the price covers, e.g. the searches of a grounded query
+                ...options.extra,
+                recipientAddress: serverWallet,
+                name: option.name,
+                // With the name, the EIP-712 domain of tokens that take EIP-3009 authorizations
+                version: option.version,
+                symbol: option.symbol,
+                decimals: option.decimals,
+                priceFormatted: formatAmount(amount, option.decimals, option.symbol),
+                // Lets wallets add and switch to the chain
+                chainName: network.name,
+                rpcUrl: network.publicRpcUrl,
+                explorerUrl: network.explorerUrl,
+                nativeCurrency: network.nativeCurrency,
+            },
+        };
+    });
+}
+
+// With retryAfterSeconds set, the client may resend the same payment after that long
+export function paymentRequired(error: string, accepts: PaymentRequirements[], retryAfterSeconds?: number) {
+    const body: PaymentRequiredResponse = {
+        x402Version: X402_VERSION,
+        error,
+        accepts,
+        retryable: retryAfterSeconds !== undefined,
+        retryAfterSeconds,
+    };
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (retryAfterSeconds !== undefined) headers['Retry-After'] = String(retryAfterSeconds);
+
+    return new NextResponse(JSON.stringify(body), { status: 402, headers });
+}
+
+export function paymentRejected(reason: string, accepts: PaymentRequirements[], retryAfterSeconds?: number) {
+    return retryAfterSeconds !== undefined
+        ? paymentRequired(`Payment is not final yet: ${reason}. Retry the same payment shortly.`, accepts, retryAfterSeconds)
+        : paymentRequired(`Payment verification failed: ${reason}.`, accepts);
+}
+
+type PaymentOutcome =
+    // amountWei is what the payment is worth in MON, whatever asset it was made in
+    | { ok: true; settlement: SettleResponse; requirements: PaymentRequirements; amountWei: bigint; payer: string }
+    | { ok: false; response: NextResponse };
+
+// Verifies, settles and redeems the X-PAYMENT header. With a session, the
+// payment must come from the signed-in wallet; without one, whoever signed the
+// payment is the payer. Either way it can only ever be redeemed once.
+export async function settlePayment(
+    paymentHeader: string,
+    accepts: PaymentRequirements[],
+    session: Session | null,
+    redemption: { purpose: PaymentPurpose; model?: string }
+): Promise<PaymentOutcome> {
+    const reject = (response: NextResponse): PaymentOutcome => ({ ok: false, response });
+    // Final rejections are logged and counted by code for the operator dashboard;
+    // pending payments will be retried
+    const refuse = async (failure: VerificationFailure, reason: string, retryAfterSeconds?: number): Promise<PaymentOutcome> => {
+        if (retryAfterSeconds === undefined) {
+            logger.info({ module: 'payments', failure, reason }, '❌ Payment refused');
+            await recordVerificationFailure(failure);
+        }
+        return reject(paymentRejected(reason, accepts, retryAfterSeconds));
+    };
+
+    const payment = decodePayment(paymentHeader);
+    if (!payment) {
+        await recordVerificationFailure('invalid-payload');
+        return reject(paymentRequired('X-PAYMENT header is not a valid x402 payment payload', accepts));
+    }
+
+    // Anyone can see a mined transfer's hash, so only a session proves who sent it.
+    // Without one, the payment itself has to be signed by the payer.
+    if (!session && 'transaction' in payment.payload) {
+        return refuse('unproven-payer', 'sign in, or pay with a signed transfer or authorization, to prove who sent this transaction');
+    }
+
+    // x402 payloads name the network but not the asset, so try each option on it
+    const candidates = accepts.filter(option => option.scheme === payment.scheme && option.network === payment.network);
+    if (candidates.length === 0) {
+        return refuse('unsupported-network', `payments on ${payment.network} are not accepted`);
+    }
+
+    // Cheap replay check before spending RPC calls on verification. An
+    // authorization has no hash yet; the token itself refuses its reuse.
+    const txHash = transactionHashOf(payment.payload);
+    if (txHash && await isRedeemed(txHash)) {
+        return refuse('already-redeemed', 'this transaction has already been redeemed');
+    }
+
+    const facilitator = getFacilitator();
+
+    let requirements = candidates[0];
+    let verification = await facilitator.verify(payment, requirements);
+    for (const candidate of candidates.slice(1)) {
+        // Stop on a pending payment too: another asset won't make it mined sooner
+        if (verification.isValid || verification.retryAfterSeconds !== undefined) break;
+        requirements = candidate;
+        verification = await facilitator.verify(payment, candidate);
+    }
+    if (!verification.isValid) {
+        return refuse('verification-failed', verification.invalidReason || 'invalid payment', verification.retryAfterSeconds);
+    }
+
+    if (session && verification.payer?.toLowerCase() !== session.address.toLowerCase()) {
+        logger.info({ module: 'payments', session: session.address, payer: verification.payer }, '❌ Payer mismatch');
+        return refuse('payer-mismatch', 'the payment was not sent from your signed-in wallet');
+    }
+    if (!session && !verification.payer) {
+        return refuse('unknown-payer', 'the facilitator did not say who sent the payment');
+    }
+
+    const settlement = await facilitator.settle(payment, requirements);
+    if (!settlement.success) {
+        return refuse('settlement-failed', settlement.errorReason || 'settlement failed', settlement.retryAfterSeconds);
+    }
+
+    const payer = session?.address ?? utils.toChecksumAddress(verification.payer!);
+
+    // Claim the hash atomically so a concurrent request can't reuse it
+    const amount = BigInt(settlement.amount || requirements.maxAmountRequired);
+    const amountWei = valueInWei(findPaymentOption(requirements.network, requirements.asset)!, amount);
+    const redeemed = await redeemPayment({
+        txHash: settlement.transaction,
+        payer,
+        network: requirements.network,
+        asset: requirements.asset,
+        amount: amount.toString(),
+        amountWei: amountWei.toString(),
+        blockNumber: settlement.blockNumber ?? 0,
+        purpose: redemption.purpose,
+        model: redemption.model,
+        redeemedAt: new Date().toISOString(),
+    });
+
+    if (!redeemed) {
+        return refuse('already-redeemed', 'this transaction has already been redeemed');
+    }
+
+    return { ok: true, settlement, requirements, amountWei, payer };
+}
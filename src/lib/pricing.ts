@@ -0,0 +1,135 @@
+import type { FileUIPart } from 'ai';
+import { attachmentBytes, imageDimensions, messageFiles, pdfPageCount } from './attachments';
+import type { ModelEntry, ModelPricing } from './models';
+
+// --- Token-metered pricing ---
+// A query is quoted up front as a base fee plus estimated input tokens plus the
+// output token cap. Once the model finishes, the actual cost is worked out from
+// the reported usage and anything paid above it is returned as credit. Grounded
+// queries also pay for the searches they may run, see quoteQuery.
+
+export const SYSTEM_PROMPT = 'You are a helpful AI assistant. Provide clear, accurate, and concise responses.';
+
+export interface Quote {
+    model: string;
+    pricing: ModelPricing;
+    inputTokens: number;
+    maxOutputTokens: number;
+    // Grounded queries only: searches allowed, the fee for each, and the input
+    // and output tokens the steps running them may add
+    searches: number;
+    searchFeeWei: bigint;
+    searchInputTokens: number;
+    searchOutputTokens: number;
+    amountWei: bigint;
+}
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    // Web searches run by a grounded query
+    searches?: number;
+}
+
+export interface SearchPricing {
+    searches: number;
+    searchFeeWei: bigint;
+}
+
+// Rough count: about four characters per token, plus per-message overhead
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function messageText(message: { content?: unknown; parts?: unknown }): string {
+    if (typeof message.content === 'string') return message.content;
+    const parts = Array.isArray(message.parts) ? message.parts : Array.isArray(message.content) ? message.content : [];
+    return parts.map((part: { text?: unknown }) => (typeof part?.text === 'string' ? part.text : '')).join('');
+}
+
+// Images are cut into 768px tiles of 258 tokens each, small ones taking a single
+// tile, and PDF pages are read as one image each. That is Gemini's rule; other
+// vision models land close to it. Text files count as their text.
+const TILE_TOKENS = 258;
+const TILE_SIDE = 768;
+const UNKNOWN_IMAGE_TILES = 9;
+
+export function estimateAttachmentTokens(part: FileUIPart): number {
+    const bytes = attachmentBytes(part);
+    if (part.mediaType === 'application/pdf') return pdfPageCount(bytes) * TILE_TOKENS;
+    if (!part.mediaType.startsWith('image/')) return estimateTokens(new TextDecoder().decode(bytes));
+
+    const size = imageDimensions(bytes, part.mediaType);
+    if (!size) return UNKNOWN_IMAGE_TILES * TILE_TOKENS;
+    if (size.width <= TILE_SIDE / 2 && size.height <= TILE_SIDE / 2) return TILE_TOKENS;
+    return Math.ceil(size.width / TILE_SIDE) * Math.ceil(size.height / TILE_SIDE) * TILE_TOKENS;
+}
+
+export function estimateInputTokens(messages: Array<{ content?: unknown; parts?: unknown }>): number {
+    return messages.reduce(
+        (total, message) => total
+            + estimateTokens(messageText(message))
+            + messageFiles(message).reduce((sum, part) => sum + estimateAttachmentTokens(part), 0)
+            + MESSAGE_OVERHEAD_TOKENS,
+        estimateTokens(SYSTEM_PROMPT)
+    );
+}
+
+function tokenCost(tokens: number, weiPer1k: bigint): bigint {
+    return (BigInt(tokens) * weiPer1k + BigInt(999)) / BigInt(1000);
+}
+
+// Results of one search as the model reads them, and the tool call asking for it
+const SEARCH_RESULT_TOKENS = 1_000;
+const SEARCH_CALL_TOKENS = 50;
+
+// Each search is one more model step, which reads the whole prompt again along
+// with every result found so far, so the quote allows for that many steps.
+export function quoteQuery(
+    model: ModelEntry,
+    messages: Array<{ content?: unknown; parts?: unknown }>,
+    search?: SearchPricing
+): Quote {
+    const { pricing } = model;
+    const inputTokens = estimateInputTokens(messages);
+    const searches = search?.searches ?? 0;
+    const searchFeeWei = search?.searchFeeWei ?? BigInt(0);
+
+    let searchInputTokens = 0;
+    for (let step = 1; step <= searches; step++) searchInputTokens += inputTokens + step * SEARCH_RESULT_TOKENS;
+    const searchOutputTokens = searches * SEARCH_CALL_TOKENS;
+
+    return {
+        model: model.id,
+        pricing,
+        inputTokens,
+        maxOutputTokens: pricing.maxOutputTokens,
+        searches,
+        searchFeeWei,
+        searchInputTokens,
+        searchOutputTokens,
+        amountWei: pricing.baseFeeWei
+            + tokenCost(inputTokens + searchInputTokens, pricing.inputWeiPer1k)
+            + tokenCost(pricing.maxOutputTokens + searchOutputTokens, pricing.outputWeiPer1k)
+            + BigInt(searches) * searchFeeWei,
+    };
+}
+
+// The last step of a grounded query reads every result as well
+export function fitsContext(model: ModelEntry, quote: Quote): boolean {
+    return quote.inputTokens + quote.searches * SEARCH_RESULT_TOKENS + quote.maxOutputTokens <= model.contextLength;
+}
+
+// What the query actually cost, never more than the quote
+export function actualCost(quote: Quote, usage: TokenUsage): bigint {
+    const { pricing } = quote;
+    const outputTokens = Math.min(usage.outputTokens, quote.maxOutputTokens + quote.searchOutputTokens);
+    const searches = Math.min(usage.searches ?? 0, quote.searches);
+    const cost = pricing.baseFeeWei
+        + tokenCost(usage.inputTokens, pricing.inputWeiPer1k)
+        + tokenCost(outputTokens, pricing.outputWeiPer1k)
+        + BigInt(searches) * quote.searchFeeWei;
+    return cost < quote.amountWei ? cost : quote.amountWei;
+}
@@ -0,0 +1,200 @@
+import { createHash } from 'crypto';
+import type { FileUIPart } from 'ai';
+import { NextRequest, NextResponse } from 'next/server';
+import { attachmentSize } from './attachments';
+
+// --- Rate limiting and request size limits ---
+// Fixed-window counters keep one client from flooding /api/chat: requests per
+// IP and per wallet, and distinct payments that failed verification, since each
+// of those costs RPC round-trips. Counters live in a RateLimitStore; the default
+// in-memory store is per process, so a multi-instance deployment should plug a
+// shared one in with setRateLimitStore. A limit of 0 turns that check off.
+
+export interface RateLimitStore {
+    // Counts one more hit on `key` in its current window
+    increment(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+    get(key: string): Promise<{ count: number; resetAt: number } | undefined>;
+}
+
+export interface RateLimit {
+    name: string;
+    limit: number;
+    windowMs: number;
+}
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+export const REQUESTS_PER_IP: RateLimit = {
+    name: 'ip',
+    limit: Number(process.env.RATE_LIMIT_IP_PER_MINUTE || 30),
+    windowMs: MINUTE,
+};
+
+export const REQUESTS_PER_WALLET: RateLimit = {
+    name: 'wallet',
+    limit: Number(process.env.RATE_LIMIT_WALLET_PER_MINUTE || 20),
+    windowMs: MINUTE,
+};
+
+// Distinct payments per client that failed verification
+export const UNVERIFIED_PAYMENTS: RateLimit = {
+    name: 'unverified',
+    limit: Number(process.env.RATE_LIMIT_UNVERIFIED_PAYMENTS_PER_HOUR || 10),
+    windowMs: HOUR,
+};
+
+export function createMemoryStore(): RateLimitStore {
+    const windows = new Map<string, { count: number; resetAt: number }>();
+
+    // Expired windows are dropped as new ones are opened, so the map stays bounded by active clients
+    const sweep = (now: number) => {
+        for (const [key, window] of windows) {
+            if (window.resetAt <= now) windows.delete(key);
+        }
+    };
+
+    return {
+        increment: async (key, windowMs) => {
+            const now = Date.now();
+            let window = windows.get(key);
+            if (!window || window.resetAt <= now) {
+                if (windows.size > 10_000) sweep(now);
+                window = { count: 0, resetAt: now + windowMs };
+                windows.set(key, window);
+            }
+            window.count++;
+            return { ...window };
+        },
+        get: async (key) => {
+            const window = windows.get(key);
+            return window && window.resetAt > Date.now() ? { ...window } : undefined;
+        },
+    };
+}
+
+let store: RateLimitStore = createMemoryStore();
+
+export function setRateLimitStore(next: RateLimitStore) {
+    store = next;
+}
+
+const secondsUntil = (resetAt: number) => Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+
+// Counts a hit. Returns the seconds to wait when it goes over the limit, otherwise null.
+export async function consume(rateLimit: RateLimit, key: string): Promise<number | null> {
+    if (rateLimit.limit <= 0) return null;
+    const window = await store.increment(`${rateLimit.name}:${key}`, rateLimit.windowMs);
+    return window.count > rateLimit.limit ? secondsUntil(window.resetAt) : null;
+}
+
+// Like consume, without counting a hit
+export async function exhausted(rateLimit: RateLimit, key: string): Promise<number | null> {
+    if (rateLimit.limit <= 0) return null;
+    const window = await store.get(`${rateLimit.name}:${key}`);
+    return window && window.count >= rateLimit.limit ? secondsUntil(window.resetAt) : null;
+}
+
+// Counts an X-PAYMENT that failed verification. Resending the same one, e.g.
+// while waiting for confirmations, doesn't count again.
+export async function recordUnverifiedPayment(client: string, paymentHeader: string) {
+    if (UNVERIFIED_PAYMENTS.limit <= 0) return;
+    const digest = createHash('sha256').update(paymentHeader).digest('hex');
+    const seen = await store.increment(`unverified-payment:${client}:${digest}`, UNVERIFIED_PAYMENTS.windowMs);
+    if (seen.count === 1) await consume(UNVERIFIED_PAYMENTS, client);
+}
+
+// Proxies in front of the app that append to X-Forwarded-For. Hops to the left
+// of the ones they added were written by the client and can't be trusted.
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS || 1));
+
+// The address the outermost trusted proxy saw the request come from: the
+// TRUSTED_PROXY_HOPS-th hop of X-Forwarded-For, counted from the right
+export function clientIp(request: NextRequest): string {
+    const hops = (request.headers.get('x-forwarded-for') ?? '').split(',').map(hop => hop.trim()).filter(Boolean);
+    return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)] || 'unknown';
+}
+
+// Requests a route already counted against REQUESTS_PER_IP before handing them
+// on, as /v1/chat/completions does to /api/chat, so they aren't counted twice
+const countedPerIp = new WeakSet<Request>();
+
+export function markCountedPerIp(request: Request) {
+    countedPerIp.add(request);
+}
+
+export function isCountedPerIp(request: Request): boolean {
+    return countedPerIp.has(request);
+}
+
+export function tooManyRequests(error: string, retryAfterSeconds: number) {
+    return NextResponse.json(
+        { error, retryAfterSeconds },
+        { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+    );
+}
+
+// --- Request size limits ---
+
+export const MAX_ATTACHMENT_BYTES = Number(process.env.MAX_ATTACHMENT_BYTES || 4_000_000);
+export const MAX_ATTACHMENTS = Number(process.env.MAX_ATTACHMENTS || 4);
+// By default the text plus every attachment allowed, base64-encoded in the JSON body
+export const MAX_REQUEST_BYTES = Number(process.env.MAX_REQUEST_BYTES || 1_000_000 + Math.ceil((MAX_ATTACHMENTS * MAX_ATTACHMENT_BYTES * 4) / 3));
+export const MAX_MESSAGE_CHARS = Number(process.env.MAX_MESSAGE_CHARS || 32_000);
+export const MAX_HISTORY_MESSAGES = Number(process.env.MAX_HISTORY_MESSAGES || 100);
+export const MAX_HISTORY_CHARS = Number(process.env.MAX_HISTORY_CHARS || 200_000);
+
+// Returns why the conversation is too large, or null when it fits
+export function checkConversationSize(texts: string[]): string | null {
+    if (MAX_HISTORY_MESSAGES > 0 && texts.length > MAX_HISTORY_MESSAGES) {
+        return `Conversations are limited to ${MAX_HISTORY_MESSAGES} messages`;
+    }
+    if (MAX_MESSAGE_CHARS > 0 && texts.some(text => text.length > MAX_MESSAGE_CHARS)) {
+        return `Messages are limited to ${MAX_MESSAGE_CHARS} characters`;
+    }
+    const total = texts.reduce((sum, text) => sum + text.length, 0);
+    if (MAX_HISTORY_CHARS > 0 && total > MAX_HISTORY_CHARS) {
+        return `Conversations are limited to ${MAX_HISTORY_CHARS} characters in total`;
+    }
+    return null;
+}
+
+// Returns why the conversation's attachments are too large, or null when they fit
+export function checkAttachmentSize(files: FileUIPart[]): string | null {
+    if (MAX_ATTACHMENTS > 0 && files.length > MAX_ATTACHMENTS) {
+        return `Conversations are limited to ${MAX_ATTACHMENTS} attachments`;
+    }
+    const tooLarge = MAX_ATTACHMENT_BYTES > 0 && files.find(file => attachmentSize(file) > MAX_ATTACHMENT_BYTES);
+    if (tooLarge) {
+        return `${tooLarge.filename || 'An attachment'} is larger than ${MAX_ATTACHMENT_BYTES} bytes`;
+    }
+    return null;
+}
+
+// The body as text, or null once it's larger than MAX_REQUEST_BYTES. An
+// oversized Content-Length is refused unread, and the rest is read no further
+// than the limit.
+export async function readBody(request: Request): Promise<string | null> {
+    if (MAX_REQUEST_BYTES <= 0) return request.text();
+    if (Number(request.headers.get('content-length')) > MAX_REQUEST_BYTES) return null;
+    if (!request.body) return '';
+
+    const reader = request.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.byteLength;
+        if (size > MAX_REQUEST_BYTES) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+export function payloadTooLarge(error: string) {
+    return NextResponse.json({ error }, { status: 413 });
+}
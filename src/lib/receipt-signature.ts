@@ -0,0 +1,53 @@
+import { eth } from 'web3';
+
+// --- Signed receipts ---
+// Each paid query ends with a receipt the server signs with its receipt key
+// (EIP-191 personal_sign over the text below), so a user can prove what was
+// paid and billed without trusting our records. Shared by the server, which
+// signs, and the browser, which verifies without asking the server.
+
+export interface Receipt {
+    id: string;
+    issuedAt: string;
+    // Billed for an answer, or refunded in full because the answer failed
+    status: 'billed' | 'refunded';
+    payer: string;
+    method: 'x402' | 'credit';
+    // x402 only: the settled transfer
+    txHash?: string;
+    network?: string;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    // MON wei paid up front, billed, and given back as credit or refund
+    chargedWei: string;
+    costWei: string;
+    returnedWei: string;
+    // Address of the key that signed the receipt
+    signer: string;
+}
+
+export interface SignedReceipt extends Receipt {
+    signature: string;
+}
+
+// Signed in this order; changing it invalidates every receipt issued so far
+export const RECEIPT_FIELDS = [
+    'id', 'issuedAt', 'status', 'payer', 'method', 'txHash', 'network', 'model',
+    'inputTokens', 'outputTokens', 'chargedWei', 'costWei', 'returnedWei', 'signer',
+] as const satisfies ReadonlyArray<keyof Receipt>;
+
+// The text that is signed: one `field: value` line per field, absent ones left empty
+export function receiptMessage(receipt: Receipt): string {
+    return ['Private AI payment receipt', ...RECEIPT_FIELDS.map(field => `${field}: ${receipt[field] ?? ''}`)].join('\n');
+}
+
+// True if `signer` signed this exact receipt
+export function verifyReceipt(receipt: SignedReceipt, signer: string): boolean {
+    if (receipt.signer?.toLowerCase() !== signer.toLowerCase()) return false;
+    try {
+        return eth.accounts.recover(receiptMessage(receipt), receipt.signature).toLowerCase() === signer.toLowerCase();
+    } catch {
+        return false;
+    }
+}
@@ -0,0 +1,71 @@
+import { randomBytes } from 'crypto';
+import { eth } from 'web3';
+import { logger } from './logger';
+import { RECEIPT_FIELDS, type Receipt, type SignedReceipt, receiptMessage } from './receipt-signature';
+import { collection } from './storage';
+
+// --- Receipt issuing ---
+// Signs receipts with RECEIPT_SIGNING_KEY and keeps them so users can list and
+// export theirs. Without the variable, a key is generated once and kept in
+// DATA_DIR, which suits development only: receipts can't be verified after
+// the data directory is lost.
+
+type Account = ReturnType<typeof eth.accounts.privateKeyToAccount>;
+
+const receipts = collection<SignedReceipt>('receipts');
+const keys = collection<{ privateKey: string; createdAt: string }>('receipt-key');
+
+let account: Promise<Account> | null = null;
+
+function signingAccount(): Promise<Account> {
+    account ??= (async () => {
+        const configured = process.env.RECEIPT_SIGNING_KEY;
+        if (configured) return eth.accounts.privateKeyToAccount(configured);
+
+        const generated = { privateKey: eth.accounts.create().privateKey, createdAt: new Date().toISOString() };
+        await keys.insert('default', generated);
+        const stored = (await keys.get('default'))!;
+        const fallback = eth.accounts.privateKeyToAccount(stored.privateKey);
+        logger.warn({ module: 'receipts', signer: fallback.address }, '⚠️ RECEIPT_SIGNING_KEY not set, signing receipts with a generated key');
+        return fallback;
+    })();
+    return account;
+}
+
+// Address receipts are signed by, for clients to verify them against
+export async function receiptSigner(): Promise<string> {
+    return (await signingAccount()).address;
+}
+
+export async function issueReceipt(fields: Omit<Receipt, 'id' | 'issuedAt' | 'signer'>): Promise<SignedReceipt> {
+    const signer = await signingAccount();
+    const receipt: Receipt = {
+        ...fields,
+        id: randomBytes(12).toString('hex'),
+        issuedAt: new Date().toISOString(),
+        signer: signer.address,
+    };
+    const signed = { ...receipt, signature: signer.sign(receiptMessage(receipt)).signature };
+    await receipts.set(signed.id, signed);
+    return signed;
+}
+
+// Newest first
+export async function listReceipts(payer: string): Promise<SignedReceipt[]> {
+    const all = await receipts.values();
+    return all
+        .filter(receipt => receipt.payer.toLowerCase() === payer.toLowerCase())
+        .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+}
+
+const csvField = (value: unknown) => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per receipt, signature last so each row can be checked on its own
+export function receiptsCsv(list: SignedReceipt[]): string {
+    const columns = [...RECEIPT_FIELDS, 'signature'] as const;
+    const rows = list.map(receipt => columns.map(column => csvField(receipt[column])).join(','));
+    return [columns.join(','), ...rows].join('\n') + '\n';
+}
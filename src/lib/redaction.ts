@@ -0,0 +1,179 @@
+import type { StreamTextTransform, TextStreamPart, ToolSet } from 'ai';
+
+// --- Incognito PII redaction ---
+// Personal details are swapped for placeholders like [EMAIL_1] before a
+// conversation reaches the model provider, and swapped back on the way out.
+// Placeholders are numbered in order of first appearance, so re-redacting the
+// whole history on each turn keeps them stable for the conversation.
+// Detection is pure regex and also runs in the browser to highlight masked spans.
+
+export type PiiType = 'EMAIL' | 'PHONE' | 'ADDRESS' | 'NAME' | 'CARD' | 'EVM_ADDRESS' | 'PRIVATE_KEY';
+
+export interface PiiMatch {
+    type: PiiType;
+    start: number;
+    end: number;
+    value: string;
+}
+
+interface Detector {
+    type: PiiType;
+    pattern: RegExp;
+    // When set, only this capture group is the sensitive part of the match
+    group?: number;
+    validate?: (value: string) => boolean;
+}
+
+const STREET_SUFFIX = '(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Square|Sq)';
+
+// Earlier detectors win when matches overlap
+const DETECTORS: Detector[] = [
+    { type: 'PRIVATE_KEY', pattern: /\b(?:0x)?[0-9a-fA-F]{64}\b/g },
+    { type: 'EVM_ADDRESS', pattern: /\b0x[0-9a-fA-F]{40}\b/g },
+    { type: 'EMAIL', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+    { type: 'CARD', pattern: /\b(?:\d[ -]?){12,18}\d\b/g, validate: passesLuhn },
+    {
+        type: 'PHONE',
+        pattern: /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\b\d{2,4})[\s.-]\d{3,4}[\s.-]\d{3,5}\b|\+\d{8,15}\b/g,
+    },
+    {
+        type: 'ADDRESS',
+        pattern: new RegExp(`\\b\\d{1,5}\\s+(?:[A-Z][a-zA-Z]*\\.?\\s+){1,4}${STREET_SUFFIX}\\b\\.?(?:,?\\s+(?:Apt|Suite|Unit)\\.?\\s*\\w+)?`, 'g'),
+    },
+    { type: 'NAME', pattern: /\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\.?\s+[A-Z][a-z]+(?:\s+[A-Z][a-z]+)?/g },
+    { type: 'NAME', pattern: /\b(?:[Mm]y name is|[Cc]all me|[Nn]amed)\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+)?)/g, group: 1 },
+];
+
+function passesLuhn(value: string): boolean {
+    const digits = value.replace(/\D/g, '');
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+// Non-overlapping matches, in text order
+export function findPii(text: string): PiiMatch[] {
+    const candidates: PiiMatch[] = [];
+
+    DETECTORS.forEach((detector) => {
+        for (const match of text.matchAll(detector.pattern)) {
+            const value = detector.group ? match[detector.group] : match[0];
+            if (!value || (detector.validate && !detector.validate(value))) continue;
+
+            const start = match.index! + (detector.group ? match[0].lastIndexOf(value) : 0);
+            candidates.push({ type: detector.type, start, end: start + value.length, value });
+        }
+    });
+
+    // Keep detector priority, then drop anything overlapping an accepted match
+    const accepted: PiiMatch[] = [];
+    for (const candidate of candidates) {
+        if (accepted.every(match => candidate.end <= match.start || candidate.start >= match.end)) {
+            accepted.push(candidate);
+        }
+    }
+    return accepted.sort((a, b) => a.start - b.start);
+}
+
+const PLACEHOLDER_PATTERN = /\[(?:EMAIL|PHONE|ADDRESS|NAME|CARD|EVM_ADDRESS|PRIVATE_KEY)_\d+\]/g;
+
+// Could this be the start of a placeholder cut off at a chunk boundary?
+const PARTIAL_PLACEHOLDER = /\[[A-Z_]*\d*$/;
+const MAX_PLACEHOLDER_LENGTH = 24;
+
+export const REDACTION_INSTRUCTIONS =
+    'Some personal details in this conversation were replaced with placeholders such as [EMAIL_1] or [NAME_2]. ' +
+    'Refer to them using the exact placeholder text and never guess the original values.';
+
+export interface MaskedSpan {
+    placeholder: string;
+    type: PiiType;
+}
+
+export function createRedactor() {
+    const placeholderByValue = new Map<string, string>();
+    const valueByPlaceholder = new Map<string, string>();
+    const masked: MaskedSpan[] = [];
+    const counters: Partial<Record<PiiType, number>> = {};
+
+    const placeholderFor = (match: PiiMatch) => {
+        const existing = placeholderByValue.get(match.value);
+        if (existing) return existing;
+
+        counters[match.type] = (counters[match.type] ?? 0) + 1;
+        const placeholder = `[${match.type}_${counters[match.type]}]`;
+        placeholderByValue.set(match.value, placeholder);
+        valueByPlaceholder.set(placeholder, match.value);
+        masked.push({ placeholder, type: match.type });
+        return placeholder;
+    };
+
+    return {
+        redact(text: string): string {
+            let result = '';
+            let cursor = 0;
+            for (const match of findPii(text)) {
+                result += text.slice(cursor, match.start) + placeholderFor(match);
+                cursor = match.end;
+            }
+            return result + text.slice(cursor);
+        },
+
+        restore(text: string): string {
+            return text.replace(PLACEHOLDER_PATTERN, placeholder => valueByPlaceholder.get(placeholder) ?? placeholder);
+        },
+
+        masked(): MaskedSpan[] {
+            return [...masked];
+        },
+    };
+}
+
+export type Redactor = ReturnType<typeof createRedactor>;
+
+// streamText transform that puts the original values back into the model's text
+// and reasoning, holding back any trailing fragment that might be a placeholder
+// split across chunks.
+export function restorePlaceholders<TOOLS extends ToolSet>(redactor: Redactor): StreamTextTransform<TOOLS> {
+    return () => {
+        // Held-back text per delta type and id, since text and reasoning ids may overlap
+        const pending = new Map<string, { type: 'text-delta' | 'reasoning-delta'; id: string; text: string }>();
+
+        const flush = (controller: TransformStreamDefaultController<TextStreamPart<TOOLS>>, key: string) => {
+            const held = pending.get(key);
+            pending.delete(key);
+            if (held?.text) controller.enqueue({ type: held.type, id: held.id, text: redactor.restore(held.text) });
+        };
+
+        return new TransformStream<TextStreamPart<TOOLS>, TextStreamPart<TOOLS>>({
+            transform(part, controller) {
+                if (part.type !== 'text-delta' && part.type !== 'reasoning-delta') {
+                    if (part.type === 'text-end') flush(controller, `text-delta:${part.id}`);
+                    if (part.type === 'reasoning-end') flush(controller, `reasoning-delta:${part.id}`);
+                    controller.enqueue(part);
+                    return;
+                }
+
+                const key = `${part.type}:${part.id}`;
+                const text = (pending.get(key)?.text ?? '') + part.text;
+                const partial = text.match(PARTIAL_PLACEHOLDER);
+                const holdFrom = partial && partial[0].length <= MAX_PLACEHOLDER_LENGTH ? partial.index! : text.length;
+
+                pending.set(key, { type: part.type, id: part.id, text: text.slice(holdFrom) });
+                if (holdFrom > 0) {
+                    controller.enqueue({ ...part, text: redactor.restore(text.slice(0, holdFrom)) });
+                }
+            },
+            flush(controller) {
+                for (const key of [...pending.keys()]) flush(controller, key);
+            },
+        });
+    };
+}
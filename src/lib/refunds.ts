@@ -0,0 +1,64 @@
+import { randomBytes } from 'crypto';
+import { logger } from './logger';
+import { collection } from './storage';
+
+// --- On-chain refund queue ---
+// With REFUND_MODE=onchain, x402 payments whose generation failed are queued
+// here to be paid back to the sender in the asset they paid with, instead of
+// becoming prepaid credit. The operator works through the queued entries.
+
+export type RefundStatus = 'queued' | 'paid' | 'resumed';
+
+export interface RefundRecord {
+    id: string;
+    payer: string;
+    // The failed payment, and what to send back in its asset's smallest units
+    txHash: string;
+    network: string;
+    asset: string;
+    amount: string;
+    amountWei: string;
+    reason: string;
+    status: RefundStatus;
+    refundTxHash?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export const REFUND_MODE: 'credit' | 'onchain' = process.env.REFUND_MODE === 'onchain' ? 'onchain' : 'credit';
+
+const refunds = collection<RefundRecord>('refunds');
+
+export async function queueRefund(
+    refund: Omit<RefundRecord, 'id' | 'status' | 'createdAt' | 'updatedAt'>
+): Promise<RefundRecord> {
+    const now = new Date().toISOString();
+    const record: RefundRecord = { ...refund, id: randomBytes(8).toString('hex'), status: 'queued', createdAt: now, updatedAt: now };
+    await refunds.set(record.id, record);
+    logger.info(
+        { module: 'refunds', refundId: record.id, payer: record.payer, txHash: record.txHash, network: record.network, asset: record.asset, amount: record.amount },
+        '↩️ Queued refund'
+    );
+    return record;
+}
+
+export async function getRefund(id: string): Promise<RefundRecord | undefined> {
+    return refunds.get(id);
+}
+
+export async function listRefunds(status?: RefundStatus): Promise<RefundRecord[]> {
+    const all = await refunds.values();
+    return all.filter(refund => !status || refund.status === status);
+}
+
+// Atomically takes a refund out of the queue, e.g. because the client retried
+// the generation instead. Returns null if it was already paid or claimed.
+export async function claimRefund(id: string, status: Exclude<RefundStatus, 'queued'>, refundTxHash?: string): Promise<RefundRecord | null> {
+    let claimed: RefundRecord | null = null;
+    await refunds.update(id, (current) => {
+        if (!current || current.status !== 'queued') return current;
+        claimed = { ...current, status, refundTxHash, updatedAt: new Date().toISOString() };
+        return claimed;
+    });
+    return claimed;
+}
@@ -0,0 +1,108 @@
+import { getNetwork } from './chain';
+import { logger } from './logger';
+import { SIMULATED, handleSimulatedRpc } from './simulated-chain';
+
+// --- JSON-RPC client ---
+// Each network can have several endpoints. A call goes to the endpoint that last
+// answered, and fails over to the next one on timeouts, transport errors and
+// rate limits. Errors reported by a healthy node are final and not retried.
+// With PAYMENT_MODE=simulated, calls are answered by the in-process fake chain.
+
+const RPC_TIMEOUT_MS = Number(process.env.RPC_TIMEOUT_MS || 8000);
+
+// JSON-RPC error codes that say more about the endpoint than about the request
+const ENDPOINT_ERROR_CODES = new Set([
+    -32005, // limit exceeded
+    429,
+]);
+
+// A node rejected the call. Asking another node would give the same answer.
+export class RpcError extends Error {
+    constructor(method: string, message: string, readonly code?: number) {
+        super(`${method} failed: ${message}`);
+        this.name = 'RpcError';
+    }
+}
+
+// No endpoint of the network answered. Worth retrying later.
+export class RpcUnavailableError extends Error {
+    constructor(network: string, method: string, readonly failures: string[]) {
+        super(`${method} failed on every ${network} endpoint: ${failures.join('; ')}`);
+        this.name = 'RpcUnavailableError';
+    }
+}
+
+// Index of the endpoint that last answered, per network
+const preferred = new Map<string, number>();
+
+let rpcId = 0;
+
+// Endpoint URLs can hold API keys, so only their host is ever logged
+function hostOf(url: string): string {
+    try {
+        return new URL(url).host;
+    } catch {
+        return 'invalid-url';
+    }
+}
+
+// Returns the call's result; a null result is returned as-is.
+// Throws RpcError for rejected calls and RpcUnavailableError when no endpoint answers.
+export async function rpc<T>(network: string, method: string, params: unknown[]): Promise<T | null> {
+    const config = getNetwork(network);
+    if (!config) throw new Error(`Unsupported network: ${network}`);
+
+    if (SIMULATED) {
+        const data = await handleSimulatedRpc(network, { id: ++rpcId, method, params });
+        if (data.error) throw new RpcError(method, data.error.message, data.error.code);
+        return (data.result ?? null) as T | null;
+    }
+
+    const urls = config.rpcUrls;
+    const start = preferred.get(network) ?? 0;
+    const failures: string[] = [];
+
+    for (let attempt = 0; attempt < urls.length; attempt++) {
+        const index = (start + attempt) % urls.length;
+        const host = hostOf(urls[index]);
+
+        let data;
+        try {
+            const response = await fetch(urls[index], {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    jsonrpc: '2.0',
+                    method,
+                    params,
+                    id: ++rpcId,
+                }),
+                signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
+            });
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            data = await response.json();
+        } catch (error) {
+            failures.push(`${host}: ${(error as Error).message}`);
+            logger.warn({ module: 'rpc', network, method, host, reason: (error as Error).message }, '⚠️ RPC call failed');
+            continue;
+        }
+
+        if (data.error && ENDPOINT_ERROR_CODES.has(data.error.code)) {
+            failures.push(`${host}: ${data.error.message}`);
+            logger.warn({ module: 'rpc', network, method, host }, '⚠️ RPC call rate limited');
+            continue;
+        }
+
+        preferred.set(network, index);
+        if (data.error) {
+            throw new RpcError(method, data.error.message, data.error.code);
+        }
+        return data.result ?? null;
+    }
+
+    throw new RpcUnavailableError(network, method, failures);
+}
+
+export async function blockNumber(network: string): Promise<number> {
+    return Number(BigInt(await rpc<string>(network, 'eth_blockNumber', []) ?? '0x0'));
+}
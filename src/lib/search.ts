@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import { jsonSchema, tool } from 'ai';
+import { utils } from 'web3';
+import { logger } from './logger';
+import type { ModelEntry } from './models';
+import type { SearchPricing } from './pricing';
+import { SIMULATED } from './simulated-chain';
+
+// --- Web search providers ---
+// Grounded queries let the model look things up through a web_search tool. The
+// tool asks whichever provider SEARCH_PROVIDER names, so a hosted API, a
+// self-hosted engine or offline fixtures all answer it the same way. Queries
+// are written by the model, so in incognito mode they can't contain what was masked.
+
+export interface SearchResult {
+    title: string;
+    url: string;
+    snippet: string;
+}
+
+export interface SearchProvider {
+    configured: boolean;
+    search(query: string, options: { limit: number; signal?: AbortSignal }): Promise<SearchResult[]>;
+}
+
+const log = logger.child({ module: 'search' });
+
+const providers = new Map<string, SearchProvider>();
+
+// Searches one grounded query may run, and results per search
+export const MAX_SEARCHES = Number(process.env.MAX_SEARCHES_PER_QUERY || 2);
+export const RESULTS_PER_SEARCH = 5;
+
+// Charged per search actually run, on top of the model's token price
+export const SEARCH_FEE_WEI = BigInt(utils.toWei(process.env.SEARCH_FEE_MON || '0.0002', 'ether'));
+
+export const SEARCH_PRICING: SearchPricing = { searches: MAX_SEARCHES, searchFeeWei: SEARCH_FEE_WEI };
+
+export const GROUNDING_INSTRUCTIONS = 'Use the web_search tool when the question needs current or factual information. '
+    + 'Cite the results you rely on inline as [n], using the numbers the search gave them, and never cite anything you did not find.';
+
+export function registerSearchProvider(name: string, provider: SearchProvider) {
+    providers.set(name, provider);
+}
+
+// The provider grounded queries use, if one is configured
+export function searchProvider(): SearchProvider | undefined {
+    const name = process.env.SEARCH_PROVIDER || (SIMULATED ? 'fixture' : undefined);
+    const provider = name ? providers.get(name) : undefined;
+    return provider?.configured ? provider : undefined;
+}
+
+// Checks a grounded query can run: a provider is configured and the model can call tools
+export function resolveSearch(model: ModelEntry): { provider: SearchProvider } | { error: string } {
+    const provider = searchProvider();
+    if (!provider) return { error: 'Web search is not available on this server' };
+    if (!model.capabilities.includes('tools')) return { error: `${model.name} can't search the web` };
+    return { provider };
+}
+
+// Only plain web links are passed on, since they end up as links in the answer
+function cleanResults(results: Array<Partial<Record<keyof SearchResult, unknown>>>, limit: number): SearchResult[] {
+    return results
+        .filter(result => typeof result.url === 'string' && /^https?:\/\//i.test(result.url))
+        .slice(0, limit)
+        .map(result => ({
+            title: String(result.title || result.url),
+            url: String(result.url),
+            snippet: String(result.snippet ?? '').slice(0, 500),
+        }));
+}
+
+async function getJson(url: string, init: RequestInit): Promise<Record<string, unknown>> {
+    const response = await fetch(url, init);
+    if (!response.ok) throw new Error(`Search request failed: ${response.status}`);
+    return response.json();
+}
+
+// --- Built-in providers ---
+
+registerSearchProvider('brave', {
+    configured: !!process.env.BRAVE_SEARCH_API_KEY,
+    search: async (query, { limit, signal }) => {
+        const body = await getJson(
+            `https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(query)}&count=${limit}`,
+            { headers: { Accept: 'application/json', 'X-Subscription-Token': process.env.BRAVE_SEARCH_API_KEY! }, signal }
+        );
+        const results = ((body.web as { results?: Array<{ title?: string; url?: string; description?: string }> })?.results ?? []);
+        return cleanResults(results.map(result => ({ ...result, snippet: result.description })), limit);
+    },
+});
+
+// A self-hosted SearXNG instance with the JSON output format enabled
+registerSearchProvider('searxng', {
+    configured: !!process.env.SEARXNG_URL,
+    search: async (query, { limit, signal }) => {
+        const body = await getJson(
+            `${process.env.SEARXNG_URL}/search?q=${encodeURIComponent(query)}&format=json`,
+            { headers: { Accept: 'application/json' }, signal }
+        );
+        const results = (body.results as Array<{ title?: string; url?: string; content?: string }>) ?? [];
+        return cleanResults(results.map(result => ({ ...result, snippet: result.content })), limit);
+    },
+});
+
+// --- Fixture provider ---
+// Offline results from the JSON file named by SEARCH_FIXTURES: an array of rules
+// where the first whose `match` regex fits the query wins. Without a file,
+// every query gets one made-up result pointing at example.com.
+//
+// [{ "match": "monad", "results": [{ "title": "Monad", "url": "https://www.monad.xyz", "snippet": "…" }] }]
+
+interface FixtureRule {
+    match?: string;
+    results: SearchResult[];
+}
+
+registerSearchProvider('fixture', {
+    configured: true,
+    search: async (query, { limit }) => {
+        const file = process.env.SEARCH_FIXTURES;
+        const rules: FixtureRule[] = file ? JSON.parse(await fs.readFile(file, 'utf8')) : [];
+        const rule = rules.find(candidate => !candidate.match || new RegExp(candidate.match, 'i').test(query));
+        log.debug({ matched: !!rule }, 'Fixture search');
+        return cleanResults(rule?.results ?? [{
+            title: `Results for ${query}`,
+            url: `https://example.com/search?q=${encodeURIComponent(query)}`,
+            snippet: `A simulated search result about ${query}.`,
+        }], limit);
+    },
+});
+
+// --- The web_search tool ---
+
+// What one grounded answer searched for and found. Results are numbered across
+// the whole answer, the same URL keeping its number, so a citation [n] always
+// means sources[n - 1].
+export interface SearchSession {
+    searches: number;
+    sources: SearchResult[];
+}
+
+export function webSearchTool(provider: SearchProvider, session: SearchSession, signal?: AbortSignal) {
+    return tool({
+        description: 'Search the web. Returns numbered results to cite in the answer as [n].',
+        inputSchema: jsonSchema<{ query: string }>({
+            type: 'object',
+            properties: { query: { type: 'string', description: 'What to search for' } },
+            required: ['query'],
+            additionalProperties: false,
+        }),
+        execute: async ({ query }) => {
+            if (session.searches >= MAX_SEARCHES) return 'No more searches are allowed; answer with the results you have.';
+            session.searches++;
+            const results = await provider.search(query.slice(0, 400), { limit: RESULTS_PER_SEARCH, signal });
+            log.info({ results: results.length }, '🔎 Web search');
+            const numbered = results.map(result => {
+                let index = session.sources.findIndex(source => source.url === result.url);
+                if (index === -1) index = session.sources.push(result) - 1;
+                return `[${index + 1}] ${result.title}\n${result.url}\n${result.snippet}`;
+            });
+            return numbered.join('\n\n') || 'No results.';
+        },
+    });
+}
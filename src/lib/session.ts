@@ -0,0 +1,166 @@
+import { randomBytes } from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { eth } from 'web3';
+import { MONAD_TESTNET_CHAIN_ID } from './chain';
+import { logger } from './logger';
+import { parseSiweMessage } from './siwe';
+import { collection } from './storage';
+
+// --- SIWE sessions ---
+// A wallet proves ownership by signing a server-issued nonce. The session id
+// lives in an httpOnly cookie; the session itself is stored server-side.
+// Scripts and API clients can ask for the id at sign-in and send it back as a
+// bearer token instead, the way OpenAI clients send their API key.
+
+export const SESSION_COOKIE = 'incognito_session';
+
+const NONCE_TTL_SECONDS = 5 * 60;
+// How far ahead of the server's clock a message's Issued At may be
+const CLOCK_SKEW_SECONDS = 60;
+
+// Exactly what issueNonce and signIn hand out; anything else is never looked up
+const NONCE_PATTERN = /^[0-9a-f]{32}$/;
+const SESSION_ID_PATTERN = /^[0-9a-f]{64}$/;
+const SESSION_TTL_SECONDS = Number(process.env.SESSION_TTL_SECONDS || 24 * 60 * 60);
+
+export interface Session {
+    address: string;
+    chainId: number;
+    createdAt: string;
+    expiresAt: string;
+}
+
+const nonces = collection<{ expiresAt: string }>('siwe-nonces');
+const sessions = collection<Session>('sessions');
+
+const isExpired = (expiresAt: string) => Date.parse(expiresAt) <= Date.now();
+
+// Also drops the nonces that expired unused, so the collection only holds live ones
+export async function issueNonce(): Promise<string> {
+    await nonces.deleteWhere(({ expiresAt }) => typeof expiresAt !== 'string' || isExpired(expiresAt));
+    const nonce = randomBytes(16).toString('hex');
+    await nonces.set(nonce, { expiresAt: new Date(Date.now() + NONCE_TTL_SECONDS * 1000).toISOString() });
+    return nonce;
+}
+
+// Removes the nonce so it can only be used once. Returns false if it was unknown or expired.
+async function consumeNonce(nonce: string): Promise<boolean> {
+    if (!NONCE_PATTERN.test(nonce)) return false;
+    let found: { expiresAt: string } | undefined;
+    await nonces.update(nonce, (current) => {
+        found = current;
+        return undefined;
+    });
+    return typeof found?.expiresAt === 'string' && !isExpired(found.expiresAt);
+}
+
+function uriHost(uri: string): string | null {
+    try {
+        return new URL(uri).host;
+    } catch {
+        return null;
+    }
+}
+
+type SignInResult =
+    | { ok: true; sessionId: string; session: Session }
+    | { ok: false; reason: string };
+
+export async function signIn(message: string, signature: string, expectedDomain: string): Promise<SignInResult> {
+    const siwe = parseSiweMessage(message);
+    if (!siwe) return { ok: false, reason: 'Malformed sign-in message' };
+
+    if (siwe.domain !== expectedDomain) return { ok: false, reason: 'Sign-in message is for a different domain' };
+    if (uriHost(siwe.uri) !== expectedDomain) return { ok: false, reason: 'Sign-in message is for a different URI' };
+    if (siwe.chainId !== MONAD_TESTNET_CHAIN_ID) return { ok: false, reason: 'Sign-in message is for a different chain' };
+    if (siwe.expirationTime && isExpired(siwe.expirationTime)) return { ok: false, reason: 'Sign-in message has expired' };
+    // A message can't be older than the nonce it carries, nor issued in the future
+    const issuedAt = Date.parse(siwe.issuedAt);
+    if (Number.isNaN(issuedAt) || issuedAt > Date.now() + CLOCK_SKEW_SECONDS * 1000 || issuedAt < Date.now() - NONCE_TTL_SECONDS * 1000) {
+        return { ok: false, reason: 'Sign-in message has an invalid Issued At time' };
+    }
+
+    let signer: string;
+    try {
+        signer = eth.accounts.recover(message, signature);
+    } catch {
+        return { ok: false, reason: 'Invalid signature' };
+    }
+    if (signer.toLowerCase() !== siwe.address.toLowerCase()) {
+        return { ok: false, reason: 'Signature does not match the sign-in address' };
+    }
+
+    // Checked last so a bad signature can't burn someone else's nonce
+    if (!await consumeNonce(siwe.nonce)) return { ok: false, reason: 'Unknown or expired nonce' };
+
+    const now = Date.now();
+    const session: Session = {
+        address: siwe.address,
+        chainId: siwe.chainId,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + SESSION_TTL_SECONDS * 1000).toISOString(),
+    };
+    const sessionId = randomBytes(32).toString('hex');
+    await sessions.set(sessionId, session);
+
+    logger.info({ module: 'session', address: session.address, chainId: session.chainId }, '🔐 Signed in');
+    return { ok: true, sessionId, session };
+}
+
+function sessionIdOf(request: NextRequest): string | undefined {
+    const sessionId = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/)?.[1]
+        ?? request.cookies.get(SESSION_COOKIE)?.value;
+    return sessionId && SESSION_ID_PATTERN.test(sessionId) ? sessionId : undefined;
+}
+
+export async function getSession(request: NextRequest): Promise<Session | null> {
+    const sessionId = sessionIdOf(request);
+    if (!sessionId) return null;
+
+    const session = await sessions.get(sessionId);
+    if (typeof session?.address !== 'string' || typeof session.expiresAt !== 'string') return null;
+
+    if (isExpired(session.expiresAt)) {
+        await sessions.delete(sessionId);
+        return null;
+    }
+    return session;
+}
+
+export async function signOut(request: NextRequest): Promise<void> {
+    const sessionId = sessionIdOf(request);
+    if (sessionId) await sessions.delete(sessionId);
+}
+
+export function setSessionCookie(response: NextResponse, sessionId: string) {
+    response.cookies.set(SESSION_COOKIE, sessionId, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: process.env.NODE_ENV === 'production',
+        path: '/',
+        maxAge: SESSION_TTL_SECONDS,
+    });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+    response.cookies.delete(SESSION_COOKIE);
+}
+
+// --- Operator access ---
+// The operator signs in like any other wallet; OPERATOR_WALLET names which one it is.
+
+export const OPERATOR_WALLET = process.env.OPERATOR_WALLET;
+
+export function isOperator(session: Session): boolean {
+    return !!OPERATOR_WALLET && session.address.toLowerCase() === OPERATOR_WALLET.toLowerCase();
+}
+
+// Why the request can't use the operator routes, or null when it can
+export async function operatorDenial(request: NextRequest): Promise<{ error: string; status: number } | null> {
+    if (!OPERATOR_WALLET) return { error: 'No operator wallet is configured', status: 403 };
+
+    const session = await getSession(request);
+    if (!session) return { error: 'Sign in with the operator wallet', status: 401 };
+    if (!isOperator(session)) return { error: 'Only the operator wallet can see this', status: 403 };
+    return null;
+}
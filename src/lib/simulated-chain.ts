@@ -0,0 +1,280 @@
+import { eth, utils } from 'web3';
+import { chainIdOf } from './chain';
+import { logger } from './logger';
+import { collection } from './storage';
+
+// --- Simulated chain ---
+// With PAYMENT_MODE=simulated, every JSON-RPC call the server makes is answered
+// by this in-process fake node instead of a real network, so the whole x402
+// flow runs offline. It accepts signed transactions, mines them at once and
+// reports receipts, blocks and balances the way a real node would.
+//
+// Deliberate simplifications: one block per second since genesis, no gas fees,
+// no nonce ordering, and every address starts out funded with every asset.
+// Any contract call to transfer(address,uint256) is treated as an ERC-20 transfer,
+// and to transferWithAuthorization() as an EIP-3009 one. Authorization
+// signatures are left to the facilitator to check, since the fake node doesn't
+// know the token's EIP-712 domain.
+
+export const SIMULATED = process.env.PAYMENT_MODE === 'simulated';
+
+// Starting balance of every address, in the asset's smallest units
+const FAUCET_BALANCE = BigInt(process.env.SIMULATED_FAUCET_BALANCE || '10000000000000000000'); // 10 * 10^18
+
+const GENESIS_TIMESTAMP = 1_735_689_600; // 2025-01-01T00:00:00Z
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const TRANSFER_SELECTOR = '0xa9059cbb';
+const BALANCE_OF_SELECTOR = '0x70a08231';
+const TRANSFER_WITH_AUTHORIZATION_SELECTOR = '0xe3ee160e';
+const AUTHORIZATION_STATE_SELECTOR = '0xe94a0102';
+
+interface SimulatedLog {
+    address: string;
+    topics: string[];
+    data: string;
+}
+
+interface SimulatedTransaction {
+    hash: string;
+    from: string;
+    to: string | null;
+    value: string;
+    input: string;
+    nonce: string;
+    blockNumber: number;
+    status: '0x1' | '0x0';
+    logs: SimulatedLog[];
+}
+
+interface ChainState {
+    transactions: Record<string, SimulatedTransaction>;
+    // `${chainId}:${asset}:${address}` -> balance, once it differs from the faucet balance
+    balances: Record<string, string>;
+    // `${chainId}:${asset}:${authorizer}:${nonce}` of every EIP-3009 authorization used
+    authorizations?: Record<string, true>;
+}
+
+export interface JsonRpcResponse {
+    jsonrpc: '2.0';
+    id: number | string | null;
+    result?: unknown;
+    error?: { code: number; message: string };
+}
+
+const chain = collection<ChainState>('simulated-chain');
+const STATE_KEY = 'state';
+
+class SimulatedRpcError extends Error {
+    constructor(message: string, readonly code = -32000) {
+        super(message);
+    }
+}
+
+const hex = (value: bigint | number) => `0x${value.toString(16)}`;
+const word = (value: string) => value.toLowerCase().replace(/^0x/, '').padStart(64, '0');
+
+function headBlock(): number {
+    return Math.floor(Date.now() / 1000) - GENESIS_TIMESTAMP;
+}
+
+function blockNumberOf(tag: unknown): number {
+    if (typeof tag !== 'string' || !tag.startsWith('0x')) return headBlock();
+    return Number(BigInt(tag));
+}
+
+function balanceKey(chainId: number, asset: string, address: string): string {
+    return `${chainId}:${asset.toLowerCase()}:${address.toLowerCase()}`;
+}
+
+function balanceOf(state: ChainState | undefined, key: string): bigint {
+    const stored = state?.balances[key];
+    return stored === undefined ? FAUCET_BALANCE : BigInt(stored);
+}
+
+async function readState(): Promise<ChainState> {
+    return await chain.get(STATE_KEY) ?? { transactions: {}, balances: {} };
+}
+
+// Decodes, "mines" and records a signed transaction. Returns its hash.
+async function sendRawTransaction(chainId: number, raw: string): Promise<string> {
+    let tx;
+    try {
+        tx = eth.accounts.TransactionFactory.fromSerializedData(utils.hexToBytes(raw));
+    } catch {
+        throw new SimulatedRpcError('invalid raw transaction', -32602);
+    }
+    if (tx.common.chainId() !== BigInt(chainId)) {
+        throw new SimulatedRpcError('invalid chain id for signer');
+    }
+
+    const hash = utils.keccak256(raw).toLowerCase();
+    const from = tx.getSenderAddress().toString().toLowerCase();
+    const to = tx.to?.toString().toLowerCase() ?? null;
+    const input = utils.bytesToHex(tx.data).toLowerCase();
+
+    await chain.update(STATE_KEY, (current) => {
+        const state = current ?? { transactions: {}, balances: {} };
+        if (state.transactions[hash]) throw new SimulatedRpcError('already known');
+
+        const record: SimulatedTransaction = {
+            hash,
+            from,
+            to,
+            value: hex(tx.value),
+            input,
+            nonce: hex(tx.nonce),
+            blockNumber: headBlock(),
+            status: '0x1',
+            logs: [],
+        };
+
+        // Moves `amount` of `asset` unless the sender can't afford it, which reverts the transaction
+        const move = (asset: string, recipient: string, amount: bigint, sender = from) => {
+            const fromKey = balanceKey(chainId, asset, sender);
+            const toKey = balanceKey(chainId, asset, recipient);
+            const available = balanceOf(state, fromKey);
+            if (available < amount) {
+                record.status = '0x0';
+                return false;
+            }
+            state.balances[fromKey] = (available - amount).toString();
+            state.balances[toKey] = (balanceOf(state, toKey) + amount).toString();
+            return true;
+        };
+
+        if (to && input.startsWith(TRANSFER_SELECTOR) && input.length >= 138) {
+            const recipient = `0x${input.slice(34, 74)}`;
+            const amount = BigInt(`0x${input.slice(74, 138)}`);
+            if (move(to, recipient, amount)) {
+                record.logs.push({
+                    address: to,
+                    topics: [TRANSFER_TOPIC, `0x${word(from)}`, `0x${word(recipient)}`],
+                    data: `0x${word(amount.toString(16))}`,
+                });
+            }
+        } else if (to && input.startsWith(TRANSFER_WITH_AUTHORIZATION_SELECTOR)) {
+            const authorizer = `0x${input.slice(34, 74)}`;
+            const recipient = `0x${input.slice(98, 138)}`;
+            const amount = BigInt(`0x${input.slice(138, 202)}`);
+            const validAfter = BigInt(`0x${input.slice(202, 266)}`);
+            const validBefore = BigInt(`0x${input.slice(266, 330)}`);
+            const authorizationKey = `${chainId}:${to}:${authorizer}:0x${input.slice(330, 394)}`;
+            const now = BigInt(GENESIS_TIMESTAMP + headBlock());
+
+            // A used, early or expired authorization reverts
+            const authorizations = state.authorizations ?? {};
+            if (authorizations[authorizationKey] || now <= validAfter || now >= validBefore) {
+                record.status = '0x0';
+            } else if (move(to, recipient, amount, authorizer)) {
+                state.authorizations = { ...authorizations, [authorizationKey]: true };
+                record.logs.push({
+                    address: to,
+                    topics: [TRANSFER_TOPIC, `0x${word(authorizer)}`, `0x${word(recipient)}`],
+                    data: `0x${word(amount.toString(16))}`,
+                });
+            }
+        } else if (to && tx.value > BigInt(0)) {
+            move('native', to, tx.value);
+        }
+
+        state.transactions[hash] = record;
+        return state;
+    });
+
+    logger.info({ module: 'simulated-chain', txHash: hash }, '🧪 Simulated tx mined');
+    return hash;
+}
+
+async function call(chainId: number, method: string, params: unknown[]): Promise<unknown> {
+    switch (method) {
+        case 'eth_chainId':
+            return hex(chainId);
+
+        // No gas fees here
+        case 'eth_gasPrice':
+            return hex(0);
+
+        case 'eth_blockNumber':
+            return hex(headBlock());
+
+        case 'eth_getBlockByNumber': {
+            const number = blockNumberOf(params[0]);
+            if (number > headBlock()) return null;
+            return {
+                number: hex(number),
+                hash: utils.sha3(`simulated-block-${number}`),
+                timestamp: hex(GENESIS_TIMESTAMP + number),
+                transactions: [],
+            };
+        }
+
+        case 'eth_getTransactionByHash': {
+            const tx = (await readState()).transactions[String(params[0]).toLowerCase()];
+            return tx ? {
+                hash: tx.hash,
+                from: tx.from,
+                to: tx.to,
+                value: tx.value,
+                input: tx.input,
+                nonce: tx.nonce,
+                blockNumber: hex(tx.blockNumber),
+            } : null;
+        }
+
+        case 'eth_getTransactionReceipt': {
+            const tx = (await readState()).transactions[String(params[0]).toLowerCase()];
+            return tx ? {
+                transactionHash: tx.hash,
+                from: tx.from,
+                to: tx.to,
+                status: tx.status,
+                blockNumber: hex(tx.blockNumber),
+                logs: tx.logs,
+            } : null;
+        }
+
+        case 'eth_getBalance':
+            return hex(balanceOf(await readState(), balanceKey(chainId, 'native', String(params[0]))));
+
+        case 'eth_getTransactionCount': {
+            const address = String(params[0]).toLowerCase();
+            const sent = Object.values((await readState()).transactions).filter(tx => tx.from === address);
+            return hex(sent.length);
+        }
+
+        case 'eth_call': {
+            const { to, data } = params[0] as { to: string; data: string };
+            if (data?.toLowerCase().startsWith(AUTHORIZATION_STATE_SELECTOR)) {
+                const key = `${chainId}:${to.toLowerCase()}:0x${data.slice(34, 74)}:0x${data.slice(74, 138)}`.toLowerCase();
+                return `0x${word((await readState()).authorizations?.[key] ? '1' : '0')}`;
+            }
+            if (!data?.toLowerCase().startsWith(BALANCE_OF_SELECTOR)) {
+                throw new SimulatedRpcError('only balanceOf and authorizationState calls are simulated');
+            }
+            const holder = `0x${data.slice(34, 74)}`;
+            return `0x${word(balanceOf(await readState(), balanceKey(chainId, to, holder)).toString(16))}`;
+        }
+
+        case 'eth_sendRawTransaction':
+            return sendRawTransaction(chainId, String(params[0]));
+
+        default:
+            throw new SimulatedRpcError(`the method ${method} is not available on the simulated chain`, -32601);
+    }
+}
+
+// Answers one JSON-RPC request for the given CAIP-2 network
+export async function handleSimulatedRpc(
+    network: string,
+    request: { id?: number | string | null; method: string; params?: unknown[] }
+): Promise<JsonRpcResponse> {
+    const id = request.id ?? null;
+    try {
+        const result = await call(chainIdOf(network), request.method, request.params ?? []);
+        return { jsonrpc: '2.0', id, result };
+    } catch (error) {
+        const code = error instanceof SimulatedRpcError ? error.code : -32603;
+        return { jsonrpc: '2.0', id, error: { code, message: (error as Error).message } };
+    }
+}
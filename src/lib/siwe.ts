@@ -0,0 +1,85 @@
+// --- Sign-In With Ethereum (EIP-4361) messages ---
+// Formats and parses the plain-text message the wallet signs. Safe to use from the browser.
+
+export interface SiweMessage {
+    domain: string;
+    address: string;
+    statement?: string;
+    uri: string;
+    version: '1';
+    chainId: number;
+    nonce: string;
+    issuedAt: string;
+    expirationTime?: string;
+}
+
+export function formatSiweMessage(message: SiweMessage): string {
+    const lines = [
+        `${message.domain} wants you to sign in with your Ethereum account:`,
+        message.address,
+        '',
+    ];
+    if (message.statement) {
+        lines.push(message.statement, '');
+    }
+    lines.push(
+        `URI: ${message.uri}`,
+        `Version: ${message.version}`,
+        `Chain ID: ${message.chainId}`,
+        `Nonce: ${message.nonce}`,
+        `Issued At: ${message.issuedAt}`,
+    );
+    if (message.expirationTime) {
+        lines.push(`Expiration Time: ${message.expirationTime}`);
+    }
+    return lines.join('\n');
+}
+
+// Returns null when the text isn't a well-formed EIP-4361 message
+export function parseSiweMessage(text: string): SiweMessage | null {
+    const lines = text.split('\n');
+
+    const header = lines[0]?.match(/^(\S+) wants you to sign in with your Ethereum account:$/);
+    const address = lines[1];
+    if (!header || !/^0x[0-9a-fA-F]{40}$/.test(address ?? '')) return null;
+
+    // Optional statement sits between two blank lines
+    let index = 3;
+    let statement: string | undefined;
+    if (lines[2] !== '') return null;
+    if (lines[3] !== undefined && !lines[3].startsWith('URI: ')) {
+        statement = lines[3];
+        if (lines[4] !== '') return null;
+        index = 5;
+    }
+
+    const fields: Record<string, string> = {};
+    for (const line of lines.slice(index)) {
+        const separator = line.indexOf(': ');
+        if (separator === -1) return null;
+        fields[line.slice(0, separator)] = line.slice(separator + 2);
+    }
+
+    const chainId = Number(fields['Chain ID']);
+    if (
+        !fields['URI'] ||
+        fields['Version'] !== '1' ||
+        !Number.isInteger(chainId) ||
+        !/^[a-zA-Z0-9]{8,}$/.test(fields['Nonce'] ?? '') ||
+        !fields['Issued At']
+    ) {
+        return null;
+    }
+
+    return {
+        domain: header[1],
+        address,
+        statement,
+        uri: fields['URI'],
+        version: '1',
+        chainId,
+        nonce: fields['Nonce'],
+        issuedAt: fields['Issued At'],
+        expirationTime: fields['Expiration Time'],
+    };
+}
@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// --- File-backed JSON collections ---
+// Each collection is a single JSON object on disk under DATA_DIR, rewritten in
+// full on every change. Every operation runs through a per-collection queue,
+// so read-modify-write sequences are atomic within one server process.
+
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+export interface Collection<T> {
+    get(key: string): Promise<T | undefined>;
+    // Stores the value only if the key is free. Returns false if it was taken.
+    insert(key: string, value: T): Promise<boolean>;
+    set(key: string, value: T): Promise<void>;
+    // Atomically replaces the value with fn(current). Returning undefined deletes it.
+    update(key: string, fn: (current: T | undefined) => T | undefined): Promise<T | undefined>;
+    delete(key: string): Promise<void>;
+    // Deletes every entry fn matches, in one write. Returns how many went.
+    deleteWhere(fn: (value: T, key: string) => boolean): Promise<number>;
+    entries(): Promise<Array<[string, T]>>;
+    values(): Promise<T[]>;
+}
+
+const collections = new Map<string, Collection<unknown>>();
+
+export function collection<T>(name: string): Collection<T> {
+    const existing = collections.get(name);
+    if (existing) return existing as Collection<T>;
+
+    const created = createFileCollection<T>(path.join(DATA_DIR, `${name}.json`));
+    collections.set(name, created as Collection<unknown>);
+    return created;
+}
+
+function createFileCollection<T>(file: string): Collection<T> {
+    // A Map, so keys such as `constructor` or `__proto__` are plain keys and
+    // never reach Object.prototype
+    let cache: Map<string, T> | null = null;
+    let queue: Promise<unknown> = Promise.resolve();
+
+    const load = async (): Promise<Map<string, T>> => {
+        if (cache) return cache;
+        try {
+            cache = new Map(Object.entries(JSON.parse(await fs.readFile(file, 'utf8')) as Record<string, T>));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+            cache = new Map();
+        }
+        return cache;
+    };
+
+    const save = async (data: Map<string, T>) => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        const tmp = `${file}.${process.pid}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(Object.fromEntries(data), null, 2));
+        await fs.rename(tmp, file);
+    };
+
+    // Mutations build the next state on a copy, which only becomes the cache
+    // once it is on disk: a failed write leaves both as they were
+    const commit = async (data: Map<string, T>) => {
+        await save(data);
+        cache = data;
+    };
+
+    // Serialize every operation behind the previous one
+    const run = <R>(op: (data: Map<string, T>) => Promise<R> | R): Promise<R> => {
+        const next = queue.then(async () => op(await load()));
+        queue = next.catch(() => undefined);
+        return next;
+    };
+
+    return {
+        get: (key) => run((data) => data.get(key)),
+        insert: (key, value) => run(async (data) => {
+            if (data.has(key)) return false;
+            await commit(new Map(data).set(key, value));
+            return true;
+        }),
+        set: (key, value) => run(async (data) => {
+            await commit(new Map(data).set(key, value));
+        }),
+        update: (key, fn) => run(async (data) => {
+            // fn may change the value it is given in place, so it gets a copy
+            const current = data.get(key);
+            const next = fn(current === undefined ? undefined : structuredClone(current));
+            const updated = new Map(data);
+            if (next === undefined) updated.delete(key);
+            else updated.set(key, next);
+            await commit(updated);
+            return next;
+        }),
+        delete: (key) => run(async (data) => {
+            if (!data.has(key)) return;
+            const updated = new Map(data);
+            updated.delete(key);
+            await commit(updated);
+        }),
+        deleteWhere: (fn) => run(async (data) => {
+            const kept = new Map([...data].filter(([key, value]) => !fn(value, key)));
+            const deleted = data.size - kept.size;
+            if (deleted > 0) await commit(kept);
+            return deleted;
+        }),
+        entries: () => run((data) => [...data.entries()]),
+        values: () => run((data) => [...data.values()]),
+    };
+}
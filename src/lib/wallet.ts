@@ -0,0 +1,118 @@
+import Web3 from 'web3';
+import {
+    createThirdwebClient,
+    defineChain,
+    getContract,
+    prepareContractCall,
+    prepareTransaction,
+    sendTransaction,
+    waitForReceipt,
+    type Chain,
+    type ThirdwebClient,
+} from 'thirdweb';
+import { createWallet, inAppWallet, type Wallet } from 'thirdweb/wallets';
+import type { X402Signer } from './x402/client';
+import { browserWalletSigner, chainOf, type ChainParams, type EthereumProvider } from './x402/signers';
+
+// --- Wallet connection (browser only) ---
+// With NEXT_PUBLIC_THIRDWEB_CLIENT_ID set, the chat page connects through
+// thirdweb: MetaMask, Coinbase Wallet, any WalletConnect wallet, or an embedded
+// wallet signed in by email or passkey. Without it, only an injected wallet
+// (window.ethereum) can connect, as before.
+
+const THIRDWEB_CLIENT_ID = process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID;
+
+export const thirdwebClient: ThirdwebClient | null = THIRDWEB_CLIENT_ID
+    ? createThirdwebClient({ clientId: THIRDWEB_CLIENT_ID })
+    : null;
+
+// Offered in the connect modal, in this order
+export const WALLETS: Wallet[] = [
+    createWallet('io.metamask'),
+    createWallet('com.coinbase.wallet'),
+    createWallet('walletConnect'),
+    inAppWallet({ auth: { options: ['email', 'passkey'] } }),
+];
+
+// A chain as thirdweb describes it; without an RPC URL thirdweb uses its own
+export function thirdwebChain(chain: ChainParams): Chain {
+    return defineChain({
+        id: chain.chainId,
+        name: chain.chainName,
+        rpc: chain.rpcUrls[0],
+        nativeCurrency: chain.nativeCurrency,
+        blockExplorers: chain.blockExplorerUrls?.map(url => ({ name: 'Explorer', url })),
+    });
+}
+
+// Pays from a wallet connected through thirdweb, switching it to the option's
+// chain first, and waits for the transfer to be mined. Whichever account the
+// wallet has active when asked is the one that signs.
+export function thirdwebSigner(
+    client: ThirdwebClient,
+    wallet: Wallet,
+    options: { onSubmitted?: (txHash: string) => void } = {}
+): X402Signer {
+    const account = () => {
+        const active = wallet.getAccount();
+        if (!active) throw new Error('Wallet not connected');
+        return active;
+    };
+
+    return {
+        address: Web3.utils.toChecksumAddress(account().address),
+        signMessage: message => account().signMessage({ message }),
+        pay: async (option, amount) => {
+            const chain = thirdwebChain(chainOf(option));
+            if (wallet.getChain()?.id !== chain.id) await wallet.switchChain(chain);
+
+            const payTo = option.payTo as `0x${string}`;
+            const transaction = option.asset === 'native'
+                ? prepareTransaction({ client, chain, to: payTo, value: BigInt(amount) })
+                : prepareContractCall({
+                    contract: getContract({ client, chain, address: option.asset }),
+                    method: 'function transfer(address to, uint256 amount) returns (bool)',
+                    params: [payTo, BigInt(amount)],
+                });
+
+            const { transactionHash } = await sendTransaction({ account: account(), transaction });
+            options.onSubmitted?.(transactionHash);
+            const receipt = await waitForReceipt({ client, chain, transactionHash });
+            return { transaction: receipt.transactionHash };
+        },
+    };
+}
+
+// --- Injected wallets ---
+
+export function injectedProvider(): EthereumProvider | undefined {
+    return typeof window === 'undefined' ? undefined : (window as Window & { ethereum?: EthereumProvider }).ethereum;
+}
+
+export function injectedSigner(
+    ethereum: EthereumProvider,
+    account: string,
+    options: { onSubmitted?: (txHash: string) => void } = {}
+): X402Signer {
+    return browserWalletSigner(new Web3(ethereum), account, options);
+}
+
+// --- Remembered connection ---
+// How the page last connected, so a reload reconnects the same way without a
+// prompt. thirdweb remembers its own wallets; this covers the other two.
+
+export type ConnectionKind = 'injected' | 'simulated';
+
+const CONNECTION_KEY = 'private-ai-wallet';
+
+export function rememberConnection(kind: ConnectionKind) {
+    localStorage.setItem(CONNECTION_KEY, kind);
+}
+
+export function rememberedConnection(): ConnectionKind | null {
+    return localStorage.getItem(CONNECTION_KEY) as ConnectionKind | null;
+}
+
+export function forgetConnection() {
+    localStorage.removeItem(CONNECTION_KEY);
+}
@@ -0,0 +1,196 @@
+import { formatSiweMessage } from '../siwe';
+import { encodePayment } from './encoding';
+import {
+    X402_VERSION,
+    type DiscoveryDocument,
+    type ExactEvmPayload,
+    type PaymentPayload,
+    type PaymentRequiredResponse,
+    type PaymentRequirements,
+} from './types';
+
+// --- x402 client ---
+// A fetch that pays. When a request is answered 402, one of the offered options
+// is paid through a signer and the request is sent again with the X-PAYMENT
+// header, and again for as long as the server says the payment isn't final yet.
+// Paid responses are handed back untouched, so a streamed answer can be read as
+// it arrives. The chat page pays through it with a browser wallet, the CLI with
+// a local key. Works in the browser and in Node.
+
+// How often a paid request is resent while its payment isn't final yet
+const MAX_PAYMENT_RETRIES = 6;
+
+export interface X402Signer {
+    address: string;
+    // personal_sign, for Sign-In With Ethereum
+    signMessage(message: string): Promise<string>;
+    // Pays `amount`, in the smallest unit of the option's asset, to the option's payTo
+    pay(option: PaymentRequirements, amount: string): Promise<ExactEvmPayload>;
+    // Most the payer spends on gas to pay the option, in the native coin. Left
+    // out by signers whose wallet prices gas itself.
+    fee?(option: PaymentRequirements): Promise<bigint>;
+}
+
+// Most a client may pay in total, per asset ('native' or the token contract),
+// in the asset's smallest unit. Options in an asset without a cap are never paid.
+// Gas the signer reports counts against the native cap.
+export type SpendingCap = Record<string, bigint>;
+
+// Every option offered would take the client over its spending cap
+export class SpendingCapError extends Error {
+    constructor(readonly accepts: PaymentRequirements[]) {
+        super('Paying for this request would exceed the spending cap');
+        this.name = 'SpendingCapError';
+    }
+}
+
+// The user declined to choose a payment option
+export class PaymentCancelledError extends Error {
+    constructor() {
+        super('No payment option was chosen');
+        this.name = 'PaymentCancelledError';
+    }
+}
+
+export interface X402ClientOptions {
+    signer: X402Signer;
+    spendingCap?: SpendingCap;
+    // Picks among the affordable options, or null to cancel. The first one by default.
+    choose?: (accepts: PaymentRequirements[]) => Promise<PaymentRequirements | null>;
+    // Just before the signer pays, and once it has
+    onPayment?: (option: PaymentRequirements) => void;
+    onPaid?: (payment: PaymentPayload) => void;
+    // The server asked for the same payment again after `seconds`
+    onPending?: (reason: string, seconds: number) => void;
+    fetch?: typeof fetch;
+}
+
+export interface X402Client {
+    // Same as fetch; the body must be something that can be sent twice, such as a string
+    fetch(input: string | URL, init?: RequestInit): Promise<Response>;
+    // Paid so far, per asset
+    spent(): SpendingCap;
+}
+
+// Resends a paid request while the server answers that its payment isn't final
+// yet (not mined or not confirmed), waiting as long as the server asks.
+export async function sendWithPaymentRetry(
+    send: () => Promise<Response>,
+    onPending?: (reason: string, seconds: number) => void
+): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+        const response = await send();
+        if (response.status !== 402 || attempt >= MAX_PAYMENT_RETRIES) return response;
+
+        const body = await response.clone().json().catch(() => null);
+        if (!body?.retryable) return response;
+
+        const seconds = Number(response.headers.get('Retry-After') || body.retryAfterSeconds || 5);
+        onPending?.(body.error, seconds);
+        await new Promise(resolve => setTimeout(resolve, seconds * 1000));
+    }
+}
+
+export function createX402Client(options: X402ClientOptions): X402Client {
+    const { signer, spendingCap } = options;
+    const fetcher = options.fetch ?? ((input, init) => fetch(input, init));
+    const spent: SpendingCap = {};
+
+    const spentIn = (asset: string) => spent[asset] ?? BigInt(0);
+    const affordable = (option: PaymentRequirements) => {
+        if (!spendingCap) return true;
+        const cap = spendingCap[option.asset];
+        return cap !== undefined && spentIn(option.asset) + BigInt(option.maxAmountRequired) <= cap;
+    };
+
+    return {
+        spent: () => ({ ...spent }),
+
+        async fetch(input, init = {}) {
+            const send = (payment?: string) => {
+                const headers = new Headers(init.headers);
+                if (payment) headers.set('X-PAYMENT', payment);
+                return fetcher(input, { ...init, headers });
+            };
+
+            const response = await send();
+            if (response.status !== 402) return response;
+
+            const challenge: PaymentRequiredResponse | null = await response.clone().json().catch(() => null);
+            const accepts = challenge?.accepts ?? [];
+            if (accepts.length === 0) return response;
+
+            const payable = accepts.filter(affordable);
+            if (payable.length === 0) throw new SpendingCapError(accepts);
+            const option = options.choose ? await options.choose(payable) : payable[0];
+            if (!option) throw new PaymentCancelledError();
+
+            // Counted before paying, so concurrent requests can't both slip under the cap
+            const amount = BigInt(option.maxAmountRequired);
+            spent[option.asset] = spentIn(option.asset) + amount;
+            let fee = BigInt(0);
+            const release = () => {
+                spent[option.asset] = spentIn(option.asset) - amount;
+                if (fee > BigInt(0)) spent.native = spentIn('native') - fee;
+            };
+
+            let payload: ExactEvmPayload;
+            try {
+                // The gas comes on top, in the native coin
+                fee = await signer.fee?.(option) ?? BigInt(0);
+                if (fee > BigInt(0)) {
+                    spent.native = spentIn('native') + fee;
+                    const cap = spendingCap?.native;
+                    if (spendingCap && (cap === undefined || spentIn('native') > cap)) throw new SpendingCapError([option]);
+                }
+                options.onPayment?.(option);
+                payload = await signer.pay(option, option.maxAmountRequired);
+            } catch (error) {
+                release();
+                throw error;
+            }
+
+            const payment: PaymentPayload = { x402Version: X402_VERSION, scheme: option.scheme, network: option.network, payload };
+            options.onPaid?.(payment);
+            const header = encodePayment(payment);
+            return sendWithPaymentRetry(() => send(header), options.onPending);
+        },
+    };
+}
+
+// The server's /.well-known/x402 document: its paid resources, prices and chains
+export async function discover(baseUrl: string, fetcher: typeof fetch = fetch): Promise<DiscoveryDocument> {
+    const response = await fetcher(`${new URL(baseUrl).origin}/.well-known/x402`);
+    if (!response.ok) throw new Error(`Discovery failed: ${response.status} ${response.statusText}`);
+    return response.json();
+}
+
+// Signs in with Ethereum at `baseUrl`, on the chain its discovery document
+// names, and returns the session token, which clients outside the browser send
+// as `Authorization: Bearer <token>`
+export async function signIn(baseUrl: string, signer: X402Signer, fetcher: typeof fetch = fetch): Promise<string> {
+    const origin = new URL(baseUrl).origin;
+    const { signIn: { chainId } } = await discover(origin, fetcher);
+    const nonceResponse = await fetcher(`${origin}/api/auth/nonce`);
+    const { nonce, error: nonceError } = await nonceResponse.json();
+    if (!nonceResponse.ok) throw new Error(nonceError || 'Could not start sign-in');
+    const message = formatSiweMessage({
+        domain: new URL(origin).host,
+        address: signer.address,
+        statement: 'Sign in to Private AI. Query payments will only be accepted from this wallet.',
+        uri: origin,
+        version: '1',
+        chainId,
+        nonce,
+        issuedAt: new Date().toISOString(),
+    });
+
+    const response = await fetcher(`${origin}/api/auth/verify`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature: await signer.signMessage(message), token: true }),
+    });
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) throw new Error(body.error || 'Sign-in failed');
+    return body.token;
+}
@@ -0,0 +1,93 @@
+import { eth, utils } from 'web3';
+import { chainIdOf } from '../chain';
+import type { ExactEvmAuthorization, PaymentRequirements } from './types';
+
+// --- EIP-3009 transfer authorizations ---
+// The x402 spec's `exact` EVM payload: the payer signs an EIP-712
+// TransferWithAuthorization for a token that implements EIP-3009, such as USDC,
+// and the facilitator submits it on settle and pays the gas. The token's EIP-712
+// domain name and version come from the requirement's `extra`.
+
+export const TRANSFER_WITH_AUTHORIZATION_ABI = {
+    name: 'transferWithAuthorization',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+        { name: 'from', type: 'address' },
+        { name: 'to', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'validAfter', type: 'uint256' },
+        { name: 'validBefore', type: 'uint256' },
+        { name: 'nonce', type: 'bytes32' },
+        { name: 'v', type: 'uint8' },
+        { name: 'r', type: 'bytes32' },
+        { name: 's', type: 'bytes32' },
+    ],
+    outputs: [],
+} as const;
+
+export const AUTHORIZATION_STATE_ABI = {
+    name: 'authorizationState',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+        { name: 'authorizer', type: 'address' },
+        { name: 'nonce', type: 'bytes32' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+} as const;
+
+export interface AuthorizationDomain {
+    name: string;
+    version: string;
+    chainId: number;
+    verifyingContract: string;
+}
+
+// EIP-712 domain of the option's token, or null when it doesn't take authorizations
+export function authorizationDomain(requirements: PaymentRequirements): AuthorizationDomain | null {
+    const { name, version } = requirements.extra ?? {};
+    if (requirements.asset === 'native' || typeof name !== 'string' || typeof version !== 'string') return null;
+    return { name, version, chainId: chainIdOf(requirements.network), verifyingContract: requirements.asset };
+}
+
+// The EIP-712 hash the payer signs
+function authorizationHash(authorization: ExactEvmAuthorization, domain: AuthorizationDomain): string {
+    return eth.abi.getEncodedEip712Data({
+        types: {
+            EIP712Domain: [
+                { name: 'name', type: 'string' },
+                { name: 'version', type: 'string' },
+                { name: 'chainId', type: 'uint256' },
+                { name: 'verifyingContract', type: 'address' },
+            ],
+            TransferWithAuthorization: TRANSFER_WITH_AUTHORIZATION_ABI.inputs.slice(0, 6),
+        },
+        primaryType: 'TransferWithAuthorization',
+        domain: { ...domain },
+        message: { ...authorization },
+    }, true);
+}
+
+export function signAuthorization(privateKey: string, authorization: ExactEvmAuthorization, domain: AuthorizationDomain): string {
+    return eth.accounts.signMessageWithPrivateKey(authorizationHash(authorization, domain), privateKey).signature;
+}
+
+// Address that signed the authorization. Throws on a malformed signature.
+export function authorizationSigner(authorization: ExactEvmAuthorization, signature: string, domain: AuthorizationDomain): string {
+    return eth.accounts.recover(authorizationHash(authorization, domain), signature, true);
+}
+
+// Calldata of the token's transferWithAuthorization() for a signed authorization
+export function encodeTransferWithAuthorization(authorization: ExactEvmAuthorization, signature: string): string {
+    const { from, to, value, validAfter, validBefore, nonce } = authorization;
+    const r = signature.slice(0, 66);
+    const s = `0x${signature.slice(66, 130)}`;
+    const v = Number(utils.hexToNumber(`0x${signature.slice(130, 132)}`));
+    return eth.abi.encodeFunctionCall(TRANSFER_WITH_AUTHORIZATION_ABI, [from, to, value, validAfter, validBefore, nonce, v < 27 ? v + 27 : v, r, s]);
+}
+
+// Calldata of authorizationState(), which returns whether the nonce is used
+export function encodeAuthorizationState(authorizer: string, nonce: string): string {
+    return eth.abi.encodeFunctionCall(AUTHORIZATION_STATE_ABI, [authorizer, nonce]);
+}
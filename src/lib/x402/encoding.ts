@@ -0,0 +1,64 @@
+import type { ExactEvmAuthorization, ExactEvmPayload, PaymentPayload, SettleResponse } from './types';
+
+// --- X-PAYMENT / X-PAYMENT-RESPONSE header encoding ---
+// Both headers carry base64-encoded JSON. Safe to use from the browser.
+
+export function encodePayment(payment: PaymentPayload): string {
+    return btoa(JSON.stringify(payment));
+}
+
+const BYTES_PATTERN = /^0x(?:[0-9a-fA-F]{2})+$/;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const UINT_PATTERN = /^\d{1,78}$/;
+
+function isAuthorization(authorization: Partial<ExactEvmAuthorization> | null): authorization is ExactEvmAuthorization {
+    return typeof authorization === 'object' && authorization !== null &&
+        ADDRESS_PATTERN.test(String(authorization.from)) &&
+        ADDRESS_PATTERN.test(String(authorization.to)) &&
+        UINT_PATTERN.test(String(authorization.value)) &&
+        UINT_PATTERN.test(String(authorization.validAfter)) &&
+        UINT_PATTERN.test(String(authorization.validBefore)) &&
+        /^0x[0-9a-fA-F]{64}$/.test(String(authorization.nonce));
+}
+
+function isExactEvmPayload(payload: Record<string, unknown> | null | undefined): payload is ExactEvmPayload {
+    if (typeof payload !== 'object' || payload === null) return false;
+    if ('authorization' in payload) {
+        return typeof payload.signature === 'string' && /^0x[0-9a-fA-F]{130}$/.test(payload.signature) &&
+            isAuthorization(payload.authorization as Partial<ExactEvmAuthorization>);
+    }
+    if ('transaction' in payload) {
+        return typeof payload.transaction === 'string' && /^0x[0-9a-fA-F]{64}$/.test(payload.transaction);
+    }
+    return typeof payload.signedTransaction === 'string' && BYTES_PATTERN.test(payload.signedTransaction);
+}
+
+export function isPaymentPayload(payment: Partial<PaymentPayload> | null): payment is PaymentPayload {
+    return typeof payment?.x402Version === 'number' &&
+        typeof payment.scheme === 'string' &&
+        typeof payment.network === 'string' &&
+        isExactEvmPayload(payment.payload as Record<string, unknown> | undefined);
+}
+
+// Returns null when the header isn't a well-formed payment payload
+export function decodePayment(header: string): PaymentPayload | null {
+    try {
+        const payment = JSON.parse(atob(header));
+        return isPaymentPayload(payment) ? payment : null;
+    } catch {
+        return null;
+    }
+}
+
+export function encodePaymentResponse(settlement: SettleResponse): string {
+    const { success, transaction, network, payer } = settlement;
+    return btoa(JSON.stringify({ success, transaction, network, payer }));
+}
+
+export function decodePaymentResponse(header: string): SettleResponse | null {
+    try {
+        return JSON.parse(atob(header)) as SettleResponse;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,83 @@
+import { logger } from '@/lib/logger';
+import * as localFacilitator from './facilitator';
+import {
+    X402_VERSION,
+    type FacilitatorRequest,
+    type PaymentPayload,
+    type PaymentRequirements,
+    type SettleResponse,
+    type VerifyResponse,
+} from './types';
+
+// --- Facilitator selection ---
+// With FACILITATOR_URL set, verification and settlement go to that service over
+// HTTP (e.g. another deployment's /api/facilitator). Otherwise they run in-process.
+
+// How long to wait before trying an unreachable facilitator again
+const UNAVAILABLE_RETRY_AFTER_SECONDS = 10;
+
+// How long a call may take before the facilitator counts as unavailable. Settling
+// waits for the transfer to be mined, as ours does for up to 30 seconds.
+const VERIFY_TIMEOUT_MS = Number(process.env.FACILITATOR_VERIFY_TIMEOUT_MS || 10_000);
+const SETTLE_TIMEOUT_MS = Number(process.env.FACILITATOR_SETTLE_TIMEOUT_MS || 45_000);
+
+export interface Facilitator {
+    verify(payment: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse>;
+    settle(payment: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse>;
+}
+
+function remoteFacilitator(baseUrl: string): Facilitator {
+    const post = async <T>(path: string, payment: PaymentPayload, requirements: PaymentRequirements, timeoutMs: number): Promise<T> => {
+        const body: FacilitatorRequest = {
+            x402Version: X402_VERSION,
+            paymentPayload: payment,
+            paymentRequirements: requirements,
+        };
+
+        const response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal: AbortSignal.timeout(timeoutMs),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Facilitator ${path} failed: ${response.status}`);
+        }
+        return response.json();
+    };
+
+    return {
+        async verify(payment, requirements) {
+            try {
+                return await post<VerifyResponse>('/verify', payment, requirements, VERIFY_TIMEOUT_MS);
+            } catch (error) {
+                logger.error({ err: error, module: 'facilitator-client' }, 'Facilitator verify error');
+                return {
+                    isValid: false,
+                    invalidReason: 'Facilitator unavailable',
+                    retryAfterSeconds: UNAVAILABLE_RETRY_AFTER_SECONDS,
+                };
+            }
+        },
+        async settle(payment, requirements) {
+            try {
+                return await post<SettleResponse>('/settle', payment, requirements, SETTLE_TIMEOUT_MS);
+            } catch (error) {
+                logger.error({ err: error, module: 'facilitator-client' }, 'Facilitator settle error');
+                return {
+                    success: false,
+                    errorReason: 'Facilitator unavailable',
+                    transaction: localFacilitator.transactionHashOf(payment.payload) ?? '',
+                    network: requirements.network,
+                    retryAfterSeconds: UNAVAILABLE_RETRY_AFTER_SECONDS,
+                };
+            }
+        },
+    };
+}
+
+export function getFacilitator(): Facilitator {
+    const url = process.env.FACILITATOR_URL;
+    return url ? remoteFacilitator(url) : localFacilitator;
+}
@@ -0,0 +1,540 @@
+import { eth, utils } from 'web3';
+import { chainIdOf, getNetwork } from '@/lib/chain';
+import { findPaymentOption, paymentOptions } from '@/lib/payment-options';
+import { logger } from '@/lib/logger';
+import { RpcUnavailableError, blockNumber, rpc } from '@/lib/rpc';
+import { SIMULATED } from '@/lib/simulated-chain';
+import { collection } from '@/lib/storage';
+import { authorizationDomain, authorizationSigner, encodeAuthorizationState, encodeTransferWithAuthorization } from './eip3009';
+import { decodePayment, isPaymentPayload } from './encoding';
+import {
+    X402_VERSION,
+    type ExactEvmAuthorization,
+    type ExactEvmPayload,
+    type FacilitatorRequest,
+    type PaymentPayload,
+    type PaymentRequirements,
+    type SettleResponse,
+    type VerifyResponse,
+} from './types';
+
+// --- Local x402 facilitator ---
+// Verifies and settles `exact` payments on the EVM networks we know about.
+// Served over HTTP by /api/facilitator/*, or called in-process by the resource server.
+// Either way it only settles payments to SERVER_WALLET in the assets this server
+// accepts, so nobody else can spend the submitter key's gas.
+
+const log = logger.child({ module: 'facilitator' });
+
+const SETTLE_TIMEOUT_MS = 30_000;
+const RECEIPT_POLL_INTERVAL_MS = 1_000;
+
+// Blocks a payment must be buried under before it's settled; 1 means mined
+const PAYMENT_CONFIRMATIONS = Math.max(1, Number(process.env.PAYMENT_CONFIRMATIONS || 1));
+
+// Suggested wait before retrying a payment that isn't final yet
+const RETRY_AFTER_SECONDS = 5;
+
+// Submits EIP-3009 authorizations and pays their gas. The simulated chain
+// charges no gas, so a throwaway key does there.
+const SUBMITTER_KEY = process.env.FACILITATOR_PRIVATE_KEY
+    ?? (SIMULATED ? eth.accounts.create().privateKey : undefined);
+
+// Gas allowed for a transferWithAuthorization() call
+const AUTHORIZATION_GAS = 150_000;
+
+// The transaction each authorization was submitted in, so a settle retried after
+// a timeout keeps waiting on it instead of submitting the authorization again
+interface AuthorizationSubmission {
+    txHash: string;
+    rawTransaction: string;
+    submittedAt: string;
+}
+
+const submissions = collection<AuthorizationSubmission>('authorization-submissions');
+
+function submissionKey(requirements: PaymentRequirements, authorization: ExactEvmAuthorization): string {
+    return `${chainIdOf(requirements.network)}:${requirements.asset.toLowerCase()}:${authorization.from.toLowerCase()}:${authorization.nonce.toLowerCase()}`;
+}
+
+interface RpcLog {
+    address: string;
+    topics: string[];
+    data: string;
+}
+
+interface RpcReceipt {
+    status: string;
+    blockNumber: string;
+    logs: RpcLog[];
+}
+
+interface RpcTransaction {
+    from: string;
+    to: string | null;
+    value: string;
+}
+
+interface RpcBlock {
+    timestamp: string;
+}
+
+type TransferCheck =
+    | { valid: true; payer: string; amount: bigint; blockNumber?: number }
+    // Retryable failures may pass later (not mined yet, RPC down); the rest never will
+    | { valid: false; reason: string; retryable?: boolean };
+
+// --- ERC-20 ---
+// keccak256('Transfer(address,address,uint256)')
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const TRANSFER_SELECTOR = '0xa9059cbb'; // transfer(address,uint256)
+const BALANCE_OF_SELECTOR = '0x70a08231'; // balanceOf(address)
+
+function isNative(requirements: PaymentRequirements): boolean {
+    return requirements.asset === 'native';
+}
+
+function addressWord(address: string): string {
+    return address.toLowerCase().replace(/^0x/, '').padStart(64, '0');
+}
+
+function wordToAddress(word: string): string {
+    return `0x${word.replace(/^0x/, '').slice(-40)}`.toLowerCase();
+}
+
+// Sum of the token transfers from `from` to the payee in this receipt
+function tokenTransferred(receipt: RpcReceipt, from: string, requirements: PaymentRequirements): bigint {
+    const token = requirements.asset.toLowerCase();
+    const payTo = requirements.payTo.toLowerCase();
+    return receipt.logs
+        .filter(log =>
+            log.address.toLowerCase() === token &&
+            log.topics[0]?.toLowerCase() === TRANSFER_TOPIC &&
+            log.topics.length === 3 &&
+            wordToAddress(log.topics[1]) === from.toLowerCase() &&
+            wordToAddress(log.topics[2]) === payTo
+        )
+        .reduce((sum, log) => sum + BigInt(log.data), BigInt(0));
+}
+
+// Recipient and amount of a transfer(address,uint256) call
+function decodeTokenTransfer(data: string): { to: string; amount: bigint } | null {
+    const hex = data.toLowerCase();
+    if (!hex.startsWith(TRANSFER_SELECTOR) || hex.length < 10 + 128) return null;
+    return {
+        to: wordToAddress(hex.slice(10, 74)),
+        amount: BigInt(`0x${hex.slice(74, 138)}`),
+    };
+}
+
+// Null for an authorization: its transaction only exists once the facilitator submits it
+export function transactionHashOf(payload: ExactEvmPayload): string | null {
+    if ('authorization' in payload) return null;
+    return 'transaction' in payload
+        ? payload.transaction.toLowerCase()
+        : utils.keccak256(payload.signedTransaction);
+}
+
+function checkRequirements(payment: PaymentPayload, requirements: PaymentRequirements): string | null {
+    if (payment.x402Version !== X402_VERSION) return `Unsupported x402 version ${payment.x402Version}`;
+    if (payment.scheme !== requirements.scheme) return `Unsupported scheme ${payment.scheme}`;
+    if (payment.network !== requirements.network) return `Payment is for network ${payment.network}, expected ${requirements.network}`;
+    if (!getNetwork(requirements.network)) return `Unsupported network ${requirements.network}`;
+    if (!findPaymentOption(requirements.network, requirements.asset)) return `Unsupported asset ${requirements.asset} on ${requirements.network}`;
+    if (requirements.payTo.toLowerCase() !== process.env.SERVER_WALLET?.toLowerCase()) return 'Payments to this payTo address are not settled here';
+    return null;
+}
+
+// A transfer that has been mined. Tokens are paid by the sender, or by `payer`
+// when a facilitator submitted the payer's authorization.
+async function checkMinedTransfer(txHash: string, requirements: PaymentRequirements, payer?: string): Promise<TransferCheck> {
+    const { network } = requirements;
+    const txLog = log.child({ txHash, network, asset: requirements.asset });
+    txLog.info('🔍 Verifying payment tx');
+
+    const receipt = await rpc<RpcReceipt>(network, 'eth_getTransactionReceipt', [txHash]);
+    if (!receipt) {
+        // Pending, or not seen by our node yet
+        txLog.info('⏳ Transaction receipt not found yet');
+        return { valid: false, reason: 'Transaction is not mined yet', retryable: true };
+    }
+
+    // Check if transaction was successful
+    if (receipt.status !== '0x1') {
+        txLog.info('❌ Transaction failed');
+        return { valid: false, reason: 'Transaction failed' };
+    }
+
+    // Fetch the actual transaction to check value and recipient
+    const tx = await rpc<RpcTransaction>(network, 'eth_getTransactionByHash', [txHash]);
+    if (!tx) {
+        txLog.info('⏳ Transaction not found yet');
+        return { valid: false, reason: 'Transaction not found yet', retryable: true };
+    }
+
+    const expected = requirements.payTo.toLowerCase();
+    let paid: bigint;
+    if (isNative(requirements)) {
+        // Verify recipient (case-insensitive comparison)
+        const txTo = tx.to?.toLowerCase();
+        if (txTo !== expected) {
+            txLog.info({ expected, to: txTo }, '❌ Wrong recipient');
+            return { valid: false, reason: 'Payment was sent to the wrong recipient' };
+        }
+        paid = BigInt(tx.value || '0');
+    } else {
+        // Token payments are read from the Transfer events the sender emitted
+        paid = tokenTransferred(receipt, payer ?? tx.from, requirements);
+        if (paid === BigInt(0)) {
+            txLog.info({ expected }, '❌ No token transfer to the recipient in tx');
+            return { valid: false, reason: 'Transaction contains no token transfer to the recipient' };
+        }
+    }
+
+    // Verify payment amount (at least the required amount)
+    const required = BigInt(requirements.maxAmountRequired);
+    if (paid < required) {
+        txLog.info({ requiredWei: required.toString(), paidWei: paid.toString() }, '❌ Insufficient payment');
+        return { valid: false, reason: 'Insufficient payment amount' };
+    }
+
+    // Refuse transactions mined too long ago
+    const block = await rpc<RpcBlock>(network, 'eth_getBlockByNumber', [receipt.blockNumber, false]);
+    if (!block) {
+        txLog.info('⏳ Block not found yet');
+        return { valid: false, reason: 'Transaction block not found yet', retryable: true };
+    }
+
+    const ageSeconds = Math.floor(Date.now() / 1000) - Number(BigInt(block.timestamp));
+    if (ageSeconds > requirements.maxTimeoutSeconds) {
+        txLog.info({ ageSeconds, maxTimeoutSeconds: requirements.maxTimeoutSeconds }, '❌ Payment expired');
+        return { valid: false, reason: `Payment is older than ${requirements.maxTimeoutSeconds} seconds` };
+    }
+
+    return {
+        valid: true,
+        payer: payer ?? tx.from,
+        amount: paid,
+        blockNumber: Number(BigInt(receipt.blockNumber)),
+    };
+}
+
+// A signed transfer that hasn't been broadcast yet
+async function checkSignedTransfer(rawTransaction: string, requirements: PaymentRequirements): Promise<TransferCheck> {
+    const { network } = requirements;
+
+    let tx;
+    try {
+        tx = eth.accounts.TransactionFactory.fromSerializedData(utils.hexToBytes(rawTransaction));
+    } catch {
+        return { valid: false, reason: 'Malformed signed transaction' };
+    }
+
+    if (tx.common.chainId() !== BigInt(chainIdOf(network))) {
+        return { valid: false, reason: 'Signed transaction is for the wrong chain' };
+    }
+
+    const txTo = tx.to?.toString().toLowerCase();
+    let recipient: string | undefined = txTo;
+    let amount = tx.value;
+    if (!isNative(requirements)) {
+        // Must be a plain transfer() call on the token contract
+        const transfer = decodeTokenTransfer(utils.bytesToHex(tx.data));
+        if (txTo !== requirements.asset.toLowerCase() || !transfer) {
+            return { valid: false, reason: `Signed transaction is not a ${requirements.asset} transfer` };
+        }
+        recipient = transfer.to;
+        amount = transfer.amount;
+    }
+
+    if (recipient !== requirements.payTo.toLowerCase()) {
+        return { valid: false, reason: 'Payment was sent to the wrong recipient' };
+    }
+
+    if (amount < BigInt(requirements.maxAmountRequired)) {
+        return { valid: false, reason: 'Insufficient payment amount' };
+    }
+
+    const payer = tx.getSenderAddress().toString();
+
+    // The payer must be able to cover the transfer plus worst-case gas
+    const maxFeePerGas = 'maxFeePerGas' in tx ? tx.maxFeePerGas : tx.gasPrice;
+    const gasCost = tx.gasLimit * maxFeePerGas;
+    const balance = BigInt(await rpc<string>(network, 'eth_getBalance', [payer, 'latest']) ?? '0');
+    if (balance < tx.value + gasCost) {
+        return { valid: false, reason: 'Payer has insufficient funds' };
+    }
+
+    if (!isNative(requirements)) {
+        const tokenBalance = BigInt(await rpc<string>(network, 'eth_call', [
+            { to: requirements.asset, data: `${BALANCE_OF_SELECTOR}${addressWord(payer)}` },
+            'latest',
+        ]) || '0x0');
+        if (tokenBalance < amount) {
+            return { valid: false, reason: 'Payer has insufficient token balance' };
+        }
+    }
+
+    return { valid: true, payer, amount };
+}
+
+// An EIP-3009 authorization the facilitator hasn't submitted yet
+async function checkAuthorization(
+    payload: { signature: string; authorization: ExactEvmAuthorization },
+    requirements: PaymentRequirements
+): Promise<TransferCheck> {
+    const { network } = requirements;
+    const { authorization, signature } = payload;
+
+    // The token's EIP-712 domain comes from our own payment options, never the caller
+    const option = findPaymentOption(network, requirements.asset);
+    const domain = option && authorizationDomain({ ...requirements, extra: { name: option.name, version: option.version } });
+    if (!domain) return { valid: false, reason: `${requirements.asset} does not take EIP-3009 authorizations` };
+    if (!SUBMITTER_KEY) return { valid: false, reason: 'This facilitator does not submit EIP-3009 authorizations' };
+
+    if (authorization.to.toLowerCase() !== requirements.payTo.toLowerCase()) {
+        return { valid: false, reason: 'Payment was sent to the wrong recipient' };
+    }
+
+    const amount = BigInt(authorization.value);
+    if (amount < BigInt(requirements.maxAmountRequired)) {
+        return { valid: false, reason: 'Insufficient payment amount' };
+    }
+
+    // It must stay valid for as long as settling may take
+    const now = Math.floor(Date.now() / 1000);
+    if (BigInt(authorization.validAfter) > BigInt(now)) {
+        return { valid: false, reason: 'Authorization is not valid yet' };
+    }
+    if (BigInt(authorization.validBefore) < BigInt(now + SETTLE_TIMEOUT_MS / 1000)) {
+        return { valid: false, reason: 'Authorization expires too soon' };
+    }
+
+    let signer;
+    try {
+        signer = authorizationSigner(authorization, signature, domain);
+    } catch {
+        return { valid: false, reason: 'Malformed authorization signature' };
+    }
+    if (signer.toLowerCase() !== authorization.from.toLowerCase()) {
+        return { valid: false, reason: 'Authorization is not signed by the payer' };
+    }
+
+    // Already submitted by us: settling waits on that transaction
+    if (await submissions.get(submissionKey(requirements, authorization))) {
+        return { valid: true, payer: authorization.from, amount };
+    }
+
+    const used = await rpc<string>(network, 'eth_call', [
+        { to: requirements.asset, data: encodeAuthorizationState(authorization.from, authorization.nonce) },
+        'latest',
+    ]);
+    if (BigInt(used || '0x0') !== BigInt(0)) {
+        return { valid: false, reason: 'Authorization has already been used' };
+    }
+
+    const tokenBalance = BigInt(await rpc<string>(network, 'eth_call', [
+        { to: requirements.asset, data: `${BALANCE_OF_SELECTOR}${addressWord(authorization.from)}` },
+        'latest',
+    ]) || '0x0');
+    if (tokenBalance < amount) {
+        return { valid: false, reason: 'Payer has insufficient token balance' };
+    }
+
+    return { valid: true, payer: authorization.from, amount };
+}
+
+// Signs the transferWithAuthorization() call with the submitter key. Returns the raw transaction.
+async function signAuthorizationCall(
+    payload: { signature: string; authorization: ExactEvmAuthorization },
+    requirements: PaymentRequirements
+): Promise<string> {
+    const { network } = requirements;
+    const submitter = eth.accounts.privateKeyToAccount(SUBMITTER_KEY!);
+    const [nonce, gasPrice] = await Promise.all([
+        rpc<string>(network, 'eth_getTransactionCount', [submitter.address, 'pending']),
+        rpc<string>(network, 'eth_gasPrice', []),
+    ]);
+
+    const chainId = chainIdOf(network);
+    const common = eth.accounts.Common.custom({ chainId, networkId: chainId }, { baseChain: 'mainnet', hardfork: 'london' });
+    const tx = eth.accounts.TransactionFactory.fromTxData({
+        nonce: BigInt(nonce ?? '0x0'),
+        gasPrice: BigInt(gasPrice ?? '0x0'),
+        gasLimit: AUTHORIZATION_GAS,
+        to: requirements.asset,
+        value: BigInt(0),
+        data: encodeTransferWithAuthorization(payload.authorization, payload.signature),
+    }, { common });
+    return utils.bytesToHex(tx.sign(utils.hexToBytes(submitter.privateKey)).serialize());
+}
+
+// A resubmitted transaction is fine: the node or the ledger stops it counting twice.
+// Once mined, some nodes report its nonce as too low instead of known.
+async function broadcast(network: string, rawTransaction: string) {
+    try {
+        await rpc<string>(network, 'eth_sendRawTransaction', [rawTransaction]);
+    } catch (error) {
+        const message = (error as Error).message;
+        if (/already known|known transaction/i.test(message)) return;
+        if (/nonce too low/i.test(message) && await rpc(network, 'eth_getTransactionReceipt', [utils.keccak256(rawTransaction)])) return;
+        throw error;
+    }
+}
+
+async function waitForReceipt(network: string, txHash: string, deadline: number): Promise<RpcReceipt | null> {
+    while (Date.now() < deadline) {
+        const receipt = await rpc<RpcReceipt>(network, 'eth_getTransactionReceipt', [txHash]);
+        if (receipt) return receipt;
+        await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_INTERVAL_MS));
+    }
+    return null;
+}
+
+// Waits until the block is PAYMENT_CONFIRMATIONS deep. False if the deadline passes first.
+async function waitForConfirmations(network: string, block: number, deadline: number): Promise<boolean> {
+    while (true) {
+        const confirmations = await blockNumber(network) - block + 1;
+        if (confirmations >= PAYMENT_CONFIRMATIONS) return true;
+        if (Date.now() >= deadline) return false;
+        await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_INTERVAL_MS));
+    }
+}
+
+function errorReason(error: unknown, context: string): { reason: string; retryable: boolean } {
+    if (error instanceof RpcUnavailableError) {
+        return { reason: 'Chain RPC is unavailable', retryable: true };
+    }
+    log.error({ err: error }, `${context} error`);
+    return { reason: `${context} error`, retryable: false };
+}
+
+export async function verify(payment: PaymentPayload, requirements: PaymentRequirements): Promise<VerifyResponse> {
+    const mismatch = checkRequirements(payment, requirements);
+    if (mismatch) return { isValid: false, invalidReason: mismatch };
+
+    try {
+        const { payload } = payment;
+        const check = 'authorization' in payload
+            ? await checkAuthorization(payload, requirements)
+            : 'transaction' in payload
+                ? await checkMinedTransfer(payload.transaction, requirements)
+                : await checkSignedTransfer(payload.signedTransaction, requirements);
+
+        if (!check.valid) {
+            return {
+                isValid: false,
+                invalidReason: check.reason,
+                retryAfterSeconds: check.retryable ? RETRY_AFTER_SECONDS : undefined,
+            };
+        }
+        return { isValid: true, payer: check.payer };
+    } catch (error) {
+        const { reason, retryable } = errorReason(error, 'Payment verification');
+        return { isValid: false, invalidReason: reason, retryAfterSeconds: retryable ? RETRY_AFTER_SECONDS : undefined };
+    }
+}
+
+export async function settle(payment: PaymentPayload, requirements: PaymentRequirements): Promise<SettleResponse> {
+    const { network } = requirements;
+    const { payload } = payment;
+    let txHash: string | null = null;
+    const failure = (errorReason: string, retryable = false): SettleResponse => ({
+        success: false,
+        errorReason,
+        transaction: txHash ?? '',
+        network,
+        retryAfterSeconds: retryable ? RETRY_AFTER_SECONDS : undefined,
+    });
+    const deadline = Date.now() + SETTLE_TIMEOUT_MS;
+
+    try {
+        txHash = transactionHashOf(payload);
+        const mismatch = checkRequirements(payment, requirements);
+        if (mismatch) return failure(mismatch);
+
+        let payer: string | undefined;
+        if ('authorization' in payload) {
+            const authorized = await checkAuthorization(payload, requirements);
+            if (!authorized.valid) return failure(authorized.reason);
+
+            // The token refuses a second use of the nonce, which stops it being redeemed twice.
+            // Only the first settle submits it; a retry or a concurrent one waits on that transaction.
+            payer = authorized.payer;
+            const key = submissionKey(requirements, payload.authorization);
+            let submission = await submissions.get(key);
+            if (!submission) {
+                const rawTransaction = await signAuthorizationCall(payload, requirements);
+                const created = { txHash: utils.keccak256(rawTransaction).toLowerCase(), rawTransaction, submittedAt: new Date().toISOString() };
+                submission = await submissions.insert(key, created) ? created : (await submissions.get(key))!;
+            }
+            txHash = submission.txHash;
+            // Sent again on a retry, in case the first send never reached the node
+            log.info({ txHash, network, payer }, '📤 Submitting payment authorization');
+            await broadcast(network, submission.rawTransaction);
+        } else if ('signedTransaction' in payload) {
+            const signed = await checkSignedTransfer(payload.signedTransaction, requirements);
+            if (!signed.valid) return failure(signed.reason);
+
+            log.info({ txHash, network }, '📤 Broadcasting signed payment');
+            await broadcast(network, payload.signedTransaction);
+        }
+
+        // Known by now, an authorization's included
+        const minedHash = txHash!;
+        if (!('transaction' in payload) && !await waitForReceipt(network, minedHash, deadline)) {
+            return failure('Payment transaction was not mined in time', true);
+        }
+
+        const check = await checkMinedTransfer(minedHash, requirements, payer);
+        if (!check.valid) return failure(check.reason, check.retryable);
+
+        if (!await waitForConfirmations(network, check.blockNumber!, deadline)) {
+            return failure(`Payment has fewer than ${PAYMENT_CONFIRMATIONS} confirmations`, true);
+        }
+
+        log.info({ txHash: minedHash, network, payer: check.payer, amount: check.amount.toString() }, '✅ Payment settled');
+        return {
+            success: true,
+            transaction: minedHash,
+            network,
+            payer: check.payer,
+            amount: check.amount.toString(),
+            blockNumber: check.blockNumber,
+        };
+    } catch (error) {
+        const { reason, retryable } = errorReason(error, 'Payment settlement');
+        return failure(reason, retryable);
+    }
+}
+
+function isPaymentRequirements(requirements: Partial<PaymentRequirements> | undefined): requirements is PaymentRequirements {
+    const address = /^0x[0-9a-fA-F]{40}$/;
+    return typeof requirements === 'object' && requirements !== null &&
+        typeof requirements.scheme === 'string' &&
+        typeof requirements.network === 'string' &&
+        /^\d{1,78}$/.test(String(requirements.maxAmountRequired)) &&
+        address.test(String(requirements.payTo)) &&
+        (requirements.asset === 'native' || address.test(String(requirements.asset))) &&
+        Number.isFinite(requirements.maxTimeoutSeconds);
+}
+
+// Body of a POST to /verify or /settle. Returns null when it's unusable.
+export function parseFacilitatorRequest(
+    body: Partial<FacilitatorRequest> | null
+): { payment: PaymentPayload; requirements: PaymentRequirements } | null {
+    if (!isPaymentRequirements(body?.paymentRequirements)) return null;
+
+    const payment: Partial<PaymentPayload> | null = body.paymentPayload
+        ?? (typeof body.paymentHeader === 'string' ? decodePayment(body.paymentHeader) : null);
+    if (!isPaymentPayload(payment)) return null;
+
+    return { payment, requirements: body.paymentRequirements };
+}
+
+export function supported() {
+    return {
+        kinds: [...new Set(paymentOptions().map(option => option.network))]
+            .map(network => ({ x402Version: X402_VERSION, scheme: 'exact', network })),
+    };
+}
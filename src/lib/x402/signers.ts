@@ -0,0 +1,223 @@
+import Web3, { eth, utils } from 'web3';
+import { MONAD_EXPLORER_URL, MONAD_TESTNET_CHAIN_ID, MONAD_TESTNET_RPC, chainIdOf, getNetwork } from '../chain';
+import type { X402Signer } from './client';
+import { authorizationDomain, signAuthorization } from './eip3009';
+import type { DiscoveredNetwork, ExactEvmPayload, PaymentRequirements } from './types';
+
+// --- Payment signers ---
+// What pays for an x402 client. A browser wallet broadcasts the transfer itself
+// and hands over its hash; a local key only signs it, and the server broadcasts
+// it on settle, so no funds move unless the server accepts the payment. Tokens
+// that take EIP-3009 authorizations are paid with one, so the key pays no gas.
+
+// Just enough ERC-20 to pay in tokens
+const ERC20_TRANSFER_ABI = [
+    {
+        name: 'transfer',
+        type: 'function',
+        stateMutability: 'nonpayable',
+        inputs: [
+            { name: 'to', type: 'address' },
+            { name: 'amount', type: 'uint256' },
+        ],
+        outputs: [{ name: '', type: 'bool' }],
+    },
+] as const;
+
+// Gas allowed for a native and a token transfer; what isn't used is never charged
+const NATIVE_TRANSFER_GAS = 21_000;
+const TOKEN_TRANSFER_GAS = 100_000;
+
+// --- Browser wallets ---
+
+// What wallet_addEthereumChain needs to know about a chain
+export interface ChainParams {
+    chainId: number;
+    chainName: string;
+    nativeCurrency: { name: string; symbol: string; decimals: number };
+    rpcUrls: string[];
+    blockExplorerUrls?: string[];
+}
+
+export const MONAD_TESTNET: ChainParams = {
+    chainId: MONAD_TESTNET_CHAIN_ID,
+    chainName: 'Monad Testnet',
+    nativeCurrency: {
+        name: 'MON',
+        symbol: 'MON',
+        decimals: 18,
+    },
+    rpcUrls: [MONAD_TESTNET_RPC],
+    blockExplorerUrls: [MONAD_EXPLORER_URL],
+};
+
+// Chain of an x402 payment option, from its CAIP-2 network and `extra` details
+export function chainOf(option: PaymentRequirements): ChainParams {
+    const chainId = chainIdOf(option.network);
+    const extra = option.extra ?? {};
+    if (chainId === MONAD_TESTNET_CHAIN_ID && !extra.rpcUrl) return MONAD_TESTNET;
+
+    return {
+        chainId,
+        chainName: String(extra.chainName ?? option.network),
+        nativeCurrency: (extra.nativeCurrency as ChainParams['nativeCurrency']) ?? { name: 'ETH', symbol: 'ETH', decimals: 18 },
+        rpcUrls: extra.rpcUrl ? [String(extra.rpcUrl)] : [],
+        blockExplorerUrls: extra.explorerUrl ? [String(extra.explorerUrl)] : undefined,
+    };
+}
+
+// Chain of a network listed in the server's discovery document
+export function discoveredChain(network: DiscoveredNetwork): ChainParams {
+    return {
+        chainId: network.chainId,
+        chainName: network.name,
+        nativeCurrency: network.nativeCurrency,
+        rpcUrls: [network.rpcUrl],
+        blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+    };
+}
+
+// The EIP-1193 surface of window.ethereum used here
+export interface EthereumProvider {
+    request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
+    on?: (event: string, listener: (...args: unknown[]) => void) => void;
+    removeListener?: (event: string, listener: (...args: unknown[]) => void) => void;
+}
+
+// Switch the wallet to a chain, adding it first if the wallet doesn't know it
+export async function switchChain(ethereum: EthereumProvider, chain: ChainParams) {
+    const chainId = `0x${chain.chainId.toString(16)}`;
+    try {
+        await ethereum.request({
+            method: 'wallet_switchEthereumChain',
+            params: [{ chainId }],
+        });
+    } catch (switchError) {
+        // This error code indicates that the chain has not been added to MetaMask.
+        if ((switchError as { code?: number }).code === 4902) {
+            await ethereum.request({
+                method: 'wallet_addEthereumChain',
+                params: [{ ...chain, chainId }],
+            });
+        } else {
+            throw switchError;
+        }
+    }
+}
+
+// Pays from a browser wallet such as MetaMask, switching it to the option's
+// chain first, and waits for the transfer to be mined. Native coins are a plain
+// transfer, ERC-20 tokens a transfer() call.
+export function browserWalletSigner(
+    web3: Web3,
+    account: string,
+    options: { onSubmitted?: (txHash: string) => void } = {}
+): X402Signer {
+    return {
+        address: web3.utils.toChecksumAddress(account),
+        signMessage: message => web3.eth.personal.sign(message, account, ''),
+        pay: async (option, amount) => {
+            await switchChain(web3.provider as unknown as EthereumProvider, chainOf(option));
+
+            const transaction = option.asset === 'native'
+                ? web3.eth.sendTransaction({ from: account, to: option.payTo, value: amount })
+                : new web3.eth.Contract(ERC20_TRANSFER_ABI, option.asset).methods
+                    .transfer(option.payTo, amount)
+                    .send({ from: account });
+
+            return new Promise<ExactEvmPayload>((resolve, reject) => {
+                transaction
+                    .on('transactionHash', hash => options.onSubmitted?.(hash))
+                    .on('receipt', receipt => resolve({ transaction: receipt.transactionHash.toString() }))
+                    .on('error', reject);
+            });
+        },
+    };
+}
+
+// --- Local keys ---
+
+// Signed raw transfer of `amount` of the option's asset, for the server to broadcast
+export function signTransfer(
+    privateKey: string,
+    option: PaymentRequirements,
+    amount: string,
+    fees: { nonce: number | bigint; gasPrice: number | bigint }
+): string {
+    const chainId = chainIdOf(option.network);
+    const common = eth.accounts.Common.custom({ chainId, networkId: chainId }, { baseChain: 'mainnet', hardfork: 'london' });
+
+    const native = option.asset === 'native';
+    const tx = eth.accounts.TransactionFactory.fromTxData({
+        nonce: fees.nonce,
+        gasPrice: fees.gasPrice,
+        gasLimit: native ? NATIVE_TRANSFER_GAS : TOKEN_TRANSFER_GAS,
+        to: native ? option.payTo : option.asset,
+        value: native ? BigInt(amount) : BigInt(0),
+        data: native ? '0x' : eth.abi.encodeFunctionCall(ERC20_TRANSFER_ABI[0], [option.payTo, amount]),
+    }, { common });
+
+    return utils.bytesToHex(tx.sign(utils.hexToBytes(privateKey)).serialize());
+}
+
+// EIP-3009 authorization of `amount` of the option's token, valid from a few
+// minutes ago (for clock skew) until the payment would be too old anyway
+export function signTransferAuthorization(
+    privateKey: string,
+    option: PaymentRequirements,
+    amount: string
+): ExactEvmPayload | null {
+    const domain = authorizationDomain(option);
+    if (!domain) return null;
+
+    const now = Math.floor(Date.now() / 1000);
+    const authorization = {
+        from: eth.accounts.privateKeyToAccount(privateKey).address,
+        to: option.payTo,
+        value: amount,
+        validAfter: String(now - 600),
+        validBefore: String(now + option.maxTimeoutSeconds),
+        nonce: utils.randomHex(32),
+    };
+    return { signature: signAuthorization(privateKey, authorization, domain), authorization };
+}
+
+// Pays from a private key held by the caller, e.g. a script or the CLI. The
+// nonce and gas price come from `rpcUrl`, or else the chain's own endpoint if
+// this process knows it. The endpoint a 402 names is never used: the server
+// could pick the gas price. Signs at the gas price fee() last quoted, so a
+// spending cap that counted the fee holds.
+export function privateKeySigner(privateKey: string, options: { rpcUrl?: string } = {}): X402Signer {
+    const account = eth.accounts.privateKeyToAccount(privateKey);
+    const quotedGasPrices = new Map<string, bigint>();
+
+    const node = (option: PaymentRequirements) => {
+        const rpcUrl = options.rpcUrl ?? getNetwork(option.network)?.rpcUrls[0];
+        if (!rpcUrl) throw new Error(`No RPC endpoint configured for ${option.network}`);
+        return new Web3(rpcUrl);
+    };
+
+    return {
+        address: account.address,
+        signMessage: async message => account.sign(message).signature,
+        fee: async (option) => {
+            // The facilitator pays the gas of an authorization
+            if (authorizationDomain(option)) return BigInt(0);
+
+            const gasPrice = await node(option).eth.getGasPrice();
+            quotedGasPrices.set(option.network, gasPrice);
+            return gasPrice * BigInt(option.asset === 'native' ? NATIVE_TRANSFER_GAS : TOKEN_TRANSFER_GAS);
+        },
+        pay: async (option, amount) => {
+            const authorized = signTransferAuthorization(privateKey, option, amount);
+            if (authorized) return authorized;
+
+            const web3 = node(option);
+            const [nonce, gasPrice] = await Promise.all([
+                web3.eth.getTransactionCount(account.address, 'pending'),
+                quotedGasPrices.get(option.network) ?? web3.eth.getGasPrice(),
+            ]);
+            return { signedTransaction: signTransfer(privateKey, option, amount, { nonce, gasPrice }) };
+        },
+    };
+}
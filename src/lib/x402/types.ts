@@ -0,0 +1,137 @@
+// --- x402 protocol types ---
+// Shapes follow the x402 v1 spec. Besides the spec's EIP-3009 authorization, the
+// `exact` EVM payload accepts a plain transaction hash, since browser wallets
+// broadcast transfers themselves, and a signed raw transfer.
+
+export const X402_VERSION = 1;
+
+export interface PaymentRequirements {
+    scheme: 'exact';
+    network: string;
+    maxAmountRequired: string;
+    resource: string;
+    description: string;
+    mimeType: string;
+    payTo: string;
+    maxTimeoutSeconds: number;
+    asset: string;
+    outputSchema?: Record<string, unknown>;
+    extra?: Record<string, unknown>;
+}
+
+// EIP-3009 TransferWithAuthorization message; amounts and times are decimal strings
+export interface ExactEvmAuthorization {
+    from: string;
+    to: string;
+    value: string;
+    validAfter: string;
+    validBefore: string;
+    // 32-byte hex, unique per authorization
+    nonce: string;
+}
+
+export type ExactEvmPayload =
+    // x402 spec: token transfer signed by the payer, submitted by the facilitator on settle
+    | { signature: string; authorization: ExactEvmAuthorization }
+    // Extension: transfer already broadcast by the client
+    | { transaction: string }
+    // Extension: signed raw transfer that the facilitator broadcasts on settle
+    | { signedTransaction: string };
+
+export interface PaymentPayload {
+    x402Version: number;
+    scheme: string;
+    network: string;
+    payload: ExactEvmPayload;
+}
+
+export interface PaymentRequiredResponse {
+    x402Version: number;
+    error: string;
+    accepts: PaymentRequirements[];
+    // Extension: whether resending the same X-PAYMENT may succeed, and when to try
+    retryable?: boolean;
+    retryAfterSeconds?: number;
+}
+
+export interface VerifyResponse {
+    isValid: boolean;
+    invalidReason?: string;
+    payer?: string;
+    // Extension: set when the payment may still become valid, e.g. not mined yet
+    retryAfterSeconds?: number;
+}
+
+export interface SettleResponse {
+    success: boolean;
+    errorReason?: string;
+    transaction: string;
+    network: string;
+    payer?: string;
+    // Extensions used by our own resource server; ignored by other clients
+    amount?: string;
+    blockNumber?: number;
+    retryAfterSeconds?: number;
+}
+
+export interface FacilitatorRequest {
+    x402Version: number;
+    paymentPayload?: PaymentPayload;
+    // Older clients send the raw X-PAYMENT header instead of the decoded payload
+    paymentHeader?: string;
+    paymentRequirements: PaymentRequirements;
+}
+
+// --- Discovery ---
+// Extension: the document served at /.well-known/x402, listing every paid
+// resource with what a client needs before its first request
+
+export interface DiscoveredNetwork {
+    network: string;
+    chainId: number;
+    name: string;
+    // Public endpoint, for wallets adding the chain
+    rpcUrl: string;
+    explorerUrl?: string;
+    nativeCurrency: { name: string; symbol: string; decimals: number };
+}
+
+export interface ModelPrice {
+    model: string;
+    baseFeeWei: string;
+    inputWeiPer1k: string;
+    outputWeiPer1k: string;
+    maxOutputTokens: number;
+}
+
+export type ResourcePricing =
+    // Priced per request by model, length and searches; quoteUrl prices a body before paying
+    | { type: 'quoted'; quoteUrl: string; models: ModelPrice[]; searchFeeWei: string; maxSearches: number }
+    // Any amount from minimumWei up
+    | { type: 'minimum'; minimumWei: string; suggestedWei: string };
+
+export interface DiscoveredResource {
+    resource: string;
+    type: 'http';
+    x402Version: number;
+    method: string;
+    description: string;
+    mimeType: string;
+    // Priced for the smallest request; the 402 of a real request carries its exact price
+    accepts: PaymentRequirements[];
+    pricing: ResourcePricing;
+    lastUpdated: string;
+}
+
+export interface DiscoveryDocument {
+    x402Version: number;
+    name: string;
+    description: string;
+    payTo: string;
+    networks: DiscoveredNetwork[];
+    // Payments to /api/* are only accepted from a wallet signed in with Ethereum on this chain
+    signIn: { network: string; chainId: number; nonceUrl: string; verifyUrl: string };
+    // Address that signs payment receipts; a receipt signed by any other is not this server's
+    receiptSigner: string;
+    items: DiscoveredResource[];
+}
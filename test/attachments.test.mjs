@@ -0,0 +1,72 @@
+import test from 'tape';
+import { appFetch, chatRequest, load, signedInWallet } from './helpers.mjs';
+
+const dataUrl = (mediaType, bytes) => `data:${mediaType};base64,${Buffer.from(bytes).toString('base64')}`;
+const file = (mediaType, bytes, filename = 'file') => ({ type: 'file', mediaType, filename, url: dataUrl(mediaType, bytes) });
+
+// Just the header of a PNG: signature, then the IHDR chunk with the size
+function pngHeader(width, height) {
+    const bytes = Buffer.alloc(24);
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(bytes);
+    bytes.writeUInt32BE(13, 8);
+    bytes.write('IHDR', 12, 'latin1');
+    bytes.writeUInt32BE(width, 16);
+    bytes.writeUInt32BE(height, 20);
+    return bytes;
+}
+
+const textModel = { name: 'Text Only', capabilities: ['text'] };
+const visionModel = { name: 'Seer', capabilities: ['text', 'vision'] };
+
+test('attachments must be inline data the model can read', async (t) => {
+    const { unsupportedAttachment } = await load('lib/attachments');
+    const png = file('image/png', pngHeader(10, 10), 'cat.png');
+
+    t.equal(unsupportedAttachment([png], visionModel), null);
+    t.equal(unsupportedAttachment([png], textModel), "Text Only can't read images");
+    t.equal(unsupportedAttachment([file('text/plain', 'notes', 'notes.txt')], visionModel), "Seer can't read documents");
+    t.equal(unsupportedAttachment([{ ...png, url: 'https://example.com/cat.png' }], visionModel),
+        'cat.png must be sent inline as a base64 data URL of its media type', 'refuses a URL the server would fetch');
+    t.equal(unsupportedAttachment([{ ...png, url: dataUrl('image/jpeg', pngHeader(1, 1)) }], visionModel),
+        'cat.png must be sent inline as a base64 data URL of its media type', 'refuses a data URL of another type');
+    t.equal(unsupportedAttachment([{ ...png, url: 'data:image/png;base64,abc$' }], visionModel), 'cat.png is not valid base64');
+    t.match(unsupportedAttachment([file('application/zip', 'PK', 'a.zip')], visionModel), /^a.zip is application\/zip; only/);
+});
+
+test('attachments are sized and priced from their bytes', async (t) => {
+    const { attachmentSize, imageDimensions, pdfPageCount } = await load('lib/attachments');
+    const { estimateAttachmentTokens } = await load('lib/pricing');
+
+    t.equal(attachmentSize(file('text/plain', 'abcd')), 4);
+    t.equal(attachmentSize(file('text/plain', 'abcde')), 5, 'minus the padding');
+    t.deepEqual(imageDimensions(pngHeader(1920, 1080), 'image/png'), { width: 1920, height: 1080 });
+    t.equal(imageDimensions(pngHeader(1, 1).subarray(0, 12), 'image/png'), null, 'null for a truncated header');
+
+    const pdf = Buffer.from('%PDF-1.4\n1 0 obj << /Type /Pages /Kids [2 0 R 3 0 R] >>\n2 0 obj << /Type /Page >>\n3 0 obj << /Type/Page >>\n');
+    t.equal(pdfPageCount(pdf), 2, 'counts page objects, not the page tree');
+
+    t.equal(estimateAttachmentTokens(file('image/png', pngHeader(300, 300))), 258, 'a small image is one tile');
+    t.equal(estimateAttachmentTokens(file('image/png', pngHeader(1920, 1080))), 3 * 2 * 258);
+    t.equal(estimateAttachmentTokens(file('application/pdf', pdf)), 2 * 258, 'a page per tile');
+});
+
+test('too many or too large attachments are refused', async (t) => {
+    const { MAX_ATTACHMENTS, MAX_ATTACHMENT_BYTES, checkAttachmentSize } = await load('lib/rate-limit');
+    const small = file('text/plain', 'hi');
+
+    t.equal(checkAttachmentSize([small]), null);
+    t.equal(checkAttachmentSize(Array(MAX_ATTACHMENTS + 1).fill(small)), `Conversations are limited to ${MAX_ATTACHMENTS} attachments`);
+    const large = file('text/plain', Buffer.alloc(MAX_ATTACHMENT_BYTES + 1), 'big.txt');
+    t.equal(checkAttachmentSize([large]), `big.txt is larger than ${MAX_ATTACHMENT_BYTES} bytes`);
+});
+
+test('a chat request with a linked attachment is refused before payment', async (t) => {
+    const { token } = await signedInWallet();
+    const init = chatRequest(token, 'What is this?');
+    const body = JSON.parse(init.body);
+    body.messages[0].parts.push({ type: 'file', mediaType: 'image/png', filename: 'cat.png', url: 'https://example.com/cat.png' });
+
+    const response = await appFetch('/api/chat', { ...init, body: JSON.stringify(body) });
+    t.equal(response.status, 400);
+    t.equal((await response.json()).error, 'cat.png must be sent inline as a base64 data URL of its media type');
+});
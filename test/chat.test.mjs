@@ -0,0 +1,129 @@
+import test from 'tape';
+import { answerText, appFetch, chatRequest, load, scriptModel, signedInWallet, streamParts } from './helpers.mjs';
+
+// The generation a payment bought, once the answer has been billed or refunded
+async function settledGeneration(txHash) {
+    const { listGenerations } = await load('lib/generations');
+    for (let attempt = 0; attempt < 50; attempt++) {
+        const generation = (await listGenerations()).find(candidate => candidate.txHash === txHash);
+        if (generation && generation.status !== 'pending') return generation;
+        await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    throw new Error(`Generation of ${txHash} never settled`);
+}
+
+test('a query is challenged with 402, paid and answered', async (t) => {
+    scriptModel([{ reply: 'Paid answer to: {{input}}', chunkDelayMs: 1 }]);
+    const credits = await load('lib/credits');
+    const { address, token, client, sent } = await signedInWallet();
+
+    const response = await client.fetch('/api/chat', chatRequest(token, 'hello'));
+    t.deepEqual(sent.map(request => request.status), [402, 200], 'pays after the challenge');
+    t.ok(response.headers.get('X-PAYMENT-RESPONSE'), 'returns the settlement');
+
+    const parts = await streamParts(response);
+    t.equal(answerText(parts), 'Paid answer to: hello');
+
+    const receipt = parts.find(part => part.type === 'data-receipt').data;
+    t.equal(receipt.method, 'x402');
+    t.equal(receipt.payer.toLowerCase(), address.toLowerCase());
+
+    const usage = parts.find(part => part.type === 'data-usage').data;
+    t.equal(BigInt(usage.costWei) + BigInt(usage.creditedWei), BigInt(receipt.chargedWei), 'bills usage and credits the rest');
+    t.equal(await credits.getBalance(address), BigInt(usage.creditedWei));
+});
+
+test('a payment is only accepted once', async (t) => {
+    scriptModel([{ reply: 'Answered', chunkDelayMs: 1 }]);
+    const { token, client, sent } = await signedInWallet();
+
+    await streamParts(await client.fetch('/api/chat', chatRequest(token, 'first')));
+    const { payment } = sent.find(request => request.payment);
+
+    const init = chatRequest(token, 'second');
+    const replayed = await appFetch('/api/chat', { ...init, headers: { ...init.headers, 'X-PAYMENT': payment } });
+    t.equal(replayed.status, 402);
+    t.match((await replayed.json()).error, /already been redeemed/);
+});
+
+test('a provider error is refunded to credit', async (t) => {
+    scriptModel([{ error: 'Provider overloaded' }]);
+    const credits = await load('lib/credits');
+    const { address, token, client } = await signedInWallet();
+
+    const response = await client.fetch('/api/chat', chatRequest(token, 'hello'));
+    t.equal(response.status, 200);
+    const parts = await streamParts(response);
+    const receipt = parts.find(part => part.type === 'data-receipt').data;
+
+    const refund = parts.find(part => part.type === 'data-refund')?.data;
+    t.ok(refund, 'reports the refund');
+    t.equal(refund.to, 'credit');
+    t.equal(refund.amountWei, receipt.chargedWei, 'gives back the whole charge');
+    t.equal(await credits.getBalance(address), BigInt(receipt.chargedWei));
+
+    const generation = await settledGeneration(receipt.transaction);
+    t.equal(generation.status, 'failed');
+    t.ok(generation.providerError);
+});
+
+test('a stopped answer is billed for what was streamed', async (t) => {
+    const words = Array.from({ length: 40 }, (_, i) => `word${i}`).join(' ');
+    scriptModel([{ reply: words, chunkDelayMs: 50 }]);
+    const credits = await load('lib/credits');
+    const { address, token, client } = await signedInWallet();
+
+    const controller = new AbortController();
+    const response = await client.fetch('/api/chat', chatRequest(token, 'hello', { signal: controller.signal }));
+    t.equal(response.status, 200);
+
+    // Stop once a few words are in
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let streamed = '';
+    while ((streamed.match(/"text-delta"/g) ?? []).length < 3) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        streamed += decoder.decode(value, { stream: true });
+    }
+    controller.abort();
+    await reader.cancel().catch(() => {});
+
+    const receipt = JSON.parse(streamed.match(/^data: (.*"data-receipt".*)$/m)[1]).data;
+    const generation = await settledGeneration(receipt.transaction);
+    t.equal(generation.status, 'completed');
+    t.ok(generation.stopped, 'is recorded as stopped');
+    t.ok(generation.outputTokens > 0, 'bills the streamed words');
+    t.ok(generation.outputTokens < Math.ceil(words.length / 4), 'but not the rest of the answer');
+
+    const charged = BigInt(receipt.chargedWei);
+    t.ok(BigInt(generation.costWei) > BigInt(0));
+    t.equal(await credits.getBalance(address), charged - BigInt(generation.costWei), 'credits back the unused payment');
+});
+
+test('a transfer hash without a session is refused', async (t) => {
+    scriptModel([{ reply: 'Answered', chunkDelayMs: 1 }]);
+    const { signDevPayment } = await load('lib/dev-wallet');
+    const { handleSimulatedRpc } = await load('lib/simulated-chain');
+    const { encodePayment } = await load('lib/x402/encoding');
+    const victim = await signedInWallet();
+
+    // The victim's transfer is on-chain, so anyone can read its hash
+    const challenge = await appFetch('/api/chat', chatRequest(victim.token, 'hello'));
+    const [option] = (await challenge.json()).accepts;
+    const signed = signDevPayment({ address: victim.address, privateKey: victim.privateKey }, option, option.maxAmountRequired);
+    const { result: transaction } = await handleSimulatedRpc(option.network, { method: 'eth_sendRawTransaction', params: [signed] });
+    const header = encodePayment({ x402Version: 1, scheme: option.scheme, network: option.network, payload: { transaction } });
+
+    const stolen = await appFetch('/v1/chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-PAYMENT': header },
+        body: JSON.stringify({ model: 'mock', messages: [{ role: 'user', content: 'hello' }] }),
+    });
+    t.equal(stolen.status, 402, 'the hash alone does not pay');
+
+    const init = chatRequest(victim.token, 'hello');
+    const redeemed = await appFetch('/api/chat', { ...init, headers: { ...init.headers, 'X-PAYMENT': header } });
+    t.equal(redeemed.status, 200, 'the sender can still redeem it');
+    await streamParts(redeemed);
+});
@@ -0,0 +1,132 @@
+import test from 'tape';
+import { BASE_URL, SERVER_WALLET, TEST_TOKEN, appFetch, chatRequest, load, scriptModel, streamParts } from './helpers.mjs';
+
+const NETWORK = 'eip155:10143';
+
+// What the server asks for a query paid in the test token
+const requirements = {
+    scheme: 'exact',
+    network: NETWORK,
+    maxAmountRequired: '1000',
+    resource: `${BASE_URL}/api/chat`,
+    description: 'Test query',
+    mimeType: 'text/event-stream',
+    payTo: SERVER_WALLET,
+    maxTimeoutSeconds: 3600,
+    asset: TEST_TOKEN,
+    extra: { name: 'USDC', version: '2' },
+};
+
+// POSTs a payment to the facilitator's /verify or /settle
+async function facilitate(action, payload, paymentRequirements = requirements) {
+    const response = await appFetch(`/api/facilitator/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            x402Version: 1,
+            paymentPayload: { x402Version: 1, scheme: 'exact', network: NETWORK, payload },
+            paymentRequirements,
+        }),
+    });
+    return response.json();
+}
+
+// A new payer and its authorization of `amount` to the option's payTo
+async function authorizedPayment(option = requirements, amount = option.maxAmountRequired) {
+    const { eth } = await import('web3');
+    const { signTransferAuthorization } = await load('lib/x402/signers');
+    const { address, privateKey } = eth.accounts.create();
+    return { address, privateKey, payload: signTransferAuthorization(privateKey, option, amount) };
+}
+
+test('an EIP-3009 authorization is verified and settled once', async (t) => {
+    const { address, payload } = await authorizedPayment();
+
+    const verified = await facilitate('verify', payload);
+    t.ok(verified.isValid, 'verifies');
+    t.equal(verified.payer, address);
+
+    const settled = await facilitate('settle', payload);
+    t.ok(settled.success, 'settles');
+    t.equal(settled.payer, address);
+    t.equal(settled.amount, requirements.maxAmountRequired);
+
+    // As after a settle that timed out on the caller's side
+    const retried = await facilitate('settle', payload);
+    t.ok(retried.success, 'a retry settles too');
+    t.equal(retried.transaction, settled.transaction, 'without submitting the authorization again');
+});
+
+test('a query paid with an authorization is answered', async (t) => {
+    scriptModel([{ reply: 'Paid in tokens', chunkDelayMs: 1 }]);
+    const { eth } = await import('web3');
+    const { createX402Client, signIn } = await load('lib/x402/client');
+    const { privateKeySigner } = await load('lib/x402/signers');
+    const signer = privateKeySigner(eth.accounts.create().privateKey);
+    const token = await signIn(BASE_URL, signer, appFetch);
+
+    const client = createX402Client({
+        signer,
+        fetch: appFetch,
+        choose: async accepts => accepts.find(option => option.asset === TEST_TOKEN),
+    });
+    const response = await client.fetch('/api/chat', chatRequest(token, 'hello'));
+    t.equal(response.status, 200);
+    const receipt = (await streamParts(response)).find(part => part.type === 'data-receipt').data;
+    t.equal(receipt.payer.toLowerCase(), signer.address.toLowerCase());
+
+    const { handleSimulatedRpc } = await load('lib/simulated-chain');
+    const { result: tx } = await handleSimulatedRpc(NETWORK, { method: 'eth_getTransactionByHash', params: [receipt.transaction] });
+    t.equal(tx.to, TEST_TOKEN, 'settles on the token contract');
+});
+
+test('an authorization that does not pay the requirement is refused', async (t) => {
+    const { eth, utils } = await import('web3');
+    const { authorizationDomain, signAuthorization } = await load('lib/x402/eip3009');
+    const { address, privateKey, payload } = await authorizedPayment();
+    const { authorization } = payload;
+    const domain = authorizationDomain(requirements);
+    const signed = (fields, key = privateKey, signedDomain = domain) => {
+        const changed = { ...authorization, nonce: utils.randomHex(32), ...fields };
+        return { signature: signAuthorization(key, changed, signedDomain), authorization: changed };
+    };
+    const refusal = async (forged) => (await facilitate('settle', forged)).errorReason;
+
+    t.equal(await refusal(signed({ value: '999' })), 'Insufficient payment amount');
+    t.equal(await refusal(signed({ to: address })), 'Payment was sent to the wrong recipient');
+    t.equal(await refusal(signed({ validBefore: String(Math.floor(Date.now() / 1000) + 5) })), 'Authorization expires too soon');
+    t.equal(await refusal(signed({ validAfter: String(Math.floor(Date.now() / 1000) + 600) })), 'Authorization is not valid yet');
+    t.equal(await refusal(signed({}, eth.accounts.create().privateKey)), 'Authorization is not signed by the payer');
+    t.equal(await refusal(signed({}, privateKey, { ...domain, name: 'Other' })), 'Authorization is not signed by the payer',
+        'checks the signature against our token domain');
+    t.equal(await refusal({ ...payload, authorization: { ...authorization, value: '2000' } }), 'Authorization is not signed by the payer',
+        'refuses a changed authorization');
+
+    // The domain the caller sends is ignored
+    const theirs = { ...requirements, extra: { name: 'Other', version: '2' } };
+    const { payload: signedForTheirs } = await authorizedPayment(theirs);
+    t.equal((await facilitate('settle', signedForTheirs, theirs)).errorReason, 'Authorization is not signed by the payer');
+});
+
+test('payments to another payee or in another asset are not settled', async (t) => {
+    const foreignToken = { ...requirements, asset: '0x2000000000000000000000000000000000000002' };
+    const { payload: tokenPayment } = await authorizedPayment(foreignToken);
+    t.equal((await facilitate('verify', tokenPayment, foreignToken)).invalidReason, `Unsupported asset ${foreignToken.asset} on ${NETWORK}`);
+    const settled = await facilitate('settle', tokenPayment, foreignToken);
+    t.notOk(settled.success);
+    t.equal(settled.errorReason, `Unsupported asset ${foreignToken.asset} on ${NETWORK}`);
+
+    const foreignPayee = { ...requirements, payTo: '0x3000000000000000000000000000000000000003' };
+    const { payload: payeePayment } = await authorizedPayment(foreignPayee);
+    t.equal((await facilitate('verify', payeePayment, foreignPayee)).invalidReason, 'Payments to this payTo address are not settled here');
+    t.equal((await facilitate('settle', payeePayment, foreignPayee)).errorReason, 'Payments to this payTo address are not settled here');
+});
+
+test('a malformed facilitator request is refused', async (t) => {
+    const response = await appFetch('/api/facilitator/settle', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ paymentRequirements: { ...requirements, payTo: 'nobody' } }),
+    });
+    t.equal(response.status, 400);
+});
@@ -0,0 +1,121 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createJiti } from 'jiti';
+import test from 'tape';
+
+// --- Test harness ---
+// Runs the app's route handlers in this process with PAYMENT_MODE=simulated:
+// payments settle on the fake chain and answers come from the mock model, so
+// nothing leaves the machine. The environment is set before any app module
+// loads, since modules read it once.
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+export const DATA_DIR = mkdtempSync(path.join(tmpdir(), 'incognito-test-'));
+export const BASE_URL = 'http://localhost:3000';
+export const SERVER_WALLET = '0x000000000000000000000000000000000000dEaD';
+// A USDC-like token on Monad testnet that takes EIP-3009 authorizations
+export const TEST_TOKEN = '0x1000000000000000000000000000000000000001';
+
+const SCRIPT = path.join(DATA_DIR, 'mock-model.json');
+
+test.onFinish(() => rmSync(DATA_DIR, { recursive: true, force: true }));
+
+Object.assign(process.env, {
+    PAYMENT_MODE: 'simulated',
+    DATA_DIR,
+    MOCK_MODEL_SCRIPT: SCRIPT,
+    SERVER_WALLET,
+    NEXT_PUBLIC_APP_URL: BASE_URL,
+    LOG_LEVEL: 'silent',
+    PAYMENT_OPTIONS: JSON.stringify([{
+        network: 'eip155:10143', asset: TEST_TOKEN, name: 'USDC', version: '2', symbol: 'USDC', decimals: 6, unitsPerMon: '3000000',
+    }]),
+    // Every request comes from the same client; tests of the limiter use limits of their own
+    RATE_LIMIT_IP_PER_MINUTE: '0',
+});
+
+// The mock model's replies for the next requests, see src/lib/mock-model.ts
+export function scriptModel(rules) {
+    writeFileSync(SCRIPT, JSON.stringify(rules));
+}
+scriptModel([]);
+
+const jiti = createJiti(import.meta.url, { alias: { '@': path.join(ROOT, 'src') } });
+
+// An app module, e.g. load('lib/credits')
+export function load(module) {
+    return jiti.import(path.join(ROOT, 'src', `${module}.ts`));
+}
+
+// Route handlers by path, as Next.js would route them
+const ROUTES = {
+    '/.well-known/x402': 'app/.well-known/x402/route',
+    '/api/auth/nonce': 'app/api/auth/nonce/route',
+    '/api/auth/verify': 'app/api/auth/verify/route',
+    '/api/chat': 'app/api/chat/route',
+    '/api/facilitator/settle': 'app/api/facilitator/settle/route',
+    '/api/facilitator/verify': 'app/api/facilitator/verify/route',
+    '/api/quote': 'app/api/quote/route',
+    '/v1/chat/completions': 'app/v1/chat/completions/route',
+};
+
+// fetch() against the app without a server
+export async function appFetch(input, init = {}) {
+    const url = new URL(String(input), BASE_URL);
+    const route = ROUTES[url.pathname];
+    if (!route) return new Response('Not found', { status: 404 });
+
+    const { NextRequest } = await import('next/server.js');
+    const handlers = await load(route);
+    // A server gets the Host header from the client
+    const headers = new Headers(init.headers);
+    headers.set('host', url.host);
+    return handlers[init.method ?? 'GET'](new NextRequest(url, { ...init, headers }));
+}
+
+// A new wallet signed in to the app, and an x402 client paying from it
+export async function signedInWallet() {
+    const { eth } = await import('web3');
+    const { devWalletSigner } = await load('lib/dev-wallet');
+    const { createX402Client, signIn } = await load('lib/x402/client');
+
+    const { address, privateKey } = eth.accounts.create();
+    const signer = devWalletSigner({ address, privateKey });
+    const token = await signIn(BASE_URL, signer, appFetch);
+
+    // Every request the client sends, with the status it got back
+    const sent = [];
+    const client = createX402Client({
+        signer,
+        fetch: async (input, init) => {
+            const response = await appFetch(input, init);
+            sent.push({ payment: new Headers(init?.headers).get('x-payment'), status: response.status });
+            return response;
+        },
+    });
+    return { address, privateKey, token, client, sent };
+}
+
+export function chatRequest(token, text, init = {}) {
+    return {
+        method: 'POST',
+        ...init,
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ model: 'mock', messages: [{ id: '1', role: 'user', parts: [{ type: 'text', text }] }] }),
+    };
+}
+
+// The parts of an AI SDK UI message stream
+export async function streamParts(response) {
+    return (await response.text())
+        .split('\n')
+        .filter(line => line.startsWith('data: ') && line !== 'data: [DONE]')
+        .map(line => JSON.parse(line.slice('data: '.length)));
+}
+
+export function answerText(parts) {
+    return parts.filter(part => part.type === 'text-delta').map(part => part.delta).join('');
+}
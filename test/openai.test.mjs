@@ -0,0 +1,97 @@
+import test from 'tape';
+import { load, scriptModel, signedInWallet } from './helpers.mjs';
+
+const completionRequest = (fields) => ({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: 'mock', messages: [{ role: 'user', content: 'hello' }], ...fields }),
+});
+
+test('an OpenAI request is rewritten into a chat request', async (t) => {
+    const { DEFAULT_MODEL } = await load('lib/models');
+    const { toChatRequest } = await load('lib/openai');
+
+    const translated = toChatRequest({
+        model: 'mock',
+        stream: true,
+        stream_options: { include_usage: true },
+        web_search_options: {},
+        messages: [
+            { role: 'developer', content: 'Be brief.' },
+            { role: 'user', content: [
+                { type: 'text', text: 'What is' },
+                { type: 'text', text: 'this?' },
+                { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+                { type: 'file', file: { file_data: 'data:application/pdf;base64,AAAA', filename: 'doc.pdf' } },
+            ] },
+            { role: 'tool', content: 'dropped' },
+            { role: 'assistant', content: 'An image.' },
+        ],
+    });
+    t.equal(translated.model, 'mock');
+    t.ok(translated.stream && translated.includeUsage);
+    t.deepEqual(translated.chatBody.messages, [
+        { role: 'system', parts: [{ type: 'text', text: 'Be brief.' }] },
+        { role: 'user', parts: [
+            { type: 'text', text: 'What is\nthis?' },
+            { type: 'file', mediaType: 'image/png', filename: undefined, url: 'data:image/png;base64,AAAA' },
+            { type: 'file', mediaType: 'application/pdf', filename: 'doc.pdf', url: 'data:application/pdf;base64,AAAA' },
+        ] },
+        { role: 'assistant', parts: [{ type: 'text', text: 'An image.' }] },
+    ], 'maps roles and content parts, dropping tool messages');
+    t.ok(translated.chatBody.search, 'web_search_options turns search on');
+    t.notOk(translated.chatBody.redact);
+
+    t.equal(toChatRequest({ messages: [] }).model, DEFAULT_MODEL, 'uses the default model');
+    const linked = toChatRequest({ messages: [{ role: 'user', content: [{ type: 'image_url', image_url: 'https://example.com/a.png' }] }] });
+    t.equal(linked.chatBody.messages[0].parts[1].url, 'https://example.com/a.png', 'keeps a linked image for the chat handler to refuse');
+
+    t.deepEqual(toChatRequest({}), { error: 'messages must be an array' });
+    t.deepEqual(toChatRequest({ messages: [], n: 2 }), { error: 'Only one choice (n=1) is supported' });
+    t.deepEqual(toChatRequest({ messages: [], tools: [{ type: 'function' }] }), { error: 'Tool calling is not supported' });
+});
+
+test('a paid completion is answered in OpenAI format', async (t) => {
+    scriptModel([{ reply: 'Completed: {{input}}', chunkDelayMs: 1 }]);
+    const { client } = await signedInWallet();
+
+    const response = await client.fetch('/v1/chat/completions', completionRequest());
+    t.equal(response.status, 200);
+    t.ok(response.headers.get('X-PAYMENT-RESPONSE'), 'returns the settlement');
+    const completion = await response.json();
+    t.equal(completion.object, 'chat.completion');
+    t.equal(completion.model, 'mock');
+    t.equal(completion.choices[0].message.content, 'Completed: hello');
+    t.equal(completion.choices[0].finish_reason, 'stop');
+    t.equal(completion.usage.total_tokens, completion.usage.prompt_tokens + completion.usage.completion_tokens);
+});
+
+test('a streamed completion ends with usage and [DONE]', async (t) => {
+    scriptModel([{ reply: 'Streamed answer', chunkDelayMs: 1 }]);
+    const { client } = await signedInWallet();
+
+    const response = await client.fetch('/v1/chat/completions', completionRequest({ stream: true, stream_options: { include_usage: true } }));
+    t.equal(response.headers.get('Content-Type'), 'text/event-stream');
+    const events = (await response.text()).split('\n\n').filter(Boolean).map(event => event.slice('data: '.length));
+    t.equal(events.at(-1), '[DONE]');
+
+    const chunks = events.slice(0, -1).map(event => JSON.parse(event));
+    t.ok(chunks.every(chunk => chunk.object === 'chat.completion.chunk'));
+    t.equal(chunks.map(chunk => chunk.choices[0]?.delta?.content ?? '').join(''), 'Streamed answer');
+    t.equal(chunks.at(-2).choices[0].finish_reason, 'stop');
+    t.ok(chunks.at(-1).usage.completion_tokens > 0, 'sends the usage last');
+});
+
+test('errors of the chat handler keep their status in OpenAI shape', async (t) => {
+    const { client } = await signedInWallet();
+
+    const unknown = await client.fetch('/v1/chat/completions', completionRequest({ model: 'no-such-model' }));
+    t.equal(unknown.status, 400);
+    const { error } = await unknown.json();
+    t.equal(error.type, 'invalid_request_error');
+    t.ok(error.message);
+
+    const refused = await client.fetch('/v1/chat/completions', completionRequest({ n: 3 }));
+    t.equal(refused.status, 400);
+    t.equal((await refused.json()).error.message, 'Only one choice (n=1) is supported');
+});
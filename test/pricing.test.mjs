@@ -0,0 +1,54 @@
+import test from 'tape';
+import { appFetch, load } from './helpers.mjs';
+
+const question = text => [{ role: 'user', parts: [{ type: 'text', text }] }];
+
+test('a quote covers the input, the output cap and any searches', async (t) => {
+    const { getModel } = await load('lib/models');
+    const { SYSTEM_PROMPT, estimateTokens, quoteQuery } = await load('lib/pricing');
+    const model = getModel('mock');
+    const { baseFeeWei, inputWeiPer1k, outputWeiPer1k, maxOutputTokens } = model.pricing;
+
+    const quote = quoteQuery(model, question('x'.repeat(400)));
+    t.equal(quote.inputTokens, estimateTokens(SYSTEM_PROMPT) + 100 + 4, 'four characters a token, plus per-message overhead');
+    const tokenCost = (tokens, weiPer1k) => (BigInt(tokens) * weiPer1k + BigInt(999)) / BigInt(1000);
+    t.equal(quote.amountWei, baseFeeWei + tokenCost(quote.inputTokens, inputWeiPer1k) + tokenCost(maxOutputTokens, outputWeiPer1k));
+
+    const grounded = quoteQuery(model, question('x'.repeat(400)), { searches: 2, searchFeeWei: BigInt(1000) });
+    t.equal(grounded.searchInputTokens, 2 * quote.inputTokens + 1000 + 2000, 'each search step reads the prompt and the results so far');
+    t.ok(grounded.amountWei > quote.amountWei + BigInt(2000), 'charges for the searches and the steps running them');
+});
+
+test('the actual cost is billed from usage and never exceeds the quote', async (t) => {
+    const { getModel } = await load('lib/models');
+    const { actualCost, quoteQuery } = await load('lib/pricing');
+    const model = getModel('mock');
+    const quote = quoteQuery(model, question('hello'), { searches: 1, searchFeeWei: BigInt(1000) });
+
+    const short = actualCost(quote, { inputTokens: quote.inputTokens, outputTokens: 10 });
+    t.ok(short > model.pricing.baseFeeWei && short < quote.amountWei, 'a short answer costs less than quoted');
+    t.ok(actualCost(quote, { inputTokens: quote.inputTokens, outputTokens: 10, searches: 1 }) > short, 'a search run is billed');
+    t.equal(actualCost(quote, { inputTokens: quote.inputTokens, outputTokens: 10, searches: 5 }),
+        actualCost(quote, { inputTokens: quote.inputTokens, outputTokens: 10, searches: 1 }), 'searches beyond the quote are free');
+    t.equal(actualCost(quote, { inputTokens: 100 * quote.inputTokens, outputTokens: 10 * quote.maxOutputTokens, searches: 5 }), quote.amountWei,
+        'capped at the quote');
+});
+
+test('/api/quote prices a chat request', async (t) => {
+    const { getModel } = await load('lib/models');
+    const { quoteQuery } = await load('lib/pricing');
+    const quote = quoteQuery(getModel('mock'), question('How far is the moon?'));
+
+    const response = await appFetch('/api/quote', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: 'mock', messages: [{ id: '1', role: 'user', parts: [{ type: 'text', text: 'How far is the moon?' }] }] }),
+    });
+    t.equal(response.status, 200);
+    const body = await response.json();
+    t.equal(body.amountWei, quote.amountWei.toString());
+    t.equal(body.maxOutputTokens, quote.maxOutputTokens);
+
+    const unknown = await appFetch('/api/quote', { method: 'POST', body: JSON.stringify({ model: 'no-such-model', messages: [] }) });
+    t.equal(unknown.status, 400);
+});
@@ -0,0 +1,102 @@
+import test from 'tape';
+import { appFetch, load } from './helpers.mjs';
+
+// Runs `body` with a fresh store and the per-IP limit set to `limit`
+async function withIpLimit(limit, body) {
+    const rateLimit = await load('lib/rate-limit');
+    const previous = rateLimit.REQUESTS_PER_IP.limit;
+    rateLimit.REQUESTS_PER_IP.limit = limit;
+    rateLimit.setRateLimitStore(rateLimit.createMemoryStore());
+    try {
+        await body();
+    } finally {
+        rateLimit.REQUESTS_PER_IP.limit = previous;
+        rateLimit.setRateLimitStore(rateLimit.createMemoryStore());
+    }
+}
+
+test('a client is held to its limit per window', async (t) => {
+    const { consume, exhausted } = await load('lib/rate-limit');
+    const limit = { name: 'test-window', limit: 2, windowMs: 60_000 };
+
+    t.equal(await consume(limit, 'a'), null);
+    t.equal(await exhausted(limit, 'a'), null, 'checking does not count');
+    t.equal(await consume(limit, 'a'), null);
+    t.ok(await exhausted(limit, 'a') > 0, 'exhausted once the limit is reached');
+    const wait = await consume(limit, 'a');
+    t.ok(wait > 0 && wait <= 60, 'says how long to wait');
+    t.equal(await consume(limit, 'b'), null, 'counts each client apart');
+    t.equal(await consume({ ...limit, limit: 0 }, 'a'), null, 'a limit of 0 is off');
+
+    const short = { name: 'test-short', limit: 1, windowMs: 50 };
+    await consume(short, 'a');
+    await new Promise(resolve => setTimeout(resolve, 60));
+    t.equal(await consume(short, 'a'), null, 'opens a new window once the last one ends');
+});
+
+test('a failed payment counts once however often it is resent', async (t) => {
+    const { UNVERIFIED_PAYMENTS, exhausted, recordUnverifiedPayment } = await load('lib/rate-limit');
+
+    for (let i = 0; i < UNVERIFIED_PAYMENTS.limit + 5; i++) await recordUnverifiedPayment('resender', 'same-header');
+    t.equal(await exhausted(UNVERIFIED_PAYMENTS, 'resender'), null);
+
+    for (let i = 0; i < UNVERIFIED_PAYMENTS.limit; i++) await recordUnverifiedPayment('guesser', `header-${i}`);
+    t.ok(await exhausted(UNVERIFIED_PAYMENTS, 'guesser'), 'distinct payments do add up');
+});
+
+test('the client address is the hop the trusted proxy added', async (t) => {
+    const { NextRequest } = await import('next/server.js');
+    const { clientIp } = await load('lib/rate-limit');
+    const ip = forwardedFor => clientIp(new NextRequest('http://localhost/', { headers: forwardedFor ? { 'x-forwarded-for': forwardedFor } : {} }));
+
+    t.equal(ip('203.0.113.7'), '203.0.113.7');
+    t.equal(ip('1.2.3.4, 203.0.113.7'), '203.0.113.7', 'ignores hops the client wrote');
+    t.equal(ip(' 1.2.3.4 ,203.0.113.7 , '), '203.0.113.7', 'ignores blanks and spacing');
+    t.equal(ip(undefined), 'unknown');
+});
+
+test('an oversized body is refused without reading it all', async (t) => {
+    const { MAX_REQUEST_BYTES, readBody } = await load('lib/rate-limit');
+
+    t.equal(await readBody(new Request('http://localhost/', { method: 'POST', body: 'small' })), 'small');
+    const declared = new Request('http://localhost/', { method: 'POST', body: 'x', headers: { 'content-length': String(MAX_REQUEST_BYTES + 1) } });
+    t.equal(await readBody(declared), null, 'refuses a large Content-Length');
+
+    let sent = 0;
+    const endless = new ReadableStream({
+        pull(controller) {
+            sent += 1_000_000;
+            controller.enqueue(new Uint8Array(1_000_000));
+        },
+    });
+    const streamed = new Request('http://localhost/', { method: 'POST', body: endless, duplex: 'half' });
+    t.equal(await readBody(streamed), null, 'stops a body without a length');
+    t.ok(sent <= MAX_REQUEST_BYTES + 2_000_000, 'reads no further than the limit');
+});
+
+test('nonces and quotes are limited per IP before anything else', async (t) => {
+    await withIpLimit(1, async () => {
+        t.equal((await appFetch('/api/auth/nonce')).status, 200);
+        const limited = await appFetch('/api/auth/nonce');
+        t.equal(limited.status, 429);
+        t.ok(Number(limited.headers.get('Retry-After')) > 0);
+
+        const quote = await appFetch('/api/quote', { method: 'POST', body: 'not json' });
+        t.equal(quote.status, 429, 'before the body is read');
+    });
+});
+
+test('completions are limited per IP, counting each call once', async (t) => {
+    const completion = () => appFetch('/v1/chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: 'mock', messages: [{ role: 'user', content: 'hi' }] }),
+    });
+
+    await withIpLimit(2, async () => {
+        t.deepEqual([(await completion()).status, (await completion()).status], [402, 402]);
+        const limited = await completion();
+        t.equal(limited.status, 429);
+        t.equal((await limited.json()).error.type, 'rate_limit_error', 'in the OpenAI error shape');
+    });
+});
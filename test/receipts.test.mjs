@@ -0,0 +1,49 @@
+import test from 'tape';
+import { chatRequest, load, scriptModel, signedInWallet, streamParts } from './helpers.mjs';
+
+// The signed receipt at the end of a paid answer
+async function paidReceipt() {
+    scriptModel([{ reply: 'Receipted', chunkDelayMs: 1 }]);
+    const { address, token, client } = await signedInWallet();
+    const parts = await streamParts(await client.fetch('/api/chat', chatRequest(token, 'hello')));
+    return { address, receipt: parts.find(part => part.type === 'data-signed-receipt').data };
+}
+
+test('a paid answer ends with a receipt signed by the server', async (t) => {
+    const { receiptSigner } = await load('lib/receipts');
+    const { verifyReceipt } = await load('lib/receipt-signature');
+    const { address, receipt } = await paidReceipt();
+
+    t.equal(receipt.signer, await receiptSigner());
+    t.equal(receipt.payer.toLowerCase(), address.toLowerCase());
+    t.ok(verifyReceipt(receipt, receipt.signer), 'verifies against the receipt key');
+});
+
+test('a changed or foreign receipt does not verify', async (t) => {
+    const { eth } = await import('web3');
+    const { receiptMessage, verifyReceipt } = await load('lib/receipt-signature');
+    const { receipt } = await paidReceipt();
+
+    t.notOk(verifyReceipt({ ...receipt, costWei: '1' }, receipt.signer), 'refuses a changed amount');
+    t.notOk(verifyReceipt({ ...receipt, status: 'refunded' }, receipt.signer), 'refuses a changed status');
+    t.notOk(verifyReceipt({ ...receipt, signature: '0x1234' }, receipt.signer), 'refuses a malformed signature');
+
+    const impostor = eth.accounts.create();
+    const forged = { ...receipt, signer: impostor.address };
+    forged.signature = impostor.sign(receiptMessage(forged)).signature;
+    t.ok(verifyReceipt(forged, impostor.address), 'checks out against its own signer');
+    t.notOk(verifyReceipt(forged, receipt.signer), 'but not against the server key');
+});
+
+test('receipts are listed per payer and exported as CSV', async (t) => {
+    const { listReceipts, receiptsCsv } = await load('lib/receipts');
+    const { RECEIPT_FIELDS } = await load('lib/receipt-signature');
+    const { address, receipt } = await paidReceipt();
+
+    const listed = await listReceipts(address.toLowerCase());
+    t.deepEqual(listed.map(entry => entry.id), [receipt.id], 'only the payer\'s own');
+
+    const [header, row] = receiptsCsv(listed).trim().split('\n');
+    t.equal(header, [...RECEIPT_FIELDS, 'signature'].join(','));
+    t.equal(row.split(',').at(-1), receipt.signature, 'signature last');
+});
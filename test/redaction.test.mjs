@@ -0,0 +1,75 @@
+import test from 'tape';
+import { load } from './helpers.mjs';
+
+// Runs stream parts through restorePlaceholders and collects what comes out
+async function restoreStream(redactor, parts) {
+    const { restorePlaceholders } = await load('lib/redaction');
+    const transform = restorePlaceholders(redactor)({ tools: {}, stopStream: () => {} });
+    const output = [];
+    const reading = transform.readable.pipeTo(new WritableStream({ write: part => { output.push(part); } }));
+    const writer = transform.writable.getWriter();
+    for (const part of parts) await writer.write(part);
+    await writer.close();
+    await reading;
+    return output;
+}
+
+const deltaText = (parts, type, id) => parts.filter(part => part.type === type && part.id === id).map(part => part.text).join('');
+
+test('personal details are swapped for stable placeholders', async (t) => {
+    const { createRedactor } = await load('lib/redaction');
+    const redactor = createRedactor();
+
+    const redacted = redactor.redact('My name is Alice Smith, mail alice@example.com or alice@example.com, card 4111 1111 1111 1111.');
+    t.equal(redacted, 'My name is [NAME_1], mail [EMAIL_1] or [EMAIL_1], card [CARD_1].');
+    t.equal(redactor.redact('Write to bob@example.com, not alice@example.com'), 'Write to [EMAIL_2], not [EMAIL_1]', 'numbers stay stable across turns');
+    t.equal(redactor.redact('card 4111111111111112'), 'card 4111111111111112', 'leaves numbers failing the Luhn check');
+    t.deepEqual(redactor.masked().map(span => span.placeholder), ['[NAME_1]', '[EMAIL_1]', '[CARD_1]', '[EMAIL_2]']);
+
+    t.equal(redactor.restore('Hi [NAME_1], I wrote to [EMAIL_2] and [PHONE_9]'), 'Hi Alice Smith, I wrote to bob@example.com and [PHONE_9]',
+        'leaves unknown placeholders alone');
+});
+
+test('placeholders split across chunks are restored', async (t) => {
+    const { createRedactor } = await load('lib/redaction');
+    const redactor = createRedactor();
+    redactor.redact('Reach me at alice@example.com, I am Dr. Watson');
+
+    const output = await restoreStream(redactor, [
+        { type: 'text-start', id: 'a' },
+        { type: 'text-delta', id: 'a', text: 'Sure, [EMA' },
+        { type: 'text-delta', id: 'a', text: 'IL_1] it is. Hello [' },
+        { type: 'text-delta', id: 'a', text: 'NAME_1' },
+        { type: 'text-delta', id: 'a', text: '].' },
+        { type: 'text-end', id: 'a' },
+    ]);
+    t.equal(deltaText(output, 'text-delta', 'a'), 'Sure, alice@example.com it is. Hello Dr. Watson.');
+    t.ok(output.every(part => !/\[[A-Z]/.test(part.text ?? '')), 'no chunk carries a placeholder fragment');
+    t.equal(output.at(-1).type, 'text-end', 'flushes held text before the text ends');
+});
+
+test('reasoning is restored separately from text sharing its id', async (t) => {
+    const { createRedactor } = await load('lib/redaction');
+    const redactor = createRedactor();
+    redactor.redact('alice@example.com and bob@example.com');
+
+    const output = await restoreStream(redactor, [
+        { type: 'reasoning-delta', id: '0', text: 'They mean [EMAIL' },
+        { type: 'text-delta', id: '0', text: 'Writing to [EMAIL_' },
+        { type: 'reasoning-delta', id: '0', text: '_1]' },
+        { type: 'reasoning-end', id: '0' },
+        { type: 'text-delta', id: '0', text: '2] now' },
+    ]);
+    t.equal(deltaText(output, 'reasoning-delta', '0'), 'They mean alice@example.com');
+    t.equal(deltaText(output, 'text-delta', '0'), 'Writing to bob@example.com now', 'flushes the rest when the stream ends');
+});
+
+test('a bracket that never becomes a placeholder is passed on', async (t) => {
+    const { createRedactor } = await load('lib/redaction');
+    const output = await restoreStream(createRedactor(), [
+        { type: 'text-delta', id: 'a', text: 'See [1' },
+        { type: 'text-delta', id: 'a', text: '] and [' },
+        { type: 'text-end', id: 'a' },
+    ]);
+    t.equal(deltaText(output, 'text-delta', 'a'), 'See [1] and [');
+});
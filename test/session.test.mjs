@@ -0,0 +1,96 @@
+import test from 'tape';
+import { BASE_URL, appFetch, load } from './helpers.mjs';
+
+// A fresh wallet and a nonce from the server, ready to sign in
+async function signInAttempt() {
+    const { eth } = await import('web3');
+    const { MONAD_TESTNET_CHAIN_ID } = await load('lib/chain');
+    const { nonce } = await (await appFetch('/api/auth/nonce')).json();
+    const account = eth.accounts.create();
+    const message = {
+        domain: new URL(BASE_URL).host,
+        address: account.address,
+        statement: 'Sign in to Private AI.',
+        uri: BASE_URL,
+        version: '1',
+        chainId: MONAD_TESTNET_CHAIN_ID,
+        nonce,
+        issuedAt: new Date().toISOString(),
+    };
+    return { account, message };
+}
+
+// Posts the message to /api/auth/verify, signed by `account`
+async function verify(account, fields) {
+    const { formatSiweMessage } = await load('lib/siwe');
+    const message = formatSiweMessage(fields);
+    return appFetch('/api/auth/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, signature: account.sign(message).signature, token: true }),
+    });
+}
+
+test('a sign-in message survives formatting and parsing', async (t) => {
+    const { formatSiweMessage, parseSiweMessage } = await load('lib/siwe');
+    const { message } = await signInAttempt();
+
+    t.deepEqual(parseSiweMessage(formatSiweMessage(message)), { ...message, expirationTime: undefined });
+    const bare = { ...message, statement: undefined, expirationTime: '2030-01-01T00:00:00.000Z' };
+    t.deepEqual(parseSiweMessage(formatSiweMessage(bare)), bare, 'without a statement');
+
+    t.equal(parseSiweMessage(formatSiweMessage({ ...message, nonce: 'short' })), null, 'refuses a short nonce');
+    t.equal(parseSiweMessage(formatSiweMessage({ ...message, address: '0x1234' })), null, 'refuses a malformed address');
+    t.equal(parseSiweMessage(formatSiweMessage(message).replace('Version: 1', 'Version: 2')), null, 'refuses another version');
+    t.equal(parseSiweMessage(`${formatSiweMessage(message)}\nno separator`), null, 'refuses a stray line');
+});
+
+test('a signed message signs in once per nonce', async (t) => {
+    const { account, message } = await signInAttempt();
+
+    const response = await verify(account, message);
+    t.equal(response.status, 200);
+    const body = await response.json();
+    t.equal(body.address, account.address);
+    t.match(body.token, /^[0-9a-f]{64}$/, 'hands out the session token');
+
+    const replayed = await verify(account, message);
+    t.equal(replayed.status, 401);
+    t.equal((await replayed.json()).error, 'Unknown or expired nonce');
+});
+
+test('a sign-in message for somewhere else is refused', async (t) => {
+    const { account, message } = await signInAttempt();
+    const refusal = async (fields) => (await (await verify(account, { ...message, ...fields })).json()).error;
+
+    t.equal(await refusal({ domain: 'evil.example' }), 'Sign-in message is for a different domain');
+    t.equal(await refusal({ uri: 'https://evil.example' }), 'Sign-in message is for a different URI');
+    t.equal(await refusal({ chainId: 1 }), 'Sign-in message is for a different chain');
+    t.equal(await refusal({ expirationTime: new Date(Date.now() - 1000).toISOString() }), 'Sign-in message has expired');
+    t.equal(await refusal({ issuedAt: new Date(Date.now() + 10 * 60_000).toISOString() }), 'Sign-in message has an invalid Issued At time');
+    t.equal(await refusal({ issuedAt: new Date(Date.now() - 60 * 60_000).toISOString() }), 'Sign-in message has an invalid Issued At time');
+    t.equal(await refusal({ nonce: 'a'.repeat(32) }), 'Unknown or expired nonce', 'refuses a nonce never issued');
+
+    t.equal((await verify(account, message)).status, 200, 'none of them used up the nonce');
+});
+
+test('a sign-in signed by another wallet leaves the nonce for the real one', async (t) => {
+    const { eth } = await import('web3');
+    const { account, message } = await signInAttempt();
+
+    const forged = await verify(eth.accounts.create(), message);
+    t.equal(forged.status, 401);
+    t.equal((await forged.json()).error, 'Signature does not match the sign-in address');
+
+    t.equal((await verify(account, message)).status, 200);
+});
+
+test('issuing a nonce drops the ones that expired unused', async (t) => {
+    const { collection } = await load('lib/storage');
+    const nonces = collection('siwe-nonces');
+    await nonces.set('0'.repeat(32), { expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+    const { nonce } = await (await appFetch('/api/auth/nonce')).json();
+    t.equal(await nonces.get('0'.repeat(32)), undefined, 'drops the expired nonce');
+    t.ok(await nonces.get(nonce), 'keeps the new one');
+});
@@ -0,0 +1,55 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import test from 'tape';
+import { DATA_DIR, load } from './helpers.mjs';
+
+test('concurrent updates to one key are applied in turn', async (t) => {
+    const { collection } = await load('lib/storage');
+    const counters = collection('test-counters');
+
+    await Promise.all(Array.from({ length: 50 }, () => counters.update('hits', current => (current ?? 0) + 1)));
+    t.equal(await counters.get('hits'), 50, 'loses no increment');
+
+    const onDisk = JSON.parse(readFileSync(path.join(DATA_DIR, 'test-counters.json'), 'utf8'));
+    t.equal(onDisk.hits, 50, 'persists the last write');
+});
+
+test('only one concurrent insert of a key wins', async (t) => {
+    const { collection } = await load('lib/storage');
+    const nonces = collection('test-nonces');
+
+    const results = await Promise.all(Array.from({ length: 20 }, (_, i) => nonces.insert('nonce', i)));
+    t.equal(results.filter(Boolean).length, 1);
+    t.equal(await nonces.get('nonce'), results.indexOf(true));
+});
+
+test('concurrent writes to different keys all land', async (t) => {
+    const { collection } = await load('lib/storage');
+    const items = collection('test-items');
+
+    const keys = Array.from({ length: 30 }, (_, i) => `item-${i}`);
+    await Promise.all(keys.map((key, i) => (i % 2 ? items.set(key, i) : items.update(key, () => i))));
+    t.deepEqual((await items.entries()).map(([key]) => key).sort(), [...keys].sort());
+});
+
+test('keys named after Object.prototype members are plain keys', async (t) => {
+    const { collection } = await load('lib/storage');
+    const records = collection('test-records');
+
+    t.equal(await records.get('constructor'), undefined);
+    t.ok(await records.insert('__proto__', 'stored'));
+    t.equal(await records.get('__proto__'), 'stored');
+    t.deepEqual((await records.entries()).map(([key]) => key), ['__proto__']);
+});
+
+test('a failed update leaves the stored value as it was', async (t) => {
+    const { collection } = await load('lib/storage');
+    const records = collection('test-failures');
+
+    await records.set('kept', 1);
+    await Promise.all([
+        records.update('kept', () => { throw new Error('boom'); }).catch(() => null),
+        records.update('kept', current => current + 1),
+    ]);
+    t.equal(await records.get('kept'), 2, 'the next update still runs');
+});
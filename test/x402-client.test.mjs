@@ -0,0 +1,85 @@
+import test from 'tape';
+import { SERVER_WALLET, TEST_TOKEN, load } from './helpers.mjs';
+
+const option = (asset, maxAmountRequired) => ({
+    scheme: 'exact',
+    network: 'eip155:10143',
+    maxAmountRequired,
+    resource: 'http://localhost:3000/api/chat',
+    description: 'Test query',
+    mimeType: 'text/event-stream',
+    payTo: SERVER_WALLET,
+    maxTimeoutSeconds: 3600,
+    asset,
+});
+
+// A server asking `accepts` for every unpaid request, and a signer recording what it paid
+function paywall(accepts, { fee, fail } = {}) {
+    const paid = [];
+    const signer = {
+        address: '0x0000000000000000000000000000000000000001',
+        signMessage: async () => '0x',
+        fee: fee && (async () => fee),
+        pay: async (chosen, amount) => {
+            if (fail) throw new Error('Wallet rejected');
+            paid.push({ asset: chosen.asset, amount });
+            return { transaction: `0x${'1'.repeat(64)}` };
+        },
+    };
+    const fetch = async (input, init) => new Headers(init?.headers).has('X-PAYMENT')
+        ? new Response('answer')
+        : Response.json({ x402Version: 1, error: 'Payment required', accepts }, { status: 402 });
+    return { signer, fetch, paid };
+}
+
+test('payments stay within the spending cap', async (t) => {
+    const { SpendingCapError, createX402Client } = await load('lib/x402/client');
+    const { signer, fetch, paid } = paywall([option('native', '600')]);
+    const client = createX402Client({ signer, fetch, spendingCap: { native: BigInt(1000) } });
+
+    t.equal(await (await client.fetch('/api/chat')).text(), 'answer');
+    t.deepEqual(client.spent(), { native: BigInt(600) });
+    try {
+        await client.fetch('/api/chat');
+        t.fail('should not pay past the cap');
+    } catch (error) {
+        t.ok(error instanceof SpendingCapError);
+    }
+    t.equal(paid.length, 1, 'pays nothing more');
+});
+
+test('options in an asset without a cap are never paid', async (t) => {
+    const { SpendingCapError, createX402Client } = await load('lib/x402/client');
+    const { signer, fetch, paid } = paywall([option('native', '600'), option(TEST_TOKEN, '2')]);
+
+    const client = createX402Client({ signer, fetch, spendingCap: { [TEST_TOKEN]: BigInt(10) } });
+    await client.fetch('/api/chat');
+    t.deepEqual(paid, [{ asset: TEST_TOKEN, amount: '2' }], 'pays in the capped asset');
+
+    const uncapped = createX402Client({ signer, fetch, spendingCap: {} });
+    await uncapped.fetch('/api/chat').then(() => t.fail('should not pay'), error => t.ok(error instanceof SpendingCapError));
+});
+
+test('gas counts against the native cap', async (t) => {
+    const { SpendingCapError, createX402Client } = await load('lib/x402/client');
+    const { signer, fetch, paid } = paywall([option('native', '600')], { fee: BigInt(500) });
+    const client = createX402Client({ signer, fetch, spendingCap: { native: BigInt(1000) } });
+
+    await client.fetch('/api/chat').then(() => t.fail('should not pay'), error => t.ok(error instanceof SpendingCapError));
+    t.equal(paid.length, 0);
+    t.deepEqual(client.spent(), { native: BigInt(0) }, 'gives back what it counted');
+});
+
+test('a payment that fails or is cancelled is not counted', async (t) => {
+    const { PaymentCancelledError, createX402Client } = await load('lib/x402/client');
+
+    const failing = paywall([option('native', '600')], { fail: true });
+    const client = createX402Client({ ...failing, spendingCap: { native: BigInt(1000) } });
+    await client.fetch('/api/chat').then(() => t.fail('should throw'), error => t.equal(error.message, 'Wallet rejected'));
+    t.deepEqual(client.spent(), { native: BigInt(0) });
+
+    const { signer, fetch, paid } = paywall([option('native', '600')]);
+    const declined = createX402Client({ signer, fetch, choose: async () => null });
+    await declined.fetch('/api/chat').then(() => t.fail('should throw'), error => t.ok(error instanceof PaymentCancelledError));
+    t.equal(paid.length, 0);
+});